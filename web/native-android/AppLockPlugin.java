@@ -0,0 +1,74 @@
+package ai.opencode.remote.web;
+
+import android.app.KeyguardManager;
+import android.content.Context;
+import android.hardware.biometrics.BiometricManager;
+import android.hardware.biometrics.BiometricPrompt;
+import android.os.Build;
+import android.os.CancellationSignal;
+
+import com.getcapacitor.JSObject;
+import com.getcapacitor.Plugin;
+import com.getcapacitor.PluginCall;
+import com.getcapacitor.PluginMethod;
+import com.getcapacitor.annotation.CapacitorPlugin;
+
+/**
+ * Biometric check for the app lock, using the framework prompt so no extra AndroidX dependency is needed.
+ * The device PIN, pattern or password is offered as a fallback by the system prompt itself.
+ */
+@CapacitorPlugin(name = "AppLock")
+public class AppLockPlugin extends Plugin {
+    private static final int AUTHENTICATORS = BiometricManager.Authenticators.BIOMETRIC_WEAK
+        | BiometricManager.Authenticators.DEVICE_CREDENTIAL;
+
+    @PluginMethod
+    public void isAvailable(PluginCall call) {
+        JSObject result = new JSObject();
+        result.put("available", available());
+        call.resolve(result);
+    }
+
+    @PluginMethod
+    public void authenticate(PluginCall call) {
+        if (!available()) {
+            call.reject("Biometric authentication is not available");
+            return;
+        }
+        String title = call.getString("title", "Unlock");
+        String subtitle = call.getString("subtitle", "");
+        getActivity().runOnUiThread(() -> {
+            BiometricPrompt.Builder builder = new BiometricPrompt.Builder(getContext()).setTitle(title);
+            if (!subtitle.isEmpty()) builder.setSubtitle(subtitle);
+            if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.R) {
+                builder.setAllowedAuthenticators(AUTHENTICATORS);
+            } else {
+                builder.setDeviceCredentialAllowed(true);
+            }
+            builder.build().authenticate(new CancellationSignal(), getContext().getMainExecutor(), new BiometricPrompt.AuthenticationCallback() {
+                @Override
+                public void onAuthenticationSucceeded(BiometricPrompt.AuthenticationResult result) {
+                    call.resolve();
+                }
+
+                @Override
+                public void onAuthenticationError(int errorCode, CharSequence message) {
+                    // Cancelling the prompt lands here too; the web side falls back to the app PIN.
+                    call.reject(message == null ? "Authentication failed" : message.toString(), String.valueOf(errorCode));
+                }
+            });
+        });
+    }
+
+    private boolean available() {
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.R) {
+            BiometricManager manager = getContext().getSystemService(BiometricManager.class);
+            return manager != null && manager.canAuthenticate(AUTHENTICATORS) == BiometricManager.BIOMETRIC_SUCCESS;
+        }
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+            KeyguardManager keyguard = (KeyguardManager) getContext().getSystemService(Context.KEYGUARD_SERVICE);
+            return keyguard != null && keyguard.isDeviceSecure();
+        }
+        return false;
+    }
+}
@@ -1,7 +1,6 @@
 package ai.opencode.remote.web;
 
-import android.util.Base64;
-
+import com.getcapacitor.JSArray;
 import com.getcapacitor.JSObject;
 import com.getcapacitor.Plugin;
 import com.getcapacitor.PluginCall;
@@ -12,91 +11,236 @@ import java.io.BufferedReader;
 import java.io.InputStream;
 import java.io.InputStreamReader;
 import java.net.HttpURLConnection;
+import java.net.SocketTimeoutException;
 import java.net.URL;
 import java.nio.charset.StandardCharsets;
+import java.util.ArrayList;
+import java.util.HashMap;
+import java.util.Iterator;
+import java.util.List;
+import java.util.Map;
+import java.util.concurrent.ConcurrentHashMap;
 import java.util.concurrent.ExecutorService;
 import java.util.concurrent.Executors;
 import java.util.concurrent.Future;
 import java.util.concurrent.atomic.AtomicBoolean;
 
+import org.json.JSONObject;
+
 @CapacitorPlugin(name = "LiveEvents")
 public class LiveEventsPlugin extends Plugin {
-    private final ExecutorService executor = Executors.newSingleThreadExecutor();
-    private final AtomicBoolean stopped = new AtomicBoolean(true);
-    private volatile Future<?> task;
-    private volatile HttpURLConnection connection;
+    private static final String DEFAULT_STREAM = "default";
+
+    private final ExecutorService executor = Executors.newCachedThreadPool();
+    private final Map<String, LiveStream> streams = new ConcurrentHashMap<>();
+    /** Busy or retrying sessions per stream, kept current from the events while the WebView sleeps. */
+    private final Map<String, Map<String, Boolean>> busySessions = new ConcurrentHashMap<>();
+    private volatile boolean background = false;
+
+    /** One SSE connection; the app keeps one per connected OpenCode server. */
+    private static final class LiveStream {
+        final String id;
+        final AtomicBoolean stopped = new AtomicBoolean(false);
+        volatile Future<?> task;
+        volatile HttpURLConnection connection;
+        /** Last SSE `id:` seen, sent back as Last-Event-ID so the server can replay what a reconnect missed. */
+        volatile String lastEventId;
+        /** Whether the current connection got past the response headers, so a read timeout means it went silent. */
+        volatile boolean connected;
+
+        LiveStream(String id) {
+            this.id = id;
+        }
+    }
 
     @PluginMethod
     public void start(PluginCall call) {
+        String id = call.getString("id", DEFAULT_STREAM);
         String url = call.getString("url");
-        String username = call.getString("username", "");
-        String password = call.getString("password", "");
+        Map<String, String> headers = requestHeaders(call);
+        int idleTimeoutMs = Math.max(0, call.getInt("idleTimeoutMs", 0));
         if (url == null || url.isEmpty()) {
             call.reject("Missing event stream URL");
             return;
         }
-        stopStream();
-        stopped.set(false);
-        task = executor.submit(() -> runStream(url, username, password));
+        stopStream(id);
+        LiveStream stream = new LiveStream(id);
+        streams.put(id, stream);
+        stream.task = executor.submit(() -> runStream(stream, url, headers, idleTimeoutMs));
+        if (background) LiveEventsService.start(getContext(), busyCount());
+        call.resolve();
+    }
+
+    /**
+     * Opens the event stream once for diagnostics and reports the response head without reading events; `servers`, when
+     * given, are the certificate settings to check this one connection against.
+     */
+    @PluginMethod
+    public void probe(PluginCall call) {
+        String url = call.getString("url");
+        Map<String, String> headers = requestHeaders(call);
+        JSArray servers = call.getArray("servers", null);
+        if (url == null || url.isEmpty()) {
+            call.reject("Missing event stream URL");
+            return;
+        }
+        executor.submit(() -> {
+            HttpURLConnection connection = null;
+            try {
+                connection = (HttpURLConnection) new URL(url).openConnection();
+                ServerTrustPlugin.applyTrust(connection, servers);
+                connection.setRequestMethod("GET");
+                connection.setRequestProperty("Accept", "text/event-stream");
+                applyHeaders(connection, headers);
+                connection.setConnectTimeout(10000);
+                connection.setReadTimeout(10000);
+                JSObject result = new JSObject();
+                result.put("status", connection.getResponseCode());
+                String contentType = connection.getContentType();
+                result.put("contentType", contentType == null ? "" : contentType);
+                call.resolve(result);
+            } catch (Exception error) {
+                call.reject(error.getMessage() == null ? error.getClass().getSimpleName() : error.getMessage());
+            } finally {
+                if (connection != null) connection.disconnect();
+            }
+        });
+    }
+
+    /** Turns the foreground service on or off; it only runs while at least one stream is open. */
+    @PluginMethod
+    public void setBackground(PluginCall call) {
+        background = Boolean.TRUE.equals(call.getBoolean("enabled", false));
+        LiveEventsService.setLabels(call.getString("title"), call.getString("idleText"), call.getString("busyText"));
+        if (background && !streams.isEmpty()) {
+            LiveEventsService.start(getContext(), busyCount());
+        } else {
+            LiveEventsService.stop(getContext());
+        }
+        call.resolve();
+    }
+
+    /** Seeds the busy sessions of a stream from the session list the web app loaded. */
+    @PluginMethod
+    public void updateSessions(PluginCall call) {
+        String id = call.getString("id", DEFAULT_STREAM);
+        JSArray busy = call.getArray("busy", new JSArray());
+        Map<String, Boolean> sessions = new ConcurrentHashMap<>();
+        try {
+            List<String> ids = busy.toList();
+            for (String sessionID : ids) sessions.put(sessionID, true);
+        } catch (Exception ignored) {
+            // Malformed list: treat the stream as idle until the next event or update.
+        }
+        busySessions.put(id, sessions);
+        LiveEventsService.update(getContext(), busyCount());
         call.resolve();
     }
 
     @PluginMethod
     public void stop(PluginCall call) {
-        stopStream();
+        String id = call.getString("id");
+        if (id == null) {
+            stopAllStreams();
+        } else {
+            stopStream(id);
+        }
         call.resolve();
     }
 
     @Override
     protected void handleOnDestroy() {
-        stopStream();
+        stopAllStreams();
+        LiveEventsService.stop(getContext());
         executor.shutdownNow();
     }
 
-    private void stopStream() {
-        stopped.set(true);
-        HttpURLConnection activeConnection = connection;
+    private void stopAllStreams() {
+        for (String id : new ArrayList<>(streams.keySet())) {
+            stopStream(id);
+        }
+    }
+
+    private void stopStream(String id) {
+        LiveStream stream = streams.remove(id);
+        if (stream == null) return;
+        stream.stopped.set(true);
+        HttpURLConnection activeConnection = stream.connection;
         if (activeConnection != null) activeConnection.disconnect();
-        Future<?> activeTask = task;
+        Future<?> activeTask = stream.task;
         if (activeTask != null) activeTask.cancel(true);
-        connection = null;
-        task = null;
-        publishStatus("closed", null, null);
+        stream.connection = null;
+        stream.task = null;
+        busySessions.remove(id);
+        if (streams.isEmpty()) {
+            LiveEventsService.stop(getContext());
+        } else {
+            LiveEventsService.update(getContext(), busyCount());
+        }
+        publishStatus(stream, "closed", null, null);
+    }
+
+    /** Authentication headers built by the web side (Basic, Bearer or custom), so every auth mode works natively too. */
+    private static Map<String, String> requestHeaders(PluginCall call) {
+        Map<String, String> headers = new HashMap<>();
+        JSObject values = call.getObject("headers", new JSObject());
+        if (values == null) return headers;
+        Iterator<String> names = values.keys();
+        while (names.hasNext()) {
+            String name = names.next();
+            String value = values.optString(name, null);
+            if (value != null) headers.put(name, value);
+        }
+        return headers;
+    }
+
+    private static void applyHeaders(HttpURLConnection connection, Map<String, String> headers) {
+        for (Map.Entry<String, String> header : headers.entrySet()) {
+            connection.setRequestProperty(header.getKey(), header.getValue());
+        }
     }
 
-    private void runStream(String endpoint, String username, String password) {
+    private void runStream(LiveStream stream, String endpoint, Map<String, String> headers, int idleTimeoutMs) {
         int delayMs = 1000;
-        while (!stopped.get()) {
+        while (!stream.stopped.get()) {
             try {
                 HttpURLConnection current = (HttpURLConnection) new URL(endpoint).openConnection();
-                connection = current;
+                stream.connection = current;
                 current.setRequestMethod("GET");
                 current.setRequestProperty("Accept", "text/event-stream");
-                if (!username.isEmpty() || !password.isEmpty()) {
-                    String credentials = username + ":" + password;
-                    String encoded = Base64.encodeToString(credentials.getBytes(StandardCharsets.UTF_8), Base64.NO_WRAP);
-                    current.setRequestProperty("Authorization", "Basic " + encoded);
-                }
+                String resumeFrom = stream.lastEventId;
+                if (resumeFrom != null) current.setRequestProperty("Last-Event-ID", resumeFrom);
+                applyHeaders(current, headers);
                 current.setConnectTimeout(10000);
-                current.setReadTimeout(0);
+                // Heartbeats keep a healthy stream talking, so a read that waits this long is on a half-open connection.
+                current.setReadTimeout(idleTimeoutMs);
                 int status = current.getResponseCode();
                 String contentType = current.getContentType();
                 if (status != HttpURLConnection.HTTP_OK || contentType == null || !contentType.toLowerCase().contains("text/event-stream")) {
                     throw new IllegalStateException("HTTP " + status + "; expected text/event-stream");
                 }
                 delayMs = 1000;
-                publishStatus("connected", null, null);
-                readFrames(current.getInputStream());
+                stream.connected = true;
+                publishConnected(stream, resumeFrom != null);
+                readFrames(stream, current.getInputStream());
+            } catch (SocketTimeoutException timeout) {
+                if (stream.stopped.get()) break;
+                if (stream.connected) {
+                    publishStale(stream, idleTimeoutMs);
+                } else {
+                    publishStatus(stream, "connection-error", timeout.getMessage(), null);
+                }
             } catch (Exception error) {
-                if (stopped.get()) break;
-                publishStatus("connection-error", error.getMessage(), null);
+                if (stream.stopped.get()) break;
+                publishStatus(stream, "connection-error", error.getMessage(), null);
             } finally {
-                HttpURLConnection current = connection;
+                stream.connected = false;
+                HttpURLConnection current = stream.connection;
                 if (current != null) current.disconnect();
-                connection = null;
+                stream.connection = null;
             }
-            if (!stopped.get()) {
-                publishStatus("reconnecting", null, delayMs);
+            if (!stream.stopped.get()) {
+                publishStatus(stream, "reconnecting", null, delayMs);
                 try {
                     Thread.sleep(delayMs);
                 } catch (InterruptedException ignored) {
@@ -108,16 +252,28 @@ public class LiveEventsPlugin extends Plugin {
         }
     }
 
-    private void readFrames(InputStream inputStream) throws Exception {
+    private void readFrames(LiveStream stream, InputStream inputStream) throws Exception {
         try (BufferedReader reader = new BufferedReader(new InputStreamReader(inputStream, StandardCharsets.UTF_8))) {
             StringBuilder data = new StringBuilder();
+            String id = null;
             String line;
-            while (!stopped.get() && (line = reader.readLine()) != null) {
+            while (!stream.stopped.get() && (line = reader.readLine()) != null) {
                 if (line.isEmpty()) {
                     if (data.length() > 0) {
-                        publishEvent(data.toString());
+                        publishEvent(stream, data.toString(), id);
                         data.setLength(0);
                     }
+                    id = null;
+                    continue;
+                }
+                if (line.startsWith("id:")) {
+                    String value = line.substring(3);
+                    value = value.startsWith(" ") ? value.substring(1) : value;
+                    // Per the SSE spec an id containing NUL is ignored and an empty one resets the last id.
+                    if (value.indexOf('\0') == -1) {
+                        id = value;
+                        stream.lastEventId = value.isEmpty() ? null : value;
+                    }
                     continue;
                 }
                 if (line.startsWith("data:")) {
@@ -129,14 +285,79 @@ public class LiveEventsPlugin extends Plugin {
         }
     }
 
-    private void publishEvent(String data) {
+    private int busyCount() {
+        int count = 0;
+        for (Map<String, Boolean> sessions : busySessions.values()) count += sessions.size();
+        return count;
+    }
+
+    /** Follows session status changes natively so the service notification stays right while JS is paused. */
+    private void trackSessionStatus(LiveStream stream, String data) {
+        try {
+            JSONObject event = new JSONObject(data);
+            JSONObject payload = event.optJSONObject("payload");
+            if (payload != null) event = payload;
+            String type = event.optString("type");
+            JSONObject properties = event.optJSONObject("properties");
+            if (properties == null) return;
+            String sessionID = properties.optString("sessionID", "");
+            if (sessionID.isEmpty()) {
+                JSONObject info = properties.optJSONObject("info");
+                if (info != null) sessionID = info.optString("id", "");
+            }
+            if (sessionID.isEmpty()) return;
+            Map<String, Boolean> sessions = busySessions.get(stream.id);
+            if (sessions == null) {
+                sessions = new ConcurrentHashMap<>();
+                busySessions.put(stream.id, sessions);
+            }
+            if (type.equals("session.status")) {
+                JSONObject status = properties.optJSONObject("status");
+                String state = status == null ? "" : status.optString("type");
+                if (state.equals("busy") || state.equals("retry")) {
+                    sessions.put(sessionID, true);
+                } else {
+                    sessions.remove(sessionID);
+                }
+            } else if (type.equals("session.idle") || type.equals("session.deleted")) {
+                sessions.remove(sessionID);
+            } else {
+                return;
+            }
+            LiveEventsService.update(getContext(), busyCount());
+        } catch (Exception ignored) {
+            // Not JSON: the web app reports parse errors, the count just stays as it was.
+        }
+    }
+
+    private void publishEvent(LiveStream stream, String data, String id) {
+        trackSessionStatus(stream, data);
         JSObject payload = new JSObject();
+        payload.put("stream", stream.id);
         payload.put("data", data);
+        if (id != null) payload.put("id", id);
         notifyListeners("event", payload);
     }
 
-    private void publishStatus(String type, String error, Integer delayMs) {
+    private void publishConnected(LiveStream stream, boolean resumed) {
+        JSObject payload = new JSObject();
+        payload.put("stream", stream.id);
+        payload.put("type", "connected");
+        payload.put("resumed", resumed);
+        notifyListeners("status", payload);
+    }
+
+    private void publishStale(LiveStream stream, int idleMs) {
+        JSObject payload = new JSObject();
+        payload.put("stream", stream.id);
+        payload.put("type", "stale");
+        payload.put("idleMs", idleMs);
+        notifyListeners("status", payload);
+    }
+
+    private void publishStatus(LiveStream stream, String type, String error, Integer delayMs) {
         JSObject payload = new JSObject();
+        payload.put("stream", stream.id);
         payload.put("type", type);
         if (error != null) payload.put("error", error);
         if (delayMs != null) payload.put("delayMs", delayMs);
@@ -0,0 +1,118 @@
+package ai.opencode.remote.web;
+
+import android.app.Notification;
+import android.app.NotificationChannel;
+import android.app.NotificationManager;
+import android.app.PendingIntent;
+import android.app.Service;
+import android.content.Context;
+import android.content.Intent;
+import android.content.pm.ServiceInfo;
+import android.os.Build;
+import android.os.IBinder;
+
+import androidx.core.app.NotificationCompat;
+import androidx.core.app.ServiceCompat;
+import androidx.core.content.ContextCompat;
+
+/**
+ * Foreground service that keeps the app process, and with it the LiveEventsPlugin SSE threads, running while
+ * the WebView is suspended. Its persistent notification shows how many sessions are busy.
+ */
+public class LiveEventsService extends Service {
+    private static final String CHANNEL_ID = "live-events";
+    private static final int NOTIFICATION_ID = 1;
+
+    private static volatile boolean running = false;
+    private static volatile int busyCount = 0;
+    private static volatile String title = "OpenCode Remote";
+    private static volatile String idleText = "Connected, no session running";
+    private static volatile String busyText = "{count} sessions running";
+
+    /** Labels come from the web app so the notification follows the selected language. */
+    static void setLabels(String nextTitle, String nextIdleText, String nextBusyText) {
+        if (nextTitle != null && !nextTitle.isEmpty()) title = nextTitle;
+        if (nextIdleText != null && !nextIdleText.isEmpty()) idleText = nextIdleText;
+        if (nextBusyText != null && !nextBusyText.isEmpty()) busyText = nextBusyText;
+    }
+
+    static void start(Context context, int busy) {
+        busyCount = busy;
+        if (running) {
+            refresh(context);
+            return;
+        }
+        try {
+            ContextCompat.startForegroundService(context, new Intent(context, LiveEventsService.class));
+        } catch (RuntimeException denied) {
+            // Android 12+ refuses to start foreground services from the background; the next foreground start retries.
+        }
+    }
+
+    static void update(Context context, int busy) {
+        if (busyCount == busy) return;
+        busyCount = busy;
+        if (running) refresh(context);
+    }
+
+    static void stop(Context context) {
+        context.stopService(new Intent(context, LiveEventsService.class));
+    }
+
+    @Override
+    public int onStartCommand(Intent intent, int flags, int startId) {
+        createChannel(this);
+        int type = Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q ? ServiceInfo.FOREGROUND_SERVICE_TYPE_DATA_SYNC : 0;
+        ServiceCompat.startForeground(this, NOTIFICATION_ID, buildNotification(this), type);
+        running = true;
+        // The streams live in the app process; after the system kills it there is nothing left to keep alive.
+        return START_NOT_STICKY;
+    }
+
+    @Override
+    public void onTimeout(int startId, int fgsType) {
+        // Android 15 caps data sync services; the streams keep running as long as the system lets the process live.
+        stopSelf();
+    }
+
+    @Override
+    public void onDestroy() {
+        running = false;
+        super.onDestroy();
+    }
+
+    @Override
+    public IBinder onBind(Intent intent) {
+        return null;
+    }
+
+    private static void refresh(Context context) {
+        NotificationManager manager = context.getSystemService(NotificationManager.class);
+        if (manager != null) manager.notify(NOTIFICATION_ID, buildNotification(context));
+    }
+
+    private static Notification buildNotification(Context context) {
+        Intent open = new Intent(context, MainActivity.class);
+        open.setFlags(Intent.FLAG_ACTIVITY_SINGLE_TOP | Intent.FLAG_ACTIVITY_CLEAR_TOP);
+        PendingIntent tap = PendingIntent.getActivity(context, 0, open, PendingIntent.FLAG_UPDATE_CURRENT | PendingIntent.FLAG_IMMUTABLE);
+        String text = busyCount > 0 ? busyText.replace("{count}", String.valueOf(busyCount)) : idleText;
+        return new NotificationCompat.Builder(context, CHANNEL_ID)
+            .setSmallIcon(context.getApplicationInfo().icon)
+            .setContentTitle(title)
+            .setContentText(text)
+            .setPriority(NotificationCompat.PRIORITY_LOW)
+            .setOngoing(true)
+            .setOnlyAlertOnce(true)
+            .setShowWhen(false)
+            .setContentIntent(tap)
+            .build();
+    }
+
+    private static void createChannel(Context context) {
+        if (Build.VERSION.SDK_INT < Build.VERSION_CODES.O) return;
+        NotificationChannel channel = new NotificationChannel(CHANNEL_ID, "Live connection", NotificationManager.IMPORTANCE_LOW);
+        channel.setDescription("Keeps the event stream open in the background");
+        channel.setShowBadge(false);
+        context.getSystemService(NotificationManager.class).createNotificationChannel(channel);
+    }
+}
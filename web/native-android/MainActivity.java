@@ -6,6 +6,10 @@ public class MainActivity extends BridgeActivity {
     @Override
     public void onCreate(android.os.Bundle savedInstanceState) {
         registerPlugin(LiveEventsPlugin.class);
+        registerPlugin(SessionNotificationsPlugin.class);
+        registerPlugin(SecureCredentialsPlugin.class);
+        registerPlugin(AppLockPlugin.class);
+        registerPlugin(ServerTrustPlugin.class);
         super.onCreate(savedInstanceState);
     }
 }
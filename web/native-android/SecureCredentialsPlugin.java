@@ -0,0 +1,128 @@
+package ai.opencode.remote.web;
+
+import android.content.Context;
+import android.content.SharedPreferences;
+import android.security.keystore.KeyGenParameterSpec;
+import android.security.keystore.KeyProperties;
+import android.util.Base64;
+
+import com.getcapacitor.JSArray;
+import com.getcapacitor.JSObject;
+import com.getcapacitor.Plugin;
+import com.getcapacitor.PluginCall;
+import com.getcapacitor.PluginMethod;
+import com.getcapacitor.annotation.CapacitorPlugin;
+
+import java.nio.charset.StandardCharsets;
+import java.security.KeyStore;
+import java.util.List;
+
+import javax.crypto.Cipher;
+import javax.crypto.KeyGenerator;
+import javax.crypto.SecretKey;
+import javax.crypto.spec.GCMParameterSpec;
+
+/**
+ * Server passwords encrypted with an AES key that never leaves the Android Keystore.
+ * Only the ciphertext is kept, in private SharedPreferences keyed by profile id.
+ */
+@CapacitorPlugin(name = "SecureCredentials")
+public class SecureCredentialsPlugin extends Plugin {
+    private static final String KEYSTORE = "AndroidKeyStore";
+    private static final String KEY_ALIAS = "opencode-remote-credentials";
+    private static final String PREFERENCES = "opencode-remote-credentials";
+    private static final String TRANSFORMATION = "AES/GCM/NoPadding";
+    private static final int TAG_LENGTH_BITS = 128;
+
+    @PluginMethod
+    public void get(PluginCall call) {
+        JSArray ids = call.getArray("ids", new JSArray());
+        JSObject secrets = new JSObject();
+        try {
+            List<String> list = ids.toList();
+            SharedPreferences preferences = preferences();
+            for (String id : list) {
+                String stored = preferences.getString(id, null);
+                if (stored == null) continue;
+                try {
+                    secrets.put(id, decrypt(stored));
+                } catch (Exception ignored) {
+                    // A key reset (e.g. after clearing the lock screen) leaves undecryptable entries; the user re-enters them.
+                    preferences.edit().remove(id).apply();
+                }
+            }
+        } catch (Exception error) {
+            call.reject(error.getMessage());
+            return;
+        }
+        JSObject result = new JSObject();
+        result.put("secrets", secrets);
+        call.resolve(result);
+    }
+
+    @PluginMethod
+    public void set(PluginCall call) {
+        String id = call.getString("id");
+        String secret = call.getString("secret", "");
+        if (id == null || id.isEmpty()) {
+            call.reject("Missing credential id");
+            return;
+        }
+        try {
+            SharedPreferences.Editor editor = preferences().edit();
+            if (secret.isEmpty()) {
+                editor.remove(id);
+            } else {
+                editor.putString(id, encrypt(secret));
+            }
+            editor.apply();
+            call.resolve();
+        } catch (Exception error) {
+            call.reject(error.getMessage());
+        }
+    }
+
+    @PluginMethod
+    public void remove(PluginCall call) {
+        String id = call.getString("id");
+        if (id != null) preferences().edit().remove(id).apply();
+        call.resolve();
+    }
+
+    private SharedPreferences preferences() {
+        return getContext().getSharedPreferences(PREFERENCES, Context.MODE_PRIVATE);
+    }
+
+    private SecretKey key() throws Exception {
+        KeyStore keyStore = KeyStore.getInstance(KEYSTORE);
+        keyStore.load(null);
+        if (keyStore.containsAlias(KEY_ALIAS)) {
+            return ((KeyStore.SecretKeyEntry) keyStore.getEntry(KEY_ALIAS, null)).getSecretKey();
+        }
+        KeyGenerator generator = KeyGenerator.getInstance(KeyProperties.KEY_ALGORITHM_AES, KEYSTORE);
+        generator.init(new KeyGenParameterSpec.Builder(KEY_ALIAS, KeyProperties.PURPOSE_ENCRYPT | KeyProperties.PURPOSE_DECRYPT)
+            .setBlockModes(KeyProperties.BLOCK_MODE_GCM)
+            .setEncryptionPaddings(KeyProperties.ENCRYPTION_PADDING_NONE)
+            .setKeySize(256)
+            .build());
+        return generator.generateKey();
+    }
+
+    /** Stored as `base64(iv):base64(ciphertext)`; the Keystore picks a fresh IV for every encryption. */
+    private String encrypt(String secret) throws Exception {
+        Cipher cipher = Cipher.getInstance(TRANSFORMATION);
+        cipher.init(Cipher.ENCRYPT_MODE, key());
+        byte[] ciphertext = cipher.doFinal(secret.getBytes(StandardCharsets.UTF_8));
+        return Base64.encodeToString(cipher.getIV(), Base64.NO_WRAP) + ":" + Base64.encodeToString(ciphertext, Base64.NO_WRAP);
+    }
+
+    private String decrypt(String stored) throws Exception {
+        int separator = stored.indexOf(':');
+        if (separator == -1) throw new IllegalStateException("Malformed credential");
+        byte[] iv = Base64.decode(stored.substring(0, separator), Base64.NO_WRAP);
+        byte[] ciphertext = Base64.decode(stored.substring(separator + 1), Base64.NO_WRAP);
+        Cipher cipher = Cipher.getInstance(TRANSFORMATION);
+        cipher.init(Cipher.DECRYPT_MODE, key(), new GCMParameterSpec(TAG_LENGTH_BITS, iv));
+        return new String(cipher.doFinal(ciphertext), StandardCharsets.UTF_8);
+    }
+}
@@ -0,0 +1,454 @@
+package ai.opencode.remote.web;
+
+import com.getcapacitor.JSArray;
+import com.getcapacitor.JSObject;
+import com.getcapacitor.Plugin;
+import com.getcapacitor.PluginCall;
+import com.getcapacitor.PluginMethod;
+import com.getcapacitor.annotation.CapacitorPlugin;
+
+import java.io.ByteArrayInputStream;
+import java.io.ByteArrayOutputStream;
+import java.io.InputStream;
+import java.net.HttpURLConnection;
+import java.net.InetAddress;
+import java.net.Socket;
+import java.net.URL;
+import java.nio.charset.StandardCharsets;
+import java.security.KeyStore;
+import java.security.MessageDigest;
+import java.security.cert.Certificate;
+import java.security.cert.CertificateException;
+import java.security.cert.CertificateFactory;
+import java.security.cert.X509Certificate;
+import java.util.ArrayList;
+import java.util.Collections;
+import java.util.HashMap;
+import java.util.HashSet;
+import java.util.Iterator;
+import java.util.List;
+import java.util.Locale;
+import java.util.Map;
+import java.util.Set;
+import java.util.concurrent.ExecutorService;
+import java.util.concurrent.Executors;
+
+import javax.net.ssl.HostnameVerifier;
+import javax.net.ssl.HttpsURLConnection;
+import javax.net.ssl.SSLContext;
+import javax.net.ssl.SSLEngine;
+import javax.net.ssl.SSLSession;
+import javax.net.ssl.SSLSocket;
+import javax.net.ssl.SSLSocketFactory;
+import javax.net.ssl.TrustManager;
+import javax.net.ssl.TrustManagerFactory;
+import javax.net.ssl.X509ExtendedTrustManager;
+import javax.net.ssl.X509TrustManager;
+
+import org.json.JSONArray;
+import org.json.JSONObject;
+
+/**
+ * Per-server TLS trust: pinned SHA-256 certificate fingerprints and imported CA or leaf certificates.
+ * It replaces the process-wide HttpsURLConnection defaults, so CapacitorHttp requests and LiveEventsPlugin streams
+ * both go through it. Servers without pins or certificates keep the system trust store. Settings that are not saved yet,
+ * like a draft profile under test, are passed with each request instead and only apply to that connection.
+ */
+@CapacitorPlugin(name = "ServerTrust")
+public class ServerTrustPlugin extends Plugin {
+    private static final int PROBE_TIMEOUT_MS = 10000;
+
+    private final ExecutorService executor = Executors.newSingleThreadExecutor();
+    private static volatile Map<String, ServerTrust> servers = Collections.emptyMap();
+    private static X509TrustManager systemTrust;
+    private static HostnameVerifier systemVerifier;
+    private static SSLSocketFactory socketFactory;
+    private static HostnameVerifier hostnameVerifier;
+
+    /** What the user chose to trust for one host and port. */
+    private static final class ServerTrust {
+        final Set<String> pins = new HashSet<>();
+        final Set<String> certificateFingerprints = new HashSet<>();
+        X509TrustManager certificates;
+    }
+
+    @Override
+    public void load() {
+        install();
+    }
+
+    private static synchronized void install() {
+        if (socketFactory != null) return;
+        try {
+            TrustManagerFactory factory = TrustManagerFactory.getInstance(TrustManagerFactory.getDefaultAlgorithm());
+            factory.init((KeyStore) null);
+            systemTrust = firstX509(factory.getTrustManagers());
+            systemVerifier = HttpsURLConnection.getDefaultHostnameVerifier();
+            socketFactory = socketFactory(null);
+            hostnameVerifier = new ServerHostnameVerifier(systemVerifier, null);
+            HttpsURLConnection.setDefaultSSLSocketFactory(socketFactory);
+            HttpsURLConnection.setDefaultHostnameVerifier(hostnameVerifier);
+        } catch (Exception error) {
+            // Without the custom factory every server simply keeps the system trust store.
+            socketFactory = null;
+        }
+    }
+
+    /** A socket factory that checks servers against `overrides`, or against the configured servers when it is null. */
+    private static SSLSocketFactory socketFactory(Map<String, ServerTrust> overrides) throws Exception {
+        SSLContext context = SSLContext.getInstance("TLS");
+        context.init(null, new TrustManager[] { new ServerTrustManager(systemTrust, overrides) }, null);
+        return context.getSocketFactory();
+    }
+
+    @PluginMethod
+    public void configure(PluginCall call) {
+        try {
+            servers = parseServers(call.getArray("servers", new JSArray()));
+        } catch (Exception error) {
+            call.reject("Invalid certificate settings: " + message(error));
+            return;
+        }
+        call.resolve();
+    }
+
+    private static Map<String, ServerTrust> parseServers(JSONArray list) throws Exception {
+        Map<String, ServerTrust> next = new HashMap<>();
+        for (int index = 0; index < list.length(); index++) {
+            JSONObject item = list.getJSONObject(index);
+            ServerTrust trust = new ServerTrust();
+            JSONArray pins = item.optJSONArray("pins");
+            for (int pin = 0; pins != null && pin < pins.length(); pin++) trust.pins.add(pins.getString(pin).toUpperCase(Locale.ROOT));
+            JSONArray pems = item.optJSONArray("certificates");
+            List<X509Certificate> certificates = new ArrayList<>();
+            for (int pem = 0; pems != null && pem < pems.length(); pem++) certificates.addAll(parseCertificates(pems.getString(pem)));
+            if (!certificates.isEmpty()) {
+                trust.certificates = certificateTrustManager(certificates);
+                for (X509Certificate certificate : certificates) trust.certificateFingerprints.add(fingerprint(certificate));
+            }
+            next.put(key(item.getString("host"), item.getInt("port")), trust);
+        }
+        return next;
+    }
+
+    /**
+     * Makes one connection check the server against `list` instead of the configured servers, so unsaved settings can be
+     * tried without touching what every other request uses. A null list leaves the connection as it is.
+     */
+    static void applyTrust(HttpURLConnection connection, JSONArray list) throws Exception {
+        if (list == null || !(connection instanceof HttpsURLConnection) || systemTrust == null) return;
+        Map<String, ServerTrust> overrides = parseServers(list);
+        HttpsURLConnection https = (HttpsURLConnection) connection;
+        https.setSSLSocketFactory(socketFactory(overrides));
+        https.setHostnameVerifier(new ServerHostnameVerifier(systemVerifier, overrides));
+    }
+
+    /** A GET with the trust settings of the call, for testing a server whose settings are not saved yet. */
+    @PluginMethod
+    public void request(PluginCall call) {
+        String url = call.getString("url");
+        if (url == null || url.isEmpty()) {
+            call.reject("Missing request URL");
+            return;
+        }
+        JSObject headers = call.getObject("headers", new JSObject());
+        JSArray list = call.getArray("servers", null);
+        int timeoutMs = call.getInt("timeoutMs", PROBE_TIMEOUT_MS);
+        executor.submit(() -> {
+            HttpURLConnection connection = null;
+            try {
+                connection = (HttpURLConnection) new URL(url).openConnection();
+                applyTrust(connection, list);
+                connection.setRequestMethod("GET");
+                Iterator<String> names = headers == null ? Collections.<String>emptyIterator() : headers.keys();
+                while (names.hasNext()) {
+                    String name = names.next();
+                    String value = headers.optString(name, null);
+                    if (value != null) connection.setRequestProperty(name, value);
+                }
+                connection.setConnectTimeout(timeoutMs);
+                connection.setReadTimeout(timeoutMs);
+                int status = connection.getResponseCode();
+                JSObject responseHeaders = new JSObject();
+                for (Map.Entry<String, List<String>> header : connection.getHeaderFields().entrySet()) {
+                    if (header.getKey() != null && !header.getValue().isEmpty()) responseHeaders.put(header.getKey(), header.getValue().get(0));
+                }
+                JSObject result = new JSObject();
+                result.put("status", status);
+                result.put("headers", responseHeaders);
+                result.put("data", readBody(status >= 400 ? connection.getErrorStream() : connection.getInputStream()));
+                call.resolve(result);
+            } catch (Exception error) {
+                call.reject(message(error));
+            } finally {
+                if (connection != null) connection.disconnect();
+            }
+        });
+    }
+
+    private static String readBody(InputStream input) throws Exception {
+        if (input == null) return "";
+        try (InputStream stream = input) {
+            ByteArrayOutputStream body = new ByteArrayOutputStream();
+            byte[] buffer = new byte[8192];
+            for (int read = stream.read(buffer); read != -1; read = stream.read(buffer)) body.write(buffer, 0, read);
+            return new String(body.toByteArray(), StandardCharsets.UTF_8);
+        }
+    }
+
+    /**
+     * Reads the server certificate without trusting it, so the app can show its fingerprint before the user decides.
+     * `trusted` is judged by the `servers` of the call when given, otherwise by the configured servers.
+     */
+    @PluginMethod
+    public void inspect(PluginCall call) {
+        String url = call.getString("url");
+        if (url == null || url.isEmpty()) {
+            call.reject("Missing server URL");
+            return;
+        }
+        JSArray list = call.getArray("servers", null);
+        executor.submit(() -> {
+            try {
+                Map<String, ServerTrust> overrides = list == null ? null : parseServers(list);
+                URL target = new URL(url);
+                String host = target.getHost().replaceAll("^\\[|\\]$", "");
+                int port = target.getPort() == -1 ? 443 : target.getPort();
+                X509Certificate[] chain = peerChain(host, port);
+                X509Certificate leaf = chain[0];
+                JSObject result = new JSObject();
+                result.put("host", host);
+                result.put("port", port);
+                result.put("fingerprint", fingerprint(leaf));
+                result.put("subject", leaf.getSubjectX500Principal().getName());
+                result.put("issuer", leaf.getIssuerX500Principal().getName());
+                result.put("notBefore", leaf.getNotBefore().getTime());
+                result.put("notAfter", leaf.getNotAfter().getTime());
+                result.put("trusted", trusted(host, port, overrides));
+                call.resolve(result);
+            } catch (Exception error) {
+                call.reject(message(error));
+            }
+        });
+    }
+
+    private static X509Certificate[] peerChain(String host, int port) throws Exception {
+        SSLContext context = SSLContext.getInstance("TLS");
+        context.init(null, new TrustManager[] { new AcceptAllTrustManager() }, null);
+        try (SSLSocket socket = (SSLSocket) context.getSocketFactory().createSocket(host, port)) {
+            socket.setSoTimeout(PROBE_TIMEOUT_MS);
+            socket.startHandshake();
+            Certificate[] peer = socket.getSession().getPeerCertificates();
+            X509Certificate[] chain = new X509Certificate[peer.length];
+            for (int index = 0; index < peer.length; index++) chain[index] = (X509Certificate) peer[index];
+            return chain;
+        }
+    }
+
+    /** Whether a real connection with the given settings, or the configured ones when null, would accept this server. */
+    private static boolean trusted(String host, int port, Map<String, ServerTrust> overrides) {
+        SSLSocketFactory factory = socketFactory != null ? socketFactory : HttpsURLConnection.getDefaultSSLSocketFactory();
+        HostnameVerifier verifier = hostnameVerifier != null ? hostnameVerifier : HttpsURLConnection.getDefaultHostnameVerifier();
+        try {
+            if (overrides != null && systemTrust != null) {
+                factory = socketFactory(overrides);
+                verifier = new ServerHostnameVerifier(systemVerifier, overrides);
+            }
+        } catch (Exception error) {
+            return false;
+        }
+        try (SSLSocket socket = (SSLSocket) factory.createSocket(host, port)) {
+            socket.setSoTimeout(PROBE_TIMEOUT_MS);
+            socket.startHandshake();
+            return verifier.verify(host, socket.getSession());
+        } catch (Exception error) {
+            return false;
+        }
+    }
+
+    private static String key(String host, int port) {
+        String clean = host.startsWith("[") && host.endsWith("]") ? host.substring(1, host.length() - 1) : host;
+        return clean.toLowerCase(Locale.ROOT) + ":" + port;
+    }
+
+    private static ServerTrust trustFor(Map<String, ServerTrust> overrides, String host, int port) {
+        if (host == null) return null;
+        return (overrides != null ? overrides : servers).get(key(host, port));
+    }
+
+    /** SHA-256 of the DER certificate as colon-separated hex, the same as `openssl x509 -fingerprint -sha256`. */
+    static String fingerprint(Certificate certificate) throws Exception {
+        byte[] digest = MessageDigest.getInstance("SHA-256").digest(certificate.getEncoded());
+        StringBuilder text = new StringBuilder();
+        for (byte value : digest) {
+            if (text.length() > 0) text.append(':');
+            text.append(String.format(Locale.ROOT, "%02X", value));
+        }
+        return text.toString();
+    }
+
+    private static List<X509Certificate> parseCertificates(String pem) throws CertificateException {
+        CertificateFactory factory = CertificateFactory.getInstance("X.509");
+        List<X509Certificate> certificates = new ArrayList<>();
+        for (Certificate certificate : factory.generateCertificates(new ByteArrayInputStream(pem.getBytes(StandardCharsets.US_ASCII)))) {
+            certificates.add((X509Certificate) certificate);
+        }
+        return certificates;
+    }
+
+    /** Imported certificates become the only trust anchors, so a self-signed leaf works as its own CA. */
+    private static X509TrustManager certificateTrustManager(List<X509Certificate> certificates) throws Exception {
+        KeyStore store = KeyStore.getInstance(KeyStore.getDefaultType());
+        store.load(null, null);
+        for (int index = 0; index < certificates.size(); index++) store.setCertificateEntry("server-" + index, certificates.get(index));
+        TrustManagerFactory factory = TrustManagerFactory.getInstance(TrustManagerFactory.getDefaultAlgorithm());
+        factory.init(store);
+        return firstX509(factory.getTrustManagers());
+    }
+
+    private static X509TrustManager firstX509(TrustManager[] managers) {
+        for (TrustManager manager : managers) {
+            if (manager instanceof X509TrustManager) return (X509TrustManager) manager;
+        }
+        throw new IllegalStateException("No X509TrustManager available");
+    }
+
+    private static String message(Exception error) {
+        return error.getMessage() == null ? error.getClass().getSimpleName() : error.getMessage();
+    }
+
+    /**
+     * Looks up the server by the host and port of the connection being verified. Pins apply to the leaf certificate
+     * only: nothing ties the rest of a presented chain to it, so a private CA has to be imported as a certificate instead.
+     */
+    private static final class ServerTrustManager extends X509ExtendedTrustManager {
+        private final X509TrustManager system;
+        private final Map<String, ServerTrust> overrides;
+
+        ServerTrustManager(X509TrustManager system, Map<String, ServerTrust> overrides) {
+            this.system = system;
+            this.overrides = overrides;
+        }
+
+        /** Returns false when the server has no trust settings of its own and the system store decides. */
+        private boolean checkConfigured(X509Certificate[] chain, String authType, String host, int port) throws CertificateException {
+            ServerTrust trust = trustFor(overrides, host, port);
+            if (trust == null) return false;
+            if (chain == null || chain.length == 0) throw new CertificateException("The server sent no certificate");
+            try {
+                if (trust.pins.contains(fingerprint(chain[0]))) return true;
+            } catch (Exception error) {
+                throw new CertificateException(error);
+            }
+            if (trust.certificates != null) {
+                trust.certificates.checkServerTrusted(chain, authType);
+                return true;
+            }
+            throw new CertificateException("The certificate of " + host + ":" + port + " does not match a pinned fingerprint");
+        }
+
+        @Override
+        public void checkServerTrusted(X509Certificate[] chain, String authType, Socket socket) throws CertificateException {
+            SSLSession session = socket instanceof SSLSocket ? ((SSLSocket) socket).getHandshakeSession() : null;
+            String host = session == null ? null : session.getPeerHost();
+            if (host == null) host = peerHost(socket);
+            if (checkConfigured(chain, authType, host, socket.getPort())) return;
+            // The connection-aware system check keeps Android's per-host network security rules.
+            if (system instanceof X509ExtendedTrustManager) {
+                ((X509ExtendedTrustManager) system).checkServerTrusted(chain, authType, socket);
+            } else {
+                system.checkServerTrusted(chain, authType);
+            }
+        }
+
+        /**
+         * Without a handshake session the host comes from the socket: the name it was opened with when there is one,
+         * otherwise the address, which is how a server reached by IP is saved anyway.
+         */
+        private static String peerHost(Socket socket) {
+            InetAddress address = socket.getInetAddress();
+            if (address == null) return null;
+            String name = address.toString();
+            return name.startsWith("/") ? address.getHostAddress() : name.substring(0, name.indexOf('/'));
+        }
+
+        @Override
+        public void checkServerTrusted(X509Certificate[] chain, String authType, SSLEngine engine) throws CertificateException {
+            if (checkConfigured(chain, authType, engine.getPeerHost(), engine.getPeerPort())) return;
+            if (system instanceof X509ExtendedTrustManager) {
+                ((X509ExtendedTrustManager) system).checkServerTrusted(chain, authType, engine);
+            } else {
+                system.checkServerTrusted(chain, authType);
+            }
+        }
+
+        @Override
+        public void checkServerTrusted(X509Certificate[] chain, String authType) throws CertificateException {
+            system.checkServerTrusted(chain, authType);
+        }
+
+        @Override
+        public void checkClientTrusted(X509Certificate[] chain, String authType, Socket socket) throws CertificateException {
+            system.checkClientTrusted(chain, authType);
+        }
+
+        @Override
+        public void checkClientTrusted(X509Certificate[] chain, String authType, SSLEngine engine) throws CertificateException {
+            system.checkClientTrusted(chain, authType);
+        }
+
+        @Override
+        public void checkClientTrusted(X509Certificate[] chain, String authType) throws CertificateException {
+            system.checkClientTrusted(chain, authType);
+        }
+
+        @Override
+        public X509Certificate[] getAcceptedIssuers() {
+            return system.getAcceptedIssuers();
+        }
+    }
+
+    /**
+     * A pinned or imported certificate identifies the server by itself, so the host name check is skipped for it;
+     * a certificate merely issued by an imported CA still has to name the host.
+     */
+    private static final class ServerHostnameVerifier implements HostnameVerifier {
+        private final HostnameVerifier system;
+        private final Map<String, ServerTrust> overrides;
+
+        ServerHostnameVerifier(HostnameVerifier system, Map<String, ServerTrust> overrides) {
+            this.system = system;
+            this.overrides = overrides;
+        }
+
+        @Override
+        public boolean verify(String host, SSLSession session) {
+            ServerTrust trust = trustFor(overrides, host, session.getPeerPort());
+            if (trust != null) {
+                try {
+                    String leaf = fingerprint(session.getPeerCertificates()[0]);
+                    if (trust.pins.contains(leaf) || trust.certificateFingerprints.contains(leaf)) return true;
+                } catch (Exception error) {
+                    return false;
+                }
+            }
+            return system.verify(host, session);
+        }
+    }
+
+    /** Only used by `inspect` to read a certificate the user has not decided on yet; never installed. */
+    private static final class AcceptAllTrustManager implements X509TrustManager {
+        @Override
+        public void checkClientTrusted(X509Certificate[] chain, String authType) {
+        }
+
+        @Override
+        public void checkServerTrusted(X509Certificate[] chain, String authType) {
+        }
+
+        @Override
+        public X509Certificate[] getAcceptedIssuers() {
+            return new X509Certificate[0];
+        }
+    }
+}
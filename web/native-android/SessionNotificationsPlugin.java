@@ -0,0 +1,139 @@
+package ai.opencode.remote.web;
+
+import android.Manifest;
+import android.app.NotificationChannel;
+import android.app.NotificationManager;
+import android.app.PendingIntent;
+import android.content.Context;
+import android.content.Intent;
+import android.os.Build;
+
+import androidx.core.app.NotificationCompat;
+import androidx.core.app.NotificationManagerCompat;
+
+import com.getcapacitor.JSObject;
+import com.getcapacitor.PermissionState;
+import com.getcapacitor.Plugin;
+import com.getcapacitor.PluginCall;
+import com.getcapacitor.PluginMethod;
+import com.getcapacitor.annotation.CapacitorPlugin;
+import com.getcapacitor.annotation.Permission;
+import com.getcapacitor.annotation.PermissionCallback;
+
+@CapacitorPlugin(
+    name = "SessionNotifications",
+    permissions = @Permission(strings = { Manifest.permission.POST_NOTIFICATIONS }, alias = SessionNotificationsPlugin.PERMISSION)
+)
+public class SessionNotificationsPlugin extends Plugin {
+    static final String PERMISSION = "notifications";
+    private static final String CHANNEL_ID = "sessions";
+    private static final String EXTRA_SESSION = "opencode.sessionID";
+    private static final String EXTRA_DIRECTORY = "opencode.directory";
+    private static final String EXTRA_PROFILE = "opencode.profileID";
+
+    @Override
+    public void load() {
+        createChannel();
+        // Cold start from a notification tap: the launch intent already carries the target session.
+        publishOpen(getActivity().getIntent());
+    }
+
+    @Override
+    protected void handleOnNewIntent(Intent intent) {
+        super.handleOnNewIntent(intent);
+        publishOpen(intent);
+    }
+
+    @PluginMethod
+    public void requestPermission(PluginCall call) {
+        // Before Android 13 posting notifications needs no runtime permission.
+        if (Build.VERSION.SDK_INT < Build.VERSION_CODES.TIRAMISU || getPermissionState(PERMISSION) == PermissionState.GRANTED) {
+            resolveGranted(call, true);
+            return;
+        }
+        requestPermissionForAlias(PERMISSION, call, "permissionCallback");
+    }
+
+    @PermissionCallback
+    private void permissionCallback(PluginCall call) {
+        resolveGranted(call, getPermissionState(PERMISSION) == PermissionState.GRANTED);
+    }
+
+    @PluginMethod
+    public void notify(PluginCall call) {
+        String key = call.getString("key");
+        String sessionID = call.getString("sessionID");
+        if (key == null || sessionID == null) {
+            call.reject("Missing notification key or session");
+            return;
+        }
+        Context context = getContext();
+        NotificationManagerCompat manager = NotificationManagerCompat.from(context);
+        if (!manager.areNotificationsEnabled()) {
+            call.resolve();
+            return;
+        }
+
+        Intent open = new Intent(context, MainActivity.class);
+        open.setFlags(Intent.FLAG_ACTIVITY_SINGLE_TOP | Intent.FLAG_ACTIVITY_CLEAR_TOP);
+        open.putExtra(EXTRA_SESSION, sessionID);
+        open.putExtra(EXTRA_DIRECTORY, call.getString("directory", ""));
+        open.putExtra(EXTRA_PROFILE, call.getString("profileID", ""));
+        PendingIntent tap = PendingIntent.getActivity(
+            context,
+            key.hashCode(),
+            open,
+            PendingIntent.FLAG_UPDATE_CURRENT | PendingIntent.FLAG_IMMUTABLE
+        );
+
+        NotificationCompat.Builder builder = new NotificationCompat.Builder(context, CHANNEL_ID)
+            .setSmallIcon(context.getApplicationInfo().icon)
+            .setContentTitle(call.getString("title", ""))
+            .setContentText(call.getString("body", ""))
+            .setStyle(new NotificationCompat.BigTextStyle().bigText(call.getString("body", "")))
+            .setPriority(NotificationCompat.PRIORITY_DEFAULT)
+            .setAutoCancel(true)
+            .setContentIntent(tap);
+        try {
+            // One notification per session: a newer state replaces the older one.
+            manager.notify(key, 0, builder.build());
+        } catch (SecurityException denied) {
+            // Permission revoked from system settings after it was granted.
+        }
+        call.resolve();
+    }
+
+    @PluginMethod
+    public void cancel(PluginCall call) {
+        String key = call.getString("key");
+        if (key != null) NotificationManagerCompat.from(getContext()).cancel(key, 0);
+        call.resolve();
+    }
+
+    private void resolveGranted(PluginCall call, boolean granted) {
+        JSObject result = new JSObject();
+        result.put("granted", granted);
+        call.resolve(result);
+    }
+
+    private void createChannel() {
+        if (Build.VERSION.SDK_INT < Build.VERSION_CODES.O) return;
+        NotificationChannel channel = new NotificationChannel(CHANNEL_ID, "Sessions", NotificationManager.IMPORTANCE_DEFAULT);
+        channel.setDescription("Session finished, retrying, or waiting for permission");
+        getContext().getSystemService(NotificationManager.class).createNotificationChannel(channel);
+    }
+
+    private void publishOpen(Intent intent) {
+        if (intent == null) return;
+        String sessionID = intent.getStringExtra(EXTRA_SESSION);
+        if (sessionID == null) return;
+        JSObject payload = new JSObject();
+        payload.put("sessionID", sessionID);
+        payload.put("directory", intent.getStringExtra(EXTRA_DIRECTORY));
+        payload.put("profileID", intent.getStringExtra(EXTRA_PROFILE));
+        // Consumed once so a later activity recreation does not reopen the same session.
+        intent.removeExtra(EXTRA_SESSION);
+        // Retained until the web app registers its listener after a cold start.
+        notifyListeners("open", payload, true);
+    }
+}
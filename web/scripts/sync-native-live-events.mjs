@@ -1,12 +1,31 @@
-import { cpSync, existsSync } from "node:fs"
+import { cpSync, existsSync, readFileSync, writeFileSync } from "node:fs"
 import { dirname, resolve } from "node:path"
 
 const root = resolve(import.meta.dirname, "..")
 const source = resolve(root, "native-android")
 const target = resolve(root, "android/app/src/main/java/ai/opencode/remote/web")
+const manifest = resolve(root, "android/app/src/main/AndroidManifest.xml")
+const permissions = [
+  "android.permission.POST_NOTIFICATIONS",
+  "android.permission.FOREGROUND_SERVICE",
+  "android.permission.FOREGROUND_SERVICE_DATA_SYNC",
+  "android.permission.USE_BIOMETRIC"
+]
+const service = `<service android:name=".LiveEventsService" android:exported="false" android:foregroundServiceType="dataSync" />`
 
 if (!existsSync(target)) throw new Error("Android project not found; run npx cap sync android first")
-for (const file of ["MainActivity.java", "LiveEventsPlugin.java"]) {
+for (const file of ["MainActivity.java", "LiveEventsPlugin.java", "LiveEventsService.java", "SessionNotificationsPlugin.java", "SecureCredentialsPlugin.java", "AppLockPlugin.java", "ServerTrustPlugin.java"]) {
   cpSync(resolve(source, file), resolve(target, file))
 }
-console.log("Synced native OpenCode live-events plugin")
+
+// The generated manifest is recreated by `cap add android`, so native permissions and the service are patched in on every sync.
+let manifestSource = readFileSync(manifest, "utf8")
+for (const permission of permissions) {
+  if (manifestSource.includes(`android:name="${permission}"`)) continue
+  manifestSource = manifestSource.replace("</manifest>", `    <uses-permission android:name="${permission}" />\n</manifest>`)
+}
+if (!manifestSource.includes('android:name=".LiveEventsService"')) {
+  manifestSource = manifestSource.replace("</application>", `    ${service}\n    </application>`)
+}
+writeFileSync(manifest, manifestSource)
+console.log("Synced native OpenCode plugins")
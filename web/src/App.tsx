@@ -1,16 +1,105 @@
-import { useEffect, useMemo, useRef, useState } from "react"
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
-import { api } from "./api"
+import { NetworkError, api } from "./api"
+import { AUTH_MODES, authConfigured, authMode, parseCustomHeaders } from "./auth"
 import {
   createFetchOpenCodeEventSubscription,
   createNativeOpenCodeEventSubscription,
-  eventType,
   isNativeEventTransport,
+  loadIdleTimeoutSeconds,
+  MAX_IDLE_TIMEOUT_SECONDS,
+  normalizeIdleTimeoutSeconds,
+  reportNativeBusySessions,
+  saveIdleTimeoutSeconds,
+  setNativeBackgroundStream,
   type EventStreamStatus
 } from "./opencode-events"
+import { createOpenCodeEventDispatcher, type OpenCodeEvent } from "./opencode-event-model"
+import { MessagePartCard, isVisiblePart, partSignature } from "./MessageParts"
+import { FileBrowser } from "./FileBrowser"
+import { Diagnostics } from "./Diagnostics"
+import { AppLockScreen } from "./AppLock"
+import { DiffViewer } from "./DiffViewer"
+import { MESSAGE_PAGE_SIZE, applyMessageEvent, mergeTail, prependOlderMessages } from "./message-store"
+import { attachmentPart, formatBytes, readAttachment } from "./attachments"
+import { applyPermissionEvent } from "./permissions"
+import { applySessionListChange, eventSessionID, messageActivityTime, sessionListChange, toSessionView } from "./session-list"
+import { byteLength, currentDataUsage, recordDataUsage, resetDataUsage } from "./data-usage"
+import { filesRevertedFrom, messagesBeforeRevert, revertedMessageCount } from "./revert"
+import { createOutboxItem, deliverableItems, loadOutbox, saveOutbox, type OutboxItem } from "./outbox"
+import {
+  NOTIFICATIONS_STORAGE_KEY,
+  cancelSessionNotification,
+  notificationsSupported,
+  onNotificationOpen,
+  permissionNotificationKey,
+  postSessionNotification,
+  requestNotificationPermission,
+  sessionKey,
+  sessionStatusAlerts,
+  type NotificationTarget,
+  type SessionAlertKind
+} from "./notifications"
+import {
+  certificateFileToPem,
+  certificatePins,
+  configureServerTrust,
+  customTrustSupported,
+  httpsEndpoint,
+  inspectCertificate,
+  normalizeFingerprint,
+  trustedServers,
+  type CertificateInfo,
+  type TrustedServer
+} from "./tls"
+import { clearCachedServer, loadCachedSessions, loadCachedTranscript, saveCachedSessions, saveCachedTranscript } from "./offline-cache"
+import {
+  WrongPassphraseError,
+  collectPasswords,
+  createVaultSession,
+  removeNativeSecrets,
+  saveNativeSecrets,
+  loadVault,
+  saveVault,
+  sealVault,
+  unlockVault,
+  vaultSupported,
+  withPasswords,
+  withSecrets,
+  withoutPasswords,
+  type CredentialState,
+  type VaultSession
+} from "./credentials"
+import {
+  APP_LOCK_TIMEOUTS,
+  appLockSupported,
+  clearPinAttempts,
+  hashPin,
+  isValidPin,
+  loadAppLockSettings,
+  lockDue,
+  saveAppLockSettings,
+  weakensAppLock,
+  type AppLockSettings
+} from "./app-lock"
 import { createTranslator, languageOptions, normalizeLanguage, type LanguageCode } from "./i18n"
-import type { AgentOption, CommandInfo, DiffFile, FileEntry, FileStatusEntry, MessageEnvelope, ModelOption, ModelSelection, PathInfo, ProjectDashboard, ServerConfig, Session, SessionStatus, SessionView, TodoItem } from "./types"
+import {
+  createProfile,
+  eventStreamTargets,
+  findProfile,
+  normalizeBasePath,
+  pinnedDirectories,
+  profileAddress,
+  profileLabel,
+  removeProfile,
+  saveProfileStore,
+  serverURL,
+  upsertProfile,
+  validPort,
+  type ProfileStore
+} from "./profiles"
+import type { AgentOption, AuthMode, CommandInfo, DiffFile, FileEntry, FileStatusEntry, MessageEnvelope, ModelOption, ModelSelection, PathInfo, PermissionReply, PermissionRequest, ProjectDashboard, PromptAttachment, ServerConfig, ServerProfile, Session, SessionStatus, SessionView, TodoItem } from "./types"
 import {
   SettingsIcon,
   FolderIcon,
@@ -26,22 +115,32 @@ import {
   LoadingIcon,
   RefreshIcon,
   PencilIcon,
-  CloseIcon
+  CloseIcon,
+  FileIcon,
+  PaperclipIcon,
+  CameraIcon,
+  UndoIcon
 } from "./Icons"
 
-const STORAGE_KEY = "opencode.remote.server"
 const LANGUAGE_STORAGE_KEY = "opencode.remote.language"
 const MODEL_STORAGE_KEY = "opencode.remote.model"
 const AGENT_STORAGE_KEY = "opencode.remote.agent"
 const THEME_STORAGE_KEY = "opencode.remote.theme"
 const NEW_SESSION_DIRECTORY_STORAGE_KEY = "opencode.remote.newSessionDirectory"
-
-const defaultConfig: ServerConfig = {
-  host: "",
-  port: 4096,
-  username: "opencode",
-  password: ""
-}
+const ALL_SERVERS_STORAGE_KEY = "opencode.remote.allServers"
+const BACKGROUND_STREAM_STORAGE_KEY = "opencode.remote.backgroundStream"
+const POLL_INTERVAL_MS = 3500
+const SESSION_LIST_EVENTS = ["session.created", "session.updated", "session.deleted", "session.status", "session.idle"] as const
+const SELECTED_SESSION_EVENTS = ["session.error", "session.diff", "session.compacted", "todo.updated"] as const
+const MESSAGE_EVENTS = ["message.updated", "message.removed", "message.part.updated", "message.part.delta", "message.part.removed"] as const
+const PERMISSION_EVENTS = ["permission.asked", "permission.updated", "permission.replied"] as const
+const ALL_SERVERS_SCOPE = "all"
+/** Hold time before a pressed message offers "revert from here". */
+const LONG_PRESS_MS = 550
+/** Distance from the top of the transcript at which scrolling back fetches the previous page. */
+const SCROLL_BACK_THRESHOLD = 240
+
+const unconfiguredProfile: ServerProfile = createProfile({ id: "unconfigured" })
 
 function formatTime(epoch: number): string {
   if (!epoch) return "-"
@@ -50,8 +149,7 @@ function formatTime(epoch: number): string {
 
 function extractText(msg: MessageEnvelope): string {
   return msg.parts
-    .filter((part) => part.type === "text" && part.text)
-    .map((part) => part.text)
+    .flatMap((part) => (part.type === "text" && part.text ? [part.text] : []))
     .join("\n")
     .trim()
 }
@@ -85,13 +183,23 @@ function configKey(config: ServerConfig): string {
   return JSON.stringify({
     host: config.host.trim(),
     port: config.port,
+    basePath: normalizeBasePath(config.basePath),
     username: config.username.trim(),
-    password: config.password
+    password: config.password,
+    authMode: authMode(config),
+    token: config.token?.trim() ?? "",
+    customHeaders: config.customHeaders ?? "",
+    certificatePins: certificatePins(config),
+    certificates: config.certificates?.trim() ?? ""
   })
 }
 
+function profileKey(profile: ServerProfile | null): string {
+  return profile ? JSON.stringify([profile.name.trim(), configKey(profile), pinnedDirectories(profile)]) : ""
+}
+
 function canTestConfig(config: ServerConfig): boolean {
-  return Boolean(config.host.trim() && config.port > 0 && config.username.trim())
+  return Boolean(config.host.trim() && validPort(config.port) && authConfigured(config))
 }
 
 function modelKey(model: ModelSelection): string {
@@ -126,24 +234,6 @@ function isProjectDirectory(pathInfo: PathInfo): boolean {
   return pathInfo.worktree !== "/"
 }
 
-function messageActivityTime(message: MessageEnvelope): number {
-  return Math.max(message.info.time.created, message.info.time.completed ?? 0)
-}
-
-function toSessionView(session: Session, status?: SessionStatus, activityTime = session.time.updated): SessionView {
-  return {
-    id: session.id,
-    title: session.title,
-    directory: session.directory,
-    updated: activityTime,
-    status: status?.type ?? "idle",
-    files: session.summary?.files ?? 0,
-    additions: session.summary?.additions ?? 0,
-    deletions: session.summary?.deletions ?? 0,
-    model: session.model ? { providerID: session.model.providerID, modelID: session.model.id, variant: session.model.variant } : undefined
-  }
-}
-
 function formatLimit(value?: number): string {
   if (!value) return "-"
   if (value >= 1_000_000) return `${Math.round(value / 1_000_000)}M`
@@ -151,7 +241,7 @@ function formatLimit(value?: number): string {
   return String(value)
 }
 
-function createOptimisticUserMessage(sessionID: string, text: string): MessageEnvelope {
+function createOptimisticUserMessage(sessionID: string, text: string, attachments: PromptAttachment[] = []): MessageEnvelope {
   const now = Date.now()
   return {
     info: {
@@ -165,7 +255,8 @@ function createOptimisticUserMessage(sessionID: string, text: string): MessageEn
         id: `optimistic-part-${now}`,
         type: "text",
         text
-      }
+      },
+      ...attachments.map((attachment) => ({ ...attachmentPart(attachment), id: `optimistic-${attachment.id}` }))
     ]
   }
 }
@@ -198,19 +289,36 @@ function hasMatchingUserMessage(messages: MessageEnvelope[], optimistic: Message
   ))
 }
 
-function App() {
+type AppProps = {
+  /** Profiles with their passwords filled in from the credential store, as prepared before the first render. */
+  credentials: { store: ProfileStore; state: CredentialState }
+}
+
+function App({ credentials }: AppProps) {
   type NoticeType = "info" | "success" | "error"
   type ThemePreference = "system" | "light" | "dark"
 
-  const [config, setConfig] = useState<ServerConfig>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY)
-    if (!saved) return defaultConfig
-    try {
-      return { ...defaultConfig, ...JSON.parse(saved) }
-    } catch {
-      return defaultConfig
-    }
-  })
+  const [profileStore, setProfileStore] = useState<ProfileStore>(credentials.store)
+  const [credentialState, setCredentialState] = useState<CredentialState>(credentials.state)
+  const vaultSessionRef = useRef<VaultSession | null>(null)
+  const vaultWriteRef = useRef<Promise<void>>(Promise.resolve())
+  const [passphrase, setPassphrase] = useState("")
+  const [passphraseConfirm, setPassphraseConfirm] = useState("")
+  const [passphraseError, setPassphraseError] = useState<string | null>(null)
+  const [unlockingVault, setUnlockingVault] = useState(false)
+  const [vaultPromptDismissed, setVaultPromptDismissed] = useState(false)
+  const [appLock, setAppLock] = useState<AppLockSettings>(() => loadAppLockSettings())
+  const [locked, setLocked] = useState(appLock.enabled)
+  const lastActiveRef = useRef(Date.now())
+  const [reauthRequest, setReauthRequest] = useState<{ title: string; resolve: (confirmed: boolean) => void } | null>(null)
+  const [newPin, setNewPin] = useState("")
+  const [newPinConfirm, setNewPinConfirm] = useState("")
+  const [pinError, setPinError] = useState<string | null>(null)
+  const [activeProfileID, setActiveProfileID] = useState<string | null>(profileStore.defaultID)
+  const config = useMemo(
+    () => findProfile(profileStore, activeProfileID) ?? unconfiguredProfile,
+    [profileStore, activeProfileID]
+  )
   const [language, setLanguage] = useState<LanguageCode>(() => {
     return normalizeLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY) || navigator.language)
   })
@@ -219,8 +327,24 @@ function App() {
     return saved === "light" || saved === "dark" || saved === "system" ? saved : "system"
   })
   const t = useMemo(() => createTranslator(language), [language])
-
-  const [draftConfig, setDraftConfig] = useState<ServerConfig>(config)
+  const [notificationsEnabled, setNotificationsEnabled] = useState(() => localStorage.getItem(NOTIFICATIONS_STORAGE_KEY) !== "false")
+  const [backgroundStreamEnabled, setBackgroundStreamEnabled] = useState(() => localStorage.getItem(BACKGROUND_STREAM_STORAGE_KEY) === "true")
+  const [idleTimeoutSeconds, setIdleTimeoutSeconds] = useState(() => loadIdleTimeoutSeconds())
+
+  const [showAllServers, setShowAllServers] = useState(() => localStorage.getItem(ALL_SERVERS_STORAGE_KEY) === "true")
+  const sessionServers = useMemo(() => {
+    if (showAllServers && profileStore.profiles.length > 1) return profileStore.profiles
+    return config.host && validPort(config.port) ? [config] : []
+  }, [showAllServers, profileStore.profiles, config])
+  const isAggregatedView = sessionServers.length > 1
+  const sessionScope = isAggregatedView ? ALL_SERVERS_SCOPE : config.id
+  const sessionServersKey = sessionServers.map((server) => `${server.id}:${configKey(server)}:${pinnedDirectories(server).join(",")}`).join("|")
+  const [draftConfig, setDraftConfig] = useState<ServerProfile>(() => (config === unconfiguredProfile ? createProfile() : config))
+  const [profileToDelete, setProfileToDelete] = useState<ServerProfile | null>(null)
+  const [certificatePrompt, setCertificatePrompt] = useState<{ profileID: string; source: "draft" | "saved"; certificate: CertificateInfo } | null>(null)
+  /** Servers whose certificate was already looked at for their current settings, and fingerprints the user refused. */
+  const inspectedCertificatesRef = useRef(new Set<string>())
+  const declinedCertificatesRef = useRef(new Set<string>())
   const [connectedVersion, setConnectedVersion] = useState<string>("")
   const [commands, setCommands] = useState<CommandInfo[]>([])
   const [commandFilter, setCommandFilter] = useState<"all" | "skill">("all")
@@ -234,8 +358,8 @@ function App() {
   const [helpPage, setHelpPage] = useState<"overview" | "server" | "network" | "troubleshooting" | "commands">(
     "overview"
   )
-  const [view, setView] = useState<"settings" | "sessions" | "detail" | "help">(() => {
-    return config.host && config.port > 0 ? "sessions" : "settings"
+  const [view, setView] = useState<"settings" | "sessions" | "detail" | "files" | "help" | "diagnostics">(() => {
+    return config.host && validPort(config.port) ? "sessions" : "settings"
   })
 
   const [sessions, setSessions] = useState<SessionView[]>([])
@@ -250,6 +374,8 @@ function App() {
   const [optimisticUserMessages, setOptimisticUserMessages] = useState<MessageEnvelope[]>([])
   const [todos, setTodos] = useState<TodoItem[]>([])
   const [diffFiles, setDiffFiles] = useState<DiffFile[]>([])
+  const [pendingPermissions, setPendingPermissions] = useState<PermissionRequest[]>([])
+  const [answeringPermissionID, setAnsweringPermissionID] = useState<string | null>(null)
 
   const [projectDashboard, setProjectDashboard] = useState<ProjectDashboard | null>(null)
 
@@ -257,6 +383,7 @@ function App() {
   const [todosExpanded, setTodosExpanded] = useState(false)
   const [query, setQuery] = useState("")
   const [composer, setComposer] = useState("")
+  const [attachments, setAttachments] = useState<PromptAttachment[]>([])
   const [busySending, setBusySending] = useState(false)
   const [loadingSessionID, setLoadingSessionID] = useState<string | null>(null)
   const [testingConnection, setTestingConnection] = useState(false)
@@ -266,21 +393,48 @@ function App() {
   const [settingsNotice, setSettingsNotice] = useState<{ type: NoticeType; text: string } | null>(null)
   const [runtimeError, setRuntimeError] = useState<string | null>(null)
   const [connectionState, setConnectionState] = useState<"idle" | "connecting" | "connected" | "reconnecting" | "offline">(
-    config.host && config.port > 0 ? "connecting" : "idle"
+    config.host && validPort(config.port) ? "connecting" : "idle"
   )
   const [connectionMessage, setConnectionMessage] = useState<string>("")
-  const [eventStreamState, setEventStreamState] = useState<"idle" | "connecting" | "live" | "reconnecting" | "fallback">("idle")
+  const [unreachableServerIDs, setUnreachableServerIDs] = useState<string[]>([])
+  const [eventStreamState, setEventStreamState] = useState<"idle" | "connecting" | "live" | "reconnecting" | "stale" | "fallback">("idle")
   const [liveEventCount, setLiveEventCount] = useState(0)
+  // Only a stream that gave up polls; connecting, reconnecting and stale streams recover by themselves without the data cost.
+  const pollingFallback = eventStreamState === "fallback"
+  const [dataUsage, setDataUsage] = useState(() => currentDataUsage())
   const [liveEventError, setLiveEventError] = useState<string | null>(null)
   const [lastTestedConfigKey, setLastTestedConfigKey] = useState<string | null>(null)
   const [sessionToDelete, setSessionToDelete] = useState<SessionView | null>(null)
+  const [revertMessageID, setRevertMessageID] = useState<string | null>(null)
+  const [reverting, setReverting] = useState(false)
+  const longPressTimerRef = useRef<number | null>(null)
+  const [hasOlderMessages, setHasOlderMessages] = useState(false)
+  // Save time of the offline copy on screen; null once the server has confirmed the data.
+  const [staleSince, setStaleSince] = useState<number | null>(null)
+  const staleSinceRef = useRef<number | null>(null)
+  const [outbox, setOutbox] = useState<OutboxItem[]>(() => loadOutbox())
+  const outboxRef = useRef(outbox)
+  const flushingOutboxRef = useRef(new Set<string>())
+  // Last known status per session and the ids already notified, so only real transitions reach the tray.
+  const notifiedStatusesRef = useRef(new Map<string, string>())
+  const erroredSessionsRef = useRef(new Set<string>())
+  const notifiedPermissionIDsRef = useRef(new Set<string>())
+  const [notificationTarget, setNotificationTarget] = useState<NotificationTarget | null>(null)
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false)
+  const loadingOlderMessagesRef = useRef(false)
+  const messagesStartRef = useRef<HTMLDivElement | null>(null)
+  // Position of the first visible message before older ones are prepended, restored after render.
+  const scrollAnchorRef = useRef<{ id: string; top: number } | null>(null)
+  const skipAutoScrollRef = useRef(false)
   const [renamingSessionID, setRenamingSessionID] = useState<string | null>(null)
   const [renameValue, setRenameValue] = useState("")
   const renameInputRef = useRef<HTMLInputElement | null>(null)
-  const [activeDetailSheet, setActiveDetailSheet] = useState<null | "ai" | "details">(null)
+  const [activeDetailSheet, setActiveDetailSheet] = useState<null | "ai" | "details" | "changes">(null)
   const messagesRef = useRef<HTMLDivElement | null>(null)
   const messagesEndRef = useRef<HTMLDivElement | null>(null)
   const composerRef = useRef<HTMLDivElement | null>(null)
+  const attachmentInputRef = useRef<HTMLInputElement | null>(null)
+  const cameraInputRef = useRef<HTMLInputElement | null>(null)
   const completionAudioRef = useRef<HTMLAudioElement | null>(null)
   const completionShouldPlayRef = useRef(false)
   const wasAwaitingAssistantReplyRef = useRef(false)
@@ -291,6 +445,10 @@ function App() {
   const initialSessionLoadRef = useRef(true)
   const latestMessageTimesRef = useRef(new Map<string, { sessionUpdated: number; activityTime: number }>())
   const selectedSessionRef = useRef<SessionView | null>(null)
+  const transcriptRef = useRef<MessageEnvelope[]>([])
+  const activeProfileRef = useRef(config.id)
+  const sessionScopeRef = useRef(sessionScope)
+  const pendingOpenSessionRef = useRef<{ id: string; directory: string } | null>(null)
 
   const selectedSession = useMemo(
     () => sessions.find((session) => session.id === selectedID) ?? null,
@@ -317,6 +475,8 @@ function App() {
     }
     return modelOptions.find((option) => option.isDefault) ?? modelOptions[0] ?? null
   }, [modelOptions, selectedModel, selectedSession?.model])
+  // Until providers load the capability is unknown; let the server reject what the model cannot take.
+  const attachmentsSupported = activeModelOption ? activeModelOption.attachments : true
   const activeModel = activeModelOption ? { providerID: activeModelOption.providerID, modelID: activeModelOption.modelID, variant: activeModelOption.variant } : selectedModel ?? undefined
   const primaryAgentOptions = useMemo(() => agentOptions.filter((agent) => agent.mode === "primary" || agent.mode === "all"), [agentOptions])
   const activeAgent = useMemo(() => {
@@ -332,6 +492,20 @@ function App() {
     return modelOptions.filter((option) => modelSearchText(option).includes(text))
   }, [modelOptions, modelQuery])
 
+  const permissionSessionKeys = useMemo(
+    () => new Set(pendingPermissions.map((permission) => `${permission.profileID ?? ""}:${permission.sessionID}`)),
+    [pendingPermissions]
+  )
+  const selectedPermissions = useMemo(
+    () => pendingPermissions.filter((permission) => permission.profileID === config.id && permission.sessionID === selectedID),
+    [pendingPermissions, config.id, selectedID]
+  )
+
+  const selectedOutbox = useMemo(
+    () => outbox.filter((item) => item.sessionID === selectedID && item.profileID === (selectedSession?.profileID ?? config.id)),
+    [outbox, selectedID, selectedSession?.profileID, config.id]
+  )
+
   const filteredSessions = useMemo(() => {
     const text = query.trim().toLowerCase()
     if (!text) return sessions
@@ -345,27 +519,36 @@ function App() {
   }, [commands, commandFilter])
   const selectedNewSessionDirectory = normalizeDirectory(newSessionDirectory)
 
+  const selectedRevert = selectedSession?.revert
   const renderedMessages = useMemo(() => {
-    return [...messages, ...optimisticUserMessages]
-      .map((message) => ({ ...message, text: extractText(message) }))
-      .filter((message) => message.text)
-  }, [messages, optimisticUserMessages])
+    return [...messagesBeforeRevert(messages, selectedRevert), ...optimisticUserMessages]
+      .map((message) => {
+        const visibleParts = message.parts.filter(isVisiblePart)
+        return { ...message, text: extractText(message), visibleParts, partSignature: visibleParts.map(partSignature).join(",") }
+      })
+      .filter((message) => message.visibleParts.length > 0)
+  }, [messages, optimisticUserMessages, selectedRevert])
+  const revertedCount = revertedMessageCount(messages, selectedRevert)
+  const filesToRevert = useMemo(
+    () => (revertMessageID ? filesRevertedFrom(messages, revertMessageID) : []),
+    [messages, revertMessageID]
+  )
 
   const messageScrollSignature = useMemo(() => {
-    return renderedMessages.map((message) => `${message.info.id}:${message.text.length}`).join("|")
+    return renderedMessages.map((message) => `${message.info.id}:${message.text.length}:${message.partSignature}`).join("|")
   }, [renderedMessages])
 
   const assistantResponseSignature = useMemo(() => {
     return renderedMessages
       .filter((message) => message.info.role !== "user")
-      .map((message) => `${message.info.id}:${message.text.length}`)
+      .map((message) => `${message.info.id}:${message.text.length}:${message.partSignature}`)
       .join("|")
   }, [renderedMessages])
 
-  const hasConfiguredServer = Boolean(config.host && config.port > 0)
+  const hasConfiguredServer = Boolean(config.host && validPort(config.port))
   const draftConfigKey = configKey(draftConfig)
-  const savedConfigKey = configKey(config)
-  const hasDraftChanges = draftConfigKey !== savedConfigKey
+  const savedDraftProfile = findProfile(profileStore, draftConfig.id)
+  const hasDraftChanges = profileKey(draftConfig) !== profileKey(savedDraftProfile)
   const canTestDraft = canTestConfig(draftConfig)
   const testAlreadyPassedForDraft = lastTestedConfigKey === draftConfigKey
   const connectionStatusText = connectionMessage || (connectionState === "connecting"
@@ -383,9 +566,11 @@ function App() {
       ? t('events.connecting')
       : eventStreamState === "reconnecting"
         ? t('events.reconnecting')
-        : eventStreamState === "fallback"
-          ? t('events.fallback', { error: liveEventError ?? t('events.unknownError') })
-          : ""
+        : eventStreamState === "stale"
+          ? t('events.stale')
+          : eventStreamState === "fallback"
+            ? t('events.fallback', { error: liveEventError ?? t('events.unknownError') })
+            : ""
   const isSessionRunning = Boolean(selectedSession && ["busy", "retry"].includes(selectedSession.status))
   const isWaitingForOpenCodeReply = awaitingAssistantReply || busySending || isSessionRunning
   const isWorking = isWaitingForOpenCodeReply
@@ -398,9 +583,42 @@ function App() {
   const totalDiffDeletions = diffFiles.reduce((sum, file) => sum + file.deletions, 0)
   const showModelChip = modelOptions.length > 1 || Boolean(activeModelOption) || primaryAgentOptions.length > 0
 
-  async function openSession(sessionID: string, directory: string) {
+  function sessionServer(session: SessionView | null | undefined): ServerProfile {
+    return findProfile(profileStore, session?.profileID ?? null) ?? config
+  }
+
+  /** Posts a system notification, unless the app is in front with that session open. */
+  function notifySession(kind: SessionAlertKind, session: SessionView, permission?: PermissionRequest) {
+    if (!notificationsEnabled || !notificationsSupported()) return
+    const current = selectedSessionRef.current
+    if (document.visibilityState === "visible" && view === "detail" && current?.id === session.id && current.profileID === session.profileID) return
+    const body = {
+      completed: t('notifications.completed'),
+      retry: t('notifications.retry'),
+      error: t('notifications.error'),
+      permission: t('notifications.permission', { permission: permission?.title || permission?.permission || "" })
+    }[kind]
+    postSessionNotification(
+      permission ? permissionNotificationKey(permission) : `session:${sessionKey(session)}`,
+      session.title || session.id,
+      body,
+      { sessionID: session.id, directory: session.directory, profileID: session.profileID }
+    )
+  }
+
+  async function openSession(sessionID: string, directory: string, profileID?: string) {
+    if (profileID && profileID !== config.id && findProfile(profileStore, profileID)) {
+      // Detail requests follow the active profile, so switch first and reopen once it is applied.
+      pendingOpenSessionRef.current = { id: sessionID, directory }
+      setCommands([])
+      setAgentOptions([])
+      setModelOptions([])
+      setActiveProfileID(profileID)
+      return
+    }
     setSelectedID(sessionID)
     setMessages([])
+    setHasOlderMessages(false)
     setOptimisticUserMessages([])
     setTodos([])
     setDiffFiles([])
@@ -410,19 +628,205 @@ function App() {
     setRuntimeError(null)
     setView("detail")
     setLoadingSessionID(sessionID)
+    const cached = showCachedTranscript(config.id, sessionID)
     try {
       await loadSelected(sessionID, directory)
       await Promise.all([loadAgents(), loadModels()])
     } catch (err) {
-      setRuntimeError((err as Error).message)
+      const savedAt = await cached
+      if (savedAt !== null) setStaleSince((current) => current ?? savedAt)
+      else setRuntimeError((err as Error).message)
     }
     setLoadingSessionID((activeID) => (activeID === sessionID ? null : activeID))
   }
 
+  /** Shows the cached transcript until the server answers; returns its save time, or null without a copy. */
+  async function showCachedTranscript(profileID: string, sessionID: string): Promise<number | null> {
+    const cached = await loadCachedTranscript(profileID, sessionID)
+    if (!cached || selectedSessionRef.current?.id !== sessionID || transcriptRef.current.length > 0) return null
+    transcriptRef.current = cached.messages
+    setMessages(cached.messages)
+    setTodos(cached.todos)
+    setDiffFiles(cached.diffFiles)
+    setHasOlderMessages(cached.messages.length >= MESSAGE_PAGE_SIZE)
+    return cached.savedAt
+  }
+
+  function updateProfileStore(next: ProfileStore) {
+    setProfileStore(next)
+    persistProfileStore(next, credentialState)
+  }
+
+  /** Profiles go to localStorage; their passwords only where the active credential store keeps them. */
+  function persistProfileStore(next: ProfileStore, state: CredentialState) {
+    if (state === "plain") {
+      saveProfileStore(next)
+      return
+    }
+    saveProfileStore(withoutPasswords(next))
+    if (state === "native") {
+      for (const profile of next.profiles) saveNativeSecrets(profile).catch(() => undefined)
+    }
+    const session = vaultSessionRef.current
+    if (state === "unlocked" && session) queueVaultWrite(async () => saveVault(await sealVault(session, collectPasswords(next))))
+  }
+
+  /** Vault writes run one after another, so a slow seal of an older store cannot land after a newer one. */
+  function queueVaultWrite(write: () => void | Promise<void>) {
+    vaultWriteRef.current = vaultWriteRef.current.then(write).catch(() => undefined)
+  }
+
+  async function protectPasswords() {
+    if (passphrase.length < 8) {
+      setPassphraseError(t('credentials.passphraseTooShort'))
+      return
+    }
+    if (passphrase !== passphraseConfirm) {
+      setPassphraseError(t('credentials.passphraseMismatch'))
+      return
+    }
+    setUnlockingVault(true)
+    try {
+      vaultSessionRef.current = await createVaultSession(passphrase)
+      persistProfileStore(profileStore, "unlocked")
+      setCredentialState("unlocked")
+      setPassphrase("")
+      setPassphraseConfirm("")
+      setPassphraseError(null)
+    } catch (err) {
+      setPassphraseError((err as Error).message)
+    } finally {
+      setUnlockingVault(false)
+    }
+  }
+
+  async function unlockPasswords() {
+    const vault = loadVault()
+    if (!vault) {
+      setCredentialState("plain")
+      return
+    }
+    setUnlockingVault(true)
+    try {
+      const unlocked = await unlockVault(vault, passphrase)
+      vaultSessionRef.current = unlocked.session
+      const next = withPasswords(profileStore, unlocked.secrets)
+      const kept = collectPasswords(next)
+      // Profiles deleted while the vault was locked still have secrets in it; they are dropped now.
+      if (Object.keys(kept).length < Object.keys(unlocked.secrets).length) {
+        queueVaultWrite(async () => saveVault(await sealVault(unlocked.session, kept)))
+      }
+      setProfileStore(next)
+      setDraftConfig((draft) => (draft.password || draft.token || draft.customHeaders ? draft : withSecrets(draft, unlocked.secrets)))
+      setCredentialState("unlocked")
+      setPassphrase("")
+      setPassphraseError(null)
+    } catch (err) {
+      setPassphraseError(err instanceof WrongPassphraseError ? t('credentials.wrongPassphrase') : (err as Error).message)
+    } finally {
+      setUnlockingVault(false)
+    }
+  }
+
+  /** A forgotten passphrase cannot be recovered; the vault is dropped and passwords have to be entered again. */
+  function resetPasswordVault() {
+    queueVaultWrite(() => saveVault(null))
+    vaultSessionRef.current = null
+    setCredentialState("plain")
+    setPassphrase("")
+    setPassphraseError(null)
+  }
+
+  function updateAppLock(next: AppLockSettings) {
+    setAppLock(next)
+    saveAppLockSettings(next)
+  }
+
+  /** Resolves true straight away when the lock is off; otherwise the PIN or biometrics decide. */
+  function reauthenticate(title: string): Promise<boolean> {
+    if (!appLock.enabled || !appLock.pin) return Promise.resolve(true)
+    return new Promise((resolve) => setReauthRequest({ title, resolve }))
+  }
+
+  function confirmDestructiveAction(title: string): Promise<boolean> {
+    return appLock.protectActions ? reauthenticate(title) : Promise.resolve(true)
+  }
+
+  function finishReauth(confirmed: boolean) {
+    reauthRequest?.resolve(confirmed)
+    setReauthRequest(null)
+    if (confirmed) lastActiveRef.current = Date.now()
+  }
+
+  async function saveAppLockPin() {
+    setPinError(null)
+    if (!isValidPin(newPin)) {
+      setPinError(t('appLock.pinInvalid'))
+      return
+    }
+    if (newPin !== newPinConfirm) {
+      setPinError(t('appLock.pinMismatch'))
+      return
+    }
+    // Changing the PIN of an active lock needs the current one first.
+    if (!(await reauthenticate(t('appLock.confirmChange')))) return
+    updateAppLock({ ...appLock, enabled: true, pin: await hashPin(newPin) })
+    clearPinAttempts()
+    setNewPin("")
+    setNewPinConfirm("")
+    setSettingsNotice({ type: "success", text: t('appLock.pinSaved') })
+  }
+
+  async function setAppLockEnabled(enabled: boolean) {
+    if (!enabled && !(await reauthenticate(t('appLock.confirmDisable')))) return
+    updateAppLock({ ...appLock, enabled: enabled && appLock.pin !== null })
+  }
+
+  /** A longer timeout or unprotected actions would let whoever holds the unlocked phone skip the lock, so they need the PIN too. */
+  async function changeAppLock(next: AppLockSettings) {
+    if (weakensAppLock(appLock, next) && !(await reauthenticate(t('appLock.confirmRelax')))) return
+    updateAppLock(next)
+  }
+
+  function resetServerState(clearSessions = true) {
+    if (clearSessions) setSessions([])
+    setSelectedID(null)
+    setMessages([])
+    setHasOlderMessages(false)
+    setOptimisticUserMessages([])
+    setTodos([])
+    setDiffFiles([])
+    if (clearSessions) setPendingPermissions([])
+    setProjectDashboard(null)
+    setDashboardError(null)
+    setAwaitingAssistantReply(false)
+    setCommands([])
+    setAgentOptions([])
+    setModelOptions([])
+    setLiveEventCount(0)
+    setLiveEventError(null)
+    setRuntimeError(null)
+    latestMessageTimesRef.current.clear()
+    backgroundFailureCountRef.current = 0
+    initialSessionLoadRef.current = true
+  }
+
   function saveConfig() {
-    setConfig(draftConfig)
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(draftConfig))
+    const profile = {
+      ...draftConfig,
+      name: draftConfig.name.trim(),
+      basePath: normalizeBasePath(draftConfig.basePath),
+      authMode: authMode(draftConfig),
+      pinnedDirectories: pinnedDirectories(draftConfig),
+      certificatePins: certificatePins(draftConfig)
+    }
+    const next = upsertProfile(profileStore, profile)
+    updateProfileStore(next)
+    setDraftConfig(profile)
     setSettingsNotice({ type: "success", text: t('settings.saved') })
+    if (activeProfileID && activeProfileID !== profile.id && findProfile(profileStore, activeProfileID)) return
+    if (activeProfileID !== profile.id) resetServerState()
+    setActiveProfileID(profile.id)
     setConnectionState("connecting")
     setConnectionMessage(t('connection.connecting'))
     setRuntimeError(null)
@@ -435,7 +839,7 @@ function App() {
     setSettingsNotice({ type: "info", text: t('settings.testingConnection') })
     try {
       const health = await Promise.race([
-        api.health(configToTest),
+        api.health(configToTest, draftTrust({ ...draftConfig, ...configToTest })),
         new Promise<never>((_, reject) => setTimeout(() => reject(new Error("Connection timed out")), 12000))
       ])
       setConnectedVersion(health.version)
@@ -443,13 +847,114 @@ function App() {
       setSettingsNotice({ type: "success", text: t('settings.testedNotSaved', { version: health.version }) })
     } catch (err) {
       setSettingsNotice({ type: "error", text: t('settings.connectionFailed', { message: (err as Error).message }) })
+      if (err instanceof NetworkError) void offerCertificateTrust({ ...draftConfig, ...configToTest }, "draft")
     } finally {
       setTestingConnection(false)
     }
   }
 
+  /**
+   * Trust on first use: when an `https://` server cannot be reached natively, read the certificate it presents and,
+   * if the current settings reject it, ask whether to pin its fingerprint.
+   */
+  async function offerCertificateTrust(profile: ServerProfile, source: "draft" | "saved") {
+    const endpoint = httpsEndpoint(serverURL(profile))
+    if (!customTrustSupported() || !endpoint) return
+    const inspectedKey = `${source}:${profile.id}:${configKey(profile)}`
+    if (source === "saved" && inspectedCertificatesRef.current.has(inspectedKey)) return
+    inspectedCertificatesRef.current.add(inspectedKey)
+    let certificate: CertificateInfo
+    try {
+      certificate = await inspectCertificate(serverURL(profile), source === "draft" ? draftTrust(profile) : undefined)
+    } catch {
+      // No TLS handshake at all: the network error already explains it.
+      return
+    }
+    if (certificate.trusted || declinedCertificatesRef.current.has(certificate.fingerprint)) return
+    setCertificatePrompt({ profileID: profile.id, source, certificate })
+  }
+
+  /** An unsaved draft's pins and certificates go with each of its test requests; the installed trust stays the saved profiles'. */
+  function draftTrust(draft: ServerConfig): TrustedServer[] | undefined {
+    return customTrustSupported() ? trustedServers([draft], serverURL) : undefined
+  }
+
+  async function trustPromptedCertificate() {
+    const prompt = certificatePrompt
+    if (!prompt) return
+    setCertificatePrompt(null)
+    const withPin = <T extends ServerProfile>(profile: T): T => ({
+      ...profile,
+      certificatePins: [...certificatePins(profile), prompt.certificate.fingerprint]
+    })
+    if (prompt.source === "draft") {
+      const nextDraft = withPin(draftConfig)
+      setDraftConfig(nextDraft)
+      await testConnection(nextDraft)
+      return
+    }
+    const saved = findProfile(profileStore, prompt.profileID)
+    if (!saved) return
+    const next = upsertProfile(profileStore, withPin(saved))
+    await configureServerTrust(trustedServers(next.profiles, serverURL))
+    updateProfileStore(next)
+    setDraftConfig((draft) => (draft.id === saved.id ? withPin(draft) : draft))
+  }
+
+  function declinePromptedCertificate() {
+    if (certificatePrompt) declinedCertificatesRef.current.add(certificatePrompt.certificate.fingerprint)
+    setCertificatePrompt(null)
+  }
+
+  async function importCertificateFile(file: File) {
+    const pem = certificateFileToPem(new Uint8Array(await file.arrayBuffer()))
+    if (!pem) {
+      setSettingsNotice({ type: "error", text: t('tls.importFailed', { name: file.name }) })
+      return
+    }
+    setDraftConfig((draft) => ({ ...draft, certificates: [draft.certificates?.trim(), pem].filter(Boolean).join("\n") }))
+  }
+
+  async function loadServerSessions(config: ServerProfile): Promise<SessionView[]> {
+    const items = await api.listGlobalSessions(config).catch(() => api.listSessions(config))
+    const directories = [...new Set(items.map((session) => session.directory).filter(Boolean))]
+    const [sessionLists, statusMaps] = await Promise.all([
+      Promise.all(directories.map((directory) => api.listSessions(config, directory).catch(() => [] as Session[]))),
+      Promise.all(directories.map((directory) => api.listStatuses(config, directory).catch(() => ({} as Record<string, SessionStatus>))))
+    ])
+    const scopedSessions = new Map(sessionLists.flat().map((session) => [session.id, session]))
+    const statuses = Object.assign({}, ...statusMaps)
+    const hydratedItems = items.map((session) => ({ ...session, ...scopedSessions.get(session.id), project: session.project }))
+    const activityTimes = await loadSessionActivityTimes(config, hydratedItems)
+    return hydratedItems.map((session) => ({
+      ...toSessionView(session, statuses[session.id], activityTimes.get(session.id)),
+      profileID: config.id
+    }))
+  }
+
+  async function loadServerPermissions(config: ServerProfile): Promise<PermissionRequest[] | null> {
+    const items = await api.listPermissions(config).catch(() => null)
+    return items ? items.map((permission) => ({ ...permission, profileID: config.id })) : null
+  }
+
+  /** Reloads the sessions and permissions of one server, leaving the other servers' entries as they are. */
+  async function resyncServer(server: ServerProfile) {
+    const scope = sessionScopeRef.current
+    const [fresh, permissions] = await Promise.all([loadServerSessions(server), loadServerPermissions(server)])
+    if (scope !== sessionScopeRef.current) return
+    if (permissions) {
+      setPendingPermissions((current) => [...current.filter((permission) => permission.profileID !== server.id), ...permissions])
+    }
+    setSessions((current) => {
+      const selected = current.find((session) => session.id === selectedSessionRef.current?.id && session.profileID === server.id)
+      const kept = current.filter((session) => session.profileID !== server.id)
+      const preserved = selected && !fresh.some((session) => session.id === selected.id) ? [selected] : []
+      return [...kept, ...preserved, ...fresh].sort((a, b) => b.updated - a.updated)
+    })
+  }
+
   async function refreshSessions(silent = false, preserveSession?: SessionView) {
-    if (!config.host || config.port <= 0) return
+    if (sessionServers.length === 0) return
     if (!silent) {
       setRuntimeError(null)
       setConnectionState(sessions.length === 0 ? "connecting" : "reconnecting")
@@ -458,19 +963,26 @@ function App() {
       setConnectionState("connecting")
       setConnectionMessage(t('connection.loadingSessions'))
     }
+    const scope = sessionScope
     try {
-      const items = await api.listGlobalSessions(config).catch(() => api.listSessions(config))
-      const directories = [...new Set(items.map((session) => session.directory).filter(Boolean))]
-      const [sessionLists, statusMaps] = await Promise.all([
-        Promise.all(directories.map((directory) => api.listSessions(config, directory).catch(() => [] as Session[]))),
-        Promise.all(directories.map((directory) => api.listStatuses(config, directory).catch(() => ({} as Record<string, SessionStatus>))))
+      const [results, permissionLists] = await Promise.all([
+        Promise.allSettled(sessionServers.map(loadServerSessions)),
+        Promise.all(sessionServers.map(loadServerPermissions))
       ])
-      const scopedSessions = new Map(sessionLists.flat().map((session) => [session.id, session]))
-      const statuses = Object.assign({}, ...statusMaps)
-      const hydratedItems = items.map((session) => ({ ...session, ...scopedSessions.get(session.id), project: session.project }))
-      const activityTimes = await loadSessionActivityTimes(hydratedItems)
-      const mapped = hydratedItems
-        .map((session) => toSessionView(session, statuses[session.id], activityTimes.get(session.id)))
+      if (scope !== sessionScopeRef.current) return
+      const failed = results.flatMap((result, index) => (result.status === "rejected" ? [sessionServers[index].id] : []))
+      sessionServers
+        .filter((server, index) => failed.includes(server.id) && (results[index] as PromiseRejectedResult).reason instanceof NetworkError)
+        .forEach((server) => void offerCertificateTrust(server, "saved"))
+      const firstFailure = results.find((result) => result.status === "rejected")
+      if (firstFailure && failed.length === results.length) throw firstFailure.reason
+      setUnreachableServerIDs(failed)
+      // Servers without the permission endpoint (or unreachable ones) keep what live events reported.
+      setPendingPermissions((current) => sessionServers.flatMap((server, index) => (
+        permissionLists[index] ?? current.filter((permission) => permission.profileID === server.id)
+      )))
+      const mapped = results
+        .flatMap((result) => (result.status === "fulfilled" ? result.value : []))
         .sort((a, b) => b.updated - a.updated)
       setSessions((current) => {
         const selected = selectedID ? current.find((session) => session.id === selectedID) : null
@@ -480,6 +992,7 @@ function App() {
       })
       backgroundFailureCountRef.current = 0
       initialSessionLoadRef.current = false
+      setStaleSince(null)
       setConnectionState("connected")
       setConnectionMessage(t('connection.connected'))
       setRuntimeError(null)
@@ -507,6 +1020,37 @@ function App() {
     }
   }
 
+  function switchProfile(profileID: string) {
+    if (profileID === activeProfileID || !findProfile(profileStore, profileID)) return
+    resetServerState(!isAggregatedView)
+    setActiveProfileID(profileID)
+    setConnectionState("connecting")
+    setConnectionMessage(t('connection.connecting'))
+    if (view === "detail") setView("sessions")
+  }
+
+  function editProfile(profile: ServerProfile) {
+    setDraftConfig(profile)
+    setSettingsNotice(null)
+  }
+
+  function setDefaultProfile(profileID: string) {
+    updateProfileStore({ ...profileStore, defaultID: profileID })
+  }
+
+  function deleteProfile(profileID: string) {
+    const next = removeProfile(profileStore, profileID)
+    updateProfileStore(next)
+    if (credentialState === "native") removeNativeSecrets(profileID).catch(() => undefined)
+    setProfileToDelete(null)
+    clearCachedServer(profileID).catch(() => undefined)
+    if (draftConfig.id === profileID) setDraftConfig(findProfile(next, next.defaultID) ?? createProfile())
+    if (activeProfileID === profileID) {
+      resetServerState()
+      setActiveProfileID(next.defaultID)
+    }
+  }
+
   async function refreshSessionsWithIndicator() {
     if (refreshingSessions) return
     setRefreshingSessions(true)
@@ -518,7 +1062,7 @@ function App() {
   }
 
   async function loadCommands() {
-    if (!config.host || config.port <= 0) return
+    if (!config.host || !validPort(config.port)) return
     try {
       const list = await api.listCommands(config)
       setCommands(list)
@@ -528,7 +1072,7 @@ function App() {
   }
 
   async function loadAgents() {
-    if (!config.host || config.port <= 0) return
+    if (!config.host || !validPort(config.port)) return
     try {
       const list = await api.listAgents(config, selectedSession?.directory ?? selectedNewSessionDirectory)
       setAgentOptions(list)
@@ -546,7 +1090,7 @@ function App() {
   }
 
   async function loadModels() {
-    if (!config.host || config.port <= 0) return
+    if (!config.host || !validPort(config.port)) return
     try {
       const list = await api.listModels(config, selectedSession?.directory ?? selectedNewSessionDirectory)
       setModelOptions(list)
@@ -572,7 +1116,7 @@ function App() {
     }
   }
 
-  async function loadSessionActivityTimes(items: Session[]): Promise<Map<string, number>> {
+  async function loadSessionActivityTimes(config: ServerConfig, items: Session[]): Promise<Map<string, number>> {
     const results = await Promise.all(items.map(async (session) => {
       const cached = latestMessageTimesRef.current.get(session.id)
       if (cached?.sessionUpdated === session.time.updated) return [session.id, cached.activityTime] as const
@@ -604,9 +1148,15 @@ function App() {
       api.loadDiff(config, sessionID, directory).catch(() => [])
     ])
     if (requestID !== loadSelectedRequestRef.current) return
-    setMessages((current) => {
-      if (assistantPayloadLength(current) > assistantPayloadLength(msg)) return current
-      return msg
+    if (config.id !== activeProfileRef.current) return
+    if (!mergeTail(transcriptRef.current, msg, sessionID).overlapped) setHasOlderMessages(msg.length >= MESSAGE_PAGE_SIZE)
+    setMessages((loaded) => {
+      const merged = mergeTail(loaded, msg, sessionID)
+      if (!merged.overlapped) return merged.messages
+      // Only the window covered by the tail can regress; older pages are the same on both sides.
+      const current = loaded.slice(merged.messages.length - msg.length)
+      if (assistantPayloadLength(current) > assistantPayloadLength(msg)) return loaded
+      return merged.messages
     })
     setOptimisticUserMessages((current) => current.filter((message) => !hasMatchingUserMessage(msg, message)))
     setTodos(todo)
@@ -614,6 +1164,42 @@ function App() {
     await loadProjectDashboard(directory)
   }
 
+  async function loadOlderMessages() {
+    const session = selectedSession
+    const oldest = transcriptRef.current[0]
+    if (!session || !oldest || loadingOlderMessagesRef.current) return
+    loadingOlderMessagesRef.current = true
+    setLoadingOlderMessages(true)
+    try {
+      let page = await api.loadMessages(config, session.id, session.directory, { before: oldest.info.id })
+      let result = prependOlderMessages(transcriptRef.current, page)
+      let hasMore = page.length >= MESSAGE_PAGE_SIZE
+      if (result.status === "unsupported") {
+        // Servers without cursor support ignore `before`; widen the tail window instead.
+        const limit = transcriptRef.current.length + MESSAGE_PAGE_SIZE
+        page = await api.loadMessages(config, session.id, session.directory, { limit })
+        result = prependOlderMessages(transcriptRef.current, page)
+        hasMore = page.length >= limit
+      }
+      if (selectedSessionRef.current?.id !== session.id || config.id !== activeProfileRef.current) return
+      if (result.status !== "applied") {
+        setHasOlderMessages(false)
+        return
+      }
+      setHasOlderMessages(hasMore && result.added > 0)
+      if (result.added === 0) return
+      const first = messagesRef.current?.querySelector<HTMLElement>("[data-message-id]")
+      if (first?.dataset.messageId) scrollAnchorRef.current = { id: first.dataset.messageId, top: first.getBoundingClientRect().top }
+      transcriptRef.current = result.messages
+      setMessages(result.messages)
+    } catch (err) {
+      setRuntimeError((err as Error).message)
+    } finally {
+      loadingOlderMessagesRef.current = false
+      setLoadingOlderMessages(false)
+    }
+  }
+
   async function loadProjectDashboard(directory: string) {
     setDashboardError(null)
     try {
@@ -711,7 +1297,7 @@ function App() {
         }
       }
       const created = await api.createSession(config, "Mobile session", activeModel, directory)
-      const createdView = toSessionView(created)
+      const createdView = { ...toSessionView(created), profileID: config.id }
       if (directory) {
         setNewSessionDirectory(directory)
       }
@@ -732,10 +1318,25 @@ function App() {
     }
   }
 
+  async function addAttachments(files: FileList | null) {
+    if (!files || files.length === 0) return
+    try {
+      const added = await Promise.all(Array.from(files).map(readAttachment))
+      setAttachments((current) => [...current, ...added])
+      setRuntimeError(null)
+    } catch (err) {
+      setRuntimeError((err as Error).message)
+    }
+  }
+
+  function removeAttachment(id: string) {
+    setAttachments((current) => current.filter((attachment) => attachment.id !== id))
+  }
+
   async function send() {
     if (!selectedSession) return
     const text = composer.trim()
-    if (!text) return
+    if (!text && attachments.length === 0) return
 
     if (text.startsWith("/")) {
       const normalized = text.slice(1)
@@ -754,10 +1355,15 @@ function App() {
 
       if (!command) return
 
+      if (localCommand !== "status" && connectionState === "offline") {
+        queueForLater(text, { command: { name: command, arguments: args }, attachments: [] })
+        return
+      }
+
       if (localCommand === "status") {
         const status = [
           `Connection: ${connectionStatusText || connectionState}`,
-          `Server: ${hasConfiguredServer ? `${config.host}:${config.port}` : "not configured"}`,
+          `Server: ${hasConfiguredServer ? `${profileLabel(config)} (${profileAddress(config)})` : "not configured"}`,
           `Session: ${selectedSession.title} (${selectedSession.status})`,
           `Directory: ${selectedSession.directory}`,
           `Agent: ${activeAgent?.name ?? activeAgentID}`,
@@ -780,6 +1386,10 @@ function App() {
           availableCommands = await api.listCommands(config)
           setCommands(availableCommands)
         } catch (err) {
+          if (err instanceof NetworkError) {
+            queueForLater(text, { command: { name: command, arguments: args }, attachments: [] })
+            return
+          }
           setRuntimeError(`Cannot load server commands: ${(err as Error).message}`)
           return
         }
@@ -818,8 +1428,20 @@ function App() {
       return
     }
 
+    if (attachments.length > 0 && !attachmentsSupported) {
+      setRuntimeError(t('composer.attachmentsUnsupported'))
+      return
+    }
+
+    const sentAttachments = attachments
+    if (connectionState === "offline") {
+      setAttachments([])
+      queueForLater(text, { attachments: sentAttachments })
+      return
+    }
     setComposer("")
-    const optimisticMessage = createOptimisticUserMessage(selectedSession.id, text)
+    setAttachments([])
+    const optimisticMessage = createOptimisticUserMessage(selectedSession.id, text, sentAttachments)
     setOptimisticUserMessages((current) => [...current, optimisticMessage])
     awaitingAssistantBaselineRef.current = assistantResponseSignature
     completionShouldPlayRef.current = true
@@ -828,27 +1450,113 @@ function App() {
 
     setBusySending(true)
     setRuntimeError(null)
+    let delivered = false
     try {
-      await api.sendPrompt(config, selectedSession.id, text, selectedSession.directory, activeModel, activeAgentID)
+      await api.sendPrompt(config, selectedSession.id, text, selectedSession.directory, activeModel, activeAgentID, sentAttachments)
+      delivered = true
       await loadSelected(selectedSession.id, selectedSession.directory)
       await refreshSessions()
     } catch (err) {
       completionShouldPlayRef.current = false
       setAwaitingAssistantReply(false)
       setOptimisticUserMessages((current) => current.filter((message) => message.info.id !== optimisticMessage.info.id))
-      setComposer((current) => current || text)
-      setRuntimeError((err as Error).message)
+      if (!delivered && err instanceof NetworkError) {
+        queueForLater(text, { attachments: sentAttachments })
+      } else {
+        setComposer((current) => current || text)
+        setAttachments((current) => [...sentAttachments, ...current])
+        setRuntimeError((err as Error).message)
+      }
     } finally {
       setBusySending(false)
     }
   }
 
+  function updateOutbox(update: (items: OutboxItem[]) => OutboxItem[]) {
+    const next = update(outboxRef.current)
+    outboxRef.current = next
+    setOutbox(next)
+    if (!saveOutbox(next)) setRuntimeError(t('outbox.notSaved'))
+  }
+
+  /** Parks a prompt or command for the selected session until its server's event stream reconnects. */
+  function queueForLater(text: string, payload: Pick<OutboxItem, "command" | "attachments">) {
+    if (!selectedSession) return
+    const next = [...outboxRef.current, createOutboxItem({
+      ...payload,
+      profileID: config.id,
+      sessionID: selectedSession.id,
+      directory: selectedSession.directory,
+      text,
+      model: activeModel,
+      agentID: activeAgentID
+    })]
+    // An item storage cannot hold would be gone after a restart, so it goes back to the composer instead.
+    if (!saveOutbox(next)) {
+      setComposer((current) => current || text)
+      setAttachments((current) => [...payload.attachments, ...current])
+      setRuntimeError(t('outbox.tooLarge'))
+      return
+    }
+    outboxRef.current = next
+    setOutbox(next)
+    setComposer("")
+    setRuntimeError(null)
+    scrollMessagesToBottom("smooth")
+  }
+
+  async function flushOutbox(server: ServerProfile) {
+    if (flushingOutboxRef.current.has(server.id)) return
+    flushingOutboxRef.current.add(server.id)
+    let delivered = false
+    try {
+      for (const item of deliverableItems(outboxRef.current, server.id)) {
+        if (!outboxRef.current.some((entry) => entry.id === item.id)) continue
+        try {
+          if (item.command) {
+            await api.sendCommand(server, item.sessionID, item.command.name, item.command.arguments, item.directory, item.model, item.agentID)
+          } else {
+            await api.sendPrompt(server, item.sessionID, item.text, item.directory, item.model, item.agentID, item.attachments)
+          }
+          delivered = true
+          updateOutbox((items) => items.filter((entry) => entry.id !== item.id))
+        } catch (err) {
+          // Still unreachable: keep this item and everything after it, in order, for the next reconnect.
+          if (err instanceof NetworkError) break
+          updateOutbox((items) => items.map((entry) => (
+            entry.id === item.id ? { ...entry, rejected: true, error: (err as Error).message } : entry
+          )))
+        }
+      }
+    } finally {
+      flushingOutboxRef.current.delete(server.id)
+    }
+    if (!delivered) return
+    await refreshSessions(true)
+    const selected = selectedSessionRef.current
+    if (selected && server.id === activeProfileRef.current) await loadSelected(selected.id, selected.directory)
+  }
+
+  function retryOutboxItem(id: string) {
+    const item = outboxRef.current.find((entry) => entry.id === id)
+    const server = item ? findProfile(profileStore, item.profileID) : null
+    if (!item || !server) return
+    updateOutbox((items) => items.map((entry) => (entry.id === id ? { ...entry, rejected: false, error: undefined } : entry)))
+    flushOutbox(server).catch(() => undefined)
+  }
+
+  function cancelOutboxItem(id: string) {
+    updateOutbox((items) => items.filter((entry) => entry.id !== id))
+  }
+
   async function deleteSession(sessionID: string) {
+    if (!(await confirmDestructiveAction(t('appLock.confirmDelete')))) return
     try {
-      await api.deleteSession(config, sessionID, sessionToDelete?.directory)
+      await api.deleteSession(sessionServer(sessionToDelete), sessionID, sessionToDelete?.directory)
       if (selectedID === sessionID) {
         setSelectedID(null)
         setMessages([])
+        setHasOlderMessages(false)
         setOptimisticUserMessages([])
         setTodos([])
         setDiffFiles([])
@@ -866,7 +1574,8 @@ function App() {
   async function renameSession(sessionID: string, newTitle: string, directory: string) {
     if (!newTitle.trim()) return
     try {
-      await api.renameSession(config, sessionID, newTitle.trim(), directory)
+      const session = sessions.find((item) => item.id === sessionID)
+      await api.renameSession(sessionServer(session), sessionID, newTitle.trim(), directory)
       setRenamingSessionID(null)
       setRenameValue("")
       await refreshSessions(true)
@@ -890,8 +1599,76 @@ function App() {
     setRenameValue("")
   }
 
+  async function answerPermission(permission: PermissionRequest, reply: PermissionReply) {
+    if (!selectedSession) return
+    setAnsweringPermissionID(permission.id)
+    try {
+      await api.replyPermission(config, permission, reply, selectedSession.directory)
+      setPendingPermissions((current) => current.filter((item) => !(item.id === permission.id && item.profileID === permission.profileID)))
+    } catch (err) {
+      setRuntimeError((err as Error).message)
+    } finally {
+      setAnsweringPermissionID(null)
+    }
+  }
+
+  function insertFileReference(path: string) {
+    setComposer((current) => `${current}${current && !/\s$/.test(current) ? " " : ""}@${path} `)
+    setView("detail")
+  }
+
+  function startLongPress(messageID: string) {
+    cancelLongPress()
+    longPressTimerRef.current = window.setTimeout(() => {
+      longPressTimerRef.current = null
+      requestRevert(messageID)
+    }, LONG_PRESS_MS)
+  }
+
+  function cancelLongPress() {
+    if (longPressTimerRef.current === null) return
+    window.clearTimeout(longPressTimerRef.current)
+    longPressTimerRef.current = null
+  }
+
+  function requestRevert(messageID: string) {
+    // The server refuses to revert a busy session, and optimistic messages have no server id yet.
+    if (!selectedSession || isWorking || messageID.startsWith("optimistic-")) return
+    setRevertMessageID(messageID)
+  }
+
+  async function revertFromMessage(messageID: string) {
+    if (!selectedSession) return
+    setReverting(true)
+    try {
+      await api.revertSession(config, selectedSession.id, messageID, selectedSession.directory)
+      setRevertMessageID(null)
+      await refreshSessions(true)
+      await loadSelected(selectedSession.id, selectedSession.directory)
+    } catch (err) {
+      setRuntimeError((err as Error).message)
+    } finally {
+      setReverting(false)
+    }
+  }
+
+  async function unrevertSession() {
+    if (!selectedSession) return
+    setReverting(true)
+    try {
+      await api.unrevertSession(config, selectedSession.id, selectedSession.directory)
+      await refreshSessions(true)
+      await loadSelected(selectedSession.id, selectedSession.directory)
+    } catch (err) {
+      setRuntimeError((err as Error).message)
+    } finally {
+      setReverting(false)
+    }
+  }
+
   async function abortSession() {
     if (!selectedSession) return
+    if (!(await confirmDestructiveAction(t('appLock.confirmAbort')))) return
     try {
       await api.abort(config, selectedSession.id, selectedSession.directory)
       completionShouldPlayRef.current = false
@@ -903,6 +1680,35 @@ function App() {
     }
   }
 
+  // Only saved profiles install trust; Test Connection and diagnostics pass the draft's with each request, via draftTrust.
+  const savedServerTrust = trustedServers(profileStore.profiles, serverURL)
+  const serverTrustKey = JSON.stringify(savedServerTrust)
+  useEffect(() => {
+    void configureServerTrust(savedServerTrust)
+  }, [serverTrustKey])
+
+  useEffect(() => {
+    if (!appLock.enabled) return
+    const markActive = () => {
+      lastActiveRef.current = Date.now()
+    }
+    // Time in the background counts as inactivity, so coming back checks the timeout before anything else.
+    const checkIdle = () => {
+      if (document.visibilityState === "visible" && lockDue(appLock, lastActiveRef.current)) setLocked(true)
+    }
+    markActive()
+    window.addEventListener("pointerdown", markActive, { passive: true })
+    window.addEventListener("keydown", markActive)
+    document.addEventListener("visibilitychange", checkIdle)
+    const timer = window.setInterval(checkIdle, 15_000)
+    return () => {
+      window.removeEventListener("pointerdown", markActive)
+      window.removeEventListener("keydown", markActive)
+      document.removeEventListener("visibilitychange", checkIdle)
+      window.clearInterval(timer)
+    }
+  }, [appLock])
+
   useEffect(() => {
     localStorage.setItem(LANGUAGE_STORAGE_KEY, language)
   }, [language])
@@ -927,81 +1733,323 @@ function App() {
   }, [newSessionDirectory])
 
   useEffect(() => {
-    selectedSessionRef.current = selectedSession
-  }, [selectedSession])
+    localStorage.setItem(NOTIFICATIONS_STORAGE_KEY, String(notificationsEnabled))
+    if (notificationsEnabled) requestNotificationPermission().catch(() => undefined)
+  }, [notificationsEnabled])
+
+  useEffect(() => onNotificationOpen(setNotificationTarget), [])
 
   useEffect(() => {
-    if (!config.host || config.port <= 0) {
-      setConnectionState("idle")
-      setConnectionMessage("")
-      return
-    }
-    setConnectionState("connecting")
-    setConnectionMessage(t('connection.connecting'))
-    backgroundFailureCountRef.current = 0
-    initialSessionLoadRef.current = true
-    refreshSessions(true).catch(() => undefined)
-    loadCommands().catch(() => undefined)
+    if (view !== "settings") return
+    setDataUsage(currentDataUsage())
+    const timer = setInterval(() => setDataUsage(currentDataUsage()), 2000)
+    return () => clearInterval(timer)
+  }, [view])
+
+  useEffect(() => {
+    localStorage.setItem(BACKGROUND_STREAM_STORAGE_KEY, String(backgroundStreamEnabled))
+    setNativeBackgroundStream(backgroundStreamEnabled, {
+      title: t('background.title'),
+      idleText: t('background.idle'),
+      busyText: t('background.busy')
+    })
+  }, [backgroundStreamEnabled, t])
+
+  useEffect(() => {
+    saveIdleTimeoutSeconds(idleTimeoutSeconds)
+  }, [idleTimeoutSeconds])
+
+  useEffect(() => {
+    if (!isNativeEventTransport()) return
+    for (const server of sessionServers) {
+      const busy = sessions.filter((session) => session.profileID === server.id && ["busy", "retry"].includes(session.status))
+      for (const { streamID, directory } of eventStreamTargets(server)) {
+        const streamed = directory ? busy.filter((session) => session.directory === directory) : busy
+        reportNativeBusySessions(streamID, streamed.map((session) => session.id))
+      }
+    }
+  }, [sessions, sessionServersKey])
+
+  useEffect(() => {
+    if (!notificationTarget || !hasConfiguredServer) return
+    setNotificationTarget(null)
+    const session = sessions.find((item) => item.id === notificationTarget.sessionID && (!notificationTarget.profileID || item.profileID === notificationTarget.profileID))
+    void openSession(notificationTarget.sessionID, notificationTarget.directory || session?.directory || "", notificationTarget.profileID || undefined)
+  }, [notificationTarget, hasConfiguredServer])
+
+  useEffect(() => {
+    const alerts = sessionStatusAlerts(notifiedStatusesRef.current, sessions, erroredSessionsRef.current)
+    notifiedStatusesRef.current = new Map(sessions.map((session) => [sessionKey(session), session.status]))
+    for (const alert of alerts) {
+      if (alert.kind !== "retry") erroredSessionsRef.current.delete(sessionKey(alert.session))
+      notifySession(alert.kind, alert.session)
+    }
+  }, [sessions])
+
+  useEffect(() => {
+    const pendingKeys = new Set(pendingPermissions.map(permissionNotificationKey))
+    for (const key of notifiedPermissionIDsRef.current) {
+      if (pendingKeys.has(key)) continue
+      notifiedPermissionIDsRef.current.delete(key)
+      cancelSessionNotification(key)
+    }
+    for (const permission of pendingPermissions) {
+      const key = permissionNotificationKey(permission)
+      if (notifiedPermissionIDsRef.current.has(key)) continue
+      notifiedPermissionIDsRef.current.add(key)
+      const session = sessions.find((item) => item.id === permission.sessionID && item.profileID === permission.profileID)
+      if (session) notifySession("permission", session, permission)
+    }
+  }, [pendingPermissions])
+
+  useEffect(() => {
+    selectedSessionRef.current = selectedSession
+  }, [selectedSession])
+
+  useEffect(() => {
+    transcriptRef.current = messages
+  }, [messages])
+
+  useEffect(() => {
+    staleSinceRef.current = staleSince
+  }, [staleSince])
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all(sessionServers.map((server) => loadCachedSessions(server.id))).then((entries) => {
+      const cached = entries.filter((entry) => entry !== null)
+      // Only fill an empty screen: a successful refresh always wins over the offline copy.
+      if (cancelled || cached.length === 0 || !initialSessionLoadRef.current) return
+      setSessions(cached.flatMap((entry) => entry.sessions).sort((a, b) => b.updated - a.updated))
+      setStaleSince(Math.min(...cached.map((entry) => entry.savedAt)))
+      const restoredID = cached.find((entry) => entry.profileID === config.id)?.selectedID
+      if (restoredID && !selectedSessionRef.current) {
+        setSelectedID(restoredID)
+        selectedSessionRef.current = cached.flatMap((entry) => entry.sessions).find((session) => session.id === restoredID) ?? null
+        showCachedTranscript(config.id, restoredID).catch(() => undefined)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [sessionServersKey])
+
+  useEffect(() => {
+    // Never overwrite the last good copy with data that is itself from the cache.
+    if (staleSince !== null || initialSessionLoadRef.current || sessions.length === 0) return
+    const timer = setTimeout(() => {
+      for (const server of sessionServers) {
+        if (unreachableServerIDs.includes(server.id)) continue
+        const selected = selectedSession?.profileID === server.id ? selectedSession.id : null
+        saveCachedSessions(server.id, sessions.filter((session) => session.profileID === server.id), selected).catch(() => undefined)
+      }
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [sessions, selectedSession?.id, staleSince])
+
+  useEffect(() => {
+    if (!selectedSession || staleSince !== null || loadingSessionID === selectedSession.id || messages.length === 0) return
+    const profileID = selectedSession.profileID ?? config.id
+    const sessionID = selectedSession.id
+    const timer = setTimeout(() => {
+      saveCachedTranscript(profileID, sessionID, { messages, todos, diffFiles }).catch(() => undefined)
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [messages, todos, diffFiles, selectedSession?.id, staleSince, loadingSessionID])
+
+  useEffect(() => {
+    activeProfileRef.current = config.id
+    const pending = pendingOpenSessionRef.current
+    if (!pending) return
+    pendingOpenSessionRef.current = null
+    openSession(pending.id, pending.directory).catch(() => undefined)
+  }, [config.id])
+
+  useEffect(() => {
+    sessionScopeRef.current = sessionScope
+  }, [sessionScope])
+
+  useEffect(() => {
+    localStorage.setItem(ALL_SERVERS_STORAGE_KEY, String(showAllServers))
+  }, [showAllServers])
+
+  useEffect(() => {
+    if (!config.host || !validPort(config.port)) {
+      setConnectionState("idle")
+      setConnectionMessage("")
+      return
+    }
+    setConnectionState("connecting")
+    setConnectionMessage(t('connection.connecting'))
+    backgroundFailureCountRef.current = 0
+    initialSessionLoadRef.current = true
+    refreshSessions(true).catch(() => undefined)
+    loadCommands().catch(() => undefined)
     loadAgents().catch(() => undefined)
     loadModels().catch(() => undefined)
-    const timer = setInterval(() => {
+  }, [config.id, config.host, config.port, config.basePath, config.username, config.password, config.token, config.customHeaders, sessionServersKey, selectedSession?.id, selectedNewSessionDirectory])
+
+  useEffect(() => {
+    // A live stream keeps the list and the open transcript current; polling only covers for it while it is down.
+    if (!hasConfiguredServer || !pollingFallback) return
+    const poll = () => {
       refreshSessions(true).catch(() => undefined)
       if (selectedSession) {
         loadSelected(selectedSession.id, selectedSession.directory).catch(() => undefined)
       }
-    }, 3500)
+    }
+    const timer = setInterval(() => {
+      // While the offline copy is on screen, probe the cheap health endpoint before refetching everything.
+      if (staleSinceRef.current !== null) api.health(config).then(poll, () => undefined)
+      else poll()
+    }, POLL_INTERVAL_MS)
     return () => clearInterval(timer)
-  }, [config.host, config.port, config.username, config.password, selectedSession?.id, selectedNewSessionDirectory])
+  }, [config.id, config.host, config.port, config.basePath, config.username, config.password, config.token, config.customHeaders, sessionServersKey, selectedSession?.id, pollingFallback])
 
+  // The streams outlive renders, so they call the current handlers, which see the active profile as it is now.
+  const streamHandlersRef = useRef({ refreshSessions, loadSelected, resyncServer, flushOutbox })
   useEffect(() => {
-    if (!config.host || config.port <= 0) {
+    streamHandlersRef.current = { refreshSessions, loadSelected, resyncServer, flushOutbox }
+  })
+
+  useEffect(() => {
+    if (sessionServers.length === 0) {
       setEventStreamState("idle")
       return
     }
     setEventStreamState("connecting")
-    const { url, headers } = api.eventStream(config)
     let refreshTimer: ReturnType<typeof setTimeout> | undefined
-    const scheduleRefresh = () => {
+    let reloadSelected = false
+    let reloadSessions = false
+    const scheduleRefresh = (includeSelected = true, includeSessions = true) => {
+      reloadSelected ||= includeSelected
+      reloadSessions ||= includeSessions
       if (refreshTimer !== undefined) return
       refreshTimer = setTimeout(() => {
         refreshTimer = undefined
-        refreshSessions(true).catch(() => undefined)
+        if (reloadSessions) streamHandlersRef.current.refreshSessions(true).catch(() => undefined)
         const selected = selectedSessionRef.current
-        if (selected) loadSelected(selected.id, selected.directory).catch(() => undefined)
+        if (selected && reloadSelected) streamHandlersRef.current.loadSelected(selected.id, selected.directory).catch(() => undefined)
+        reloadSelected = false
+        reloadSessions = false
       }, 250)
     }
-    const onEvent = (event: { data: unknown; name: string }) => {
-      const type = eventType(event.data) ?? event.name
-      if (type.startsWith("session.") || type.startsWith("message.") || type.startsWith("todo.")) {
-        setLiveEventCount((count) => count + 1)
-        scheduleRefresh()
-      }
+    // A reconnect the server could not replay only invalidates what that server reported.
+    let resyncTimer: ReturnType<typeof setTimeout> | undefined
+    const resyncServerIDs = new Set<string>()
+    const scheduleResync = (serverID: string) => {
+      resyncServerIDs.add(serverID)
+      if (resyncTimer !== undefined) return
+      resyncTimer = setTimeout(() => {
+        resyncTimer = undefined
+        const selected = selectedSessionRef.current
+        for (const server of sessionServers.filter((server) => resyncServerIDs.has(server.id))) {
+          streamHandlersRef.current.resyncServer(server).catch(() => undefined)
+          if (selected && server.id === activeProfileRef.current) streamHandlersRef.current.loadSelected(selected.id, selected.directory).catch(() => undefined)
+        }
+        resyncServerIDs.clear()
+      }, 250)
     }
-    const onStatus = (status: EventStreamStatus) => {
-      if (status.type === "connected") {
-        setLiveEventError(null)
-        setEventStreamState("live")
-      }
-      if (status.type === "reconnecting") setEventStreamState("reconnecting")
-      if (status.type === "connection-error") {
-        setLiveEventError(status.error)
-        setEventStreamState("fallback")
+    // Folds message events for the open session into the transcript; anything it cannot place is a gap.
+    const applyLiveMessage = (payload: OpenCodeEvent, serverID: string): "applied" | "ignored" | "gap" => {
+      const selected = selectedSessionRef.current
+      if (!selected || serverID !== activeProfileRef.current) return "ignored"
+      const result = applyMessageEvent(transcriptRef.current, payload, selected.id)
+      if (result.status !== "applied") return result.status
+      transcriptRef.current = result.messages
+      setMessages(result.messages)
+      setOptimisticUserMessages((current) => current.filter((message) => !hasMatchingUserMessage(result.messages, message)))
+      return "applied"
+    }
+    const concernsSelected = (event: OpenCodeEvent, serverID: string) => (
+      serverID === activeProfileRef.current && eventSessionID(event) === selectedSessionRef.current?.id
+    )
+    const dispatcher = createOpenCodeEventDispatcher()
+    dispatcher.onAny(() => setLiveEventCount((count) => count + 1))
+    // A catalogue event in a shape the app cannot apply leaves a hole only a refetch can fill.
+    dispatcher.onInvalid(() => scheduleRefresh())
+    dispatcher.on(PERMISSION_EVENTS, (payload, serverID) => {
+      setPendingPermissions((current) => applyPermissionEvent(current, payload, serverID) ?? current)
+    })
+    dispatcher.on("session.error", (event, serverID) => {
+      // Remembered until the session goes idle, so that transition is reported as an error, not a completion.
+      const { sessionID } = event.properties
+      if (sessionID) erroredSessionsRef.current.add(sessionKey({ id: sessionID, profileID: serverID }))
+    })
+    // The list follows its events; only the open session still needs a fetch for its todos, diff and summary.
+    dispatcher.on(SESSION_LIST_EVENTS, (event, serverID) => {
+      const change = sessionListChange(event)
+      if (change) setSessions((current) => applySessionListChange(current, change, serverID))
+      if (concernsSelected(event, serverID)) scheduleRefresh(true, false)
+    })
+    dispatcher.on(SELECTED_SESSION_EVENTS, (event, serverID) => {
+      if (concernsSelected(event, serverID)) scheduleRefresh(true, false)
+    })
+    dispatcher.on(MESSAGE_EVENTS, (event, serverID) => {
+      const change = sessionListChange(event)
+      if (change) setSessions((current) => applySessionListChange(current, change, serverID))
+      const applied = applyLiveMessage(event, serverID)
+      if (applied === "gap") scheduleRefresh()
+    })
+    // One subscription per server, or per pinned project of a server; the stream only counts as live once every one is connected.
+    const liveStreamIDs = new Set<string>()
+    const streamCount = sessionServers.reduce((count, server) => count + eventStreamTargets(server).length, 0)
+    const subscribe = (config: ServerProfile) => {
+      const onServerEvent = (event: { data: unknown; raw: string }) => {
+        recordDataUsage("events", byteLength(event.raw))
+        dispatcher.dispatch(event.data, config.id)
       }
+      const streams = eventStreamTargets(config).map(({ streamID, directory }) => {
+        const { url, headers } = api.eventStream(config, directory)
+        const onStatus = (status: EventStreamStatus) => {
+          if (status.type === "connected") {
+            // A resumed stream replays what was missed from Last-Event-ID; otherwise this server's state may be behind.
+            if (!status.resumed) scheduleResync(config.id)
+            streamHandlersRef.current.flushOutbox(config).catch(() => undefined)
+            liveStreamIDs.add(streamID)
+            if (liveStreamIDs.size === streamCount) {
+              setLiveEventError(null)
+              setEventStreamState("live")
+            }
+          }
+          if (status.type === "gap") scheduleResync(config.id)
+          if (status.type === "stale") {
+            liveStreamIDs.delete(streamID)
+            setEventStreamState("stale")
+          }
+          if (status.type === "reconnecting") {
+            liveStreamIDs.delete(streamID)
+            // A silent connection stays reported as such until it is back.
+            setEventStreamState((current) => (current === "stale" ? current : "reconnecting"))
+          }
+          if (status.type === "connection-error") {
+            liveStreamIDs.delete(streamID)
+            const source = [sessionServers.length > 1 ? profileLabel(config) : "", directory ?? ""].filter(Boolean).join(" · ")
+            setLiveEventError(source ? `${source}: ${status.error}` : status.error)
+            setEventStreamState("fallback")
+          }
+        }
+        return isNativeEventTransport()
+          ? createNativeOpenCodeEventSubscription({
+              streamID,
+              url,
+              headers,
+              idleTimeoutMs: idleTimeoutSeconds * 1000,
+              onEvent: onServerEvent,
+              onStatus
+            })
+          : createFetchOpenCodeEventSubscription({ url, headers, idleTimeoutMs: idleTimeoutSeconds * 1000, onEvent: onServerEvent, onStatus })
+      })
+      return { close: () => streams.forEach((stream) => stream.close()) }
     }
-    const subscription = isNativeEventTransport()
-      ? createNativeOpenCodeEventSubscription({
-          url,
-          username: config.username,
-          password: config.password,
-          onEvent,
-          onStatus
-        })
-      : createFetchOpenCodeEventSubscription({ url, headers, onEvent, onStatus })
+    const subscriptions = sessionServers.map(subscribe)
     return () => {
       if (refreshTimer !== undefined) clearTimeout(refreshTimer)
-      subscription.close()
+      if (resyncTimer !== undefined) clearTimeout(resyncTimer)
+      subscriptions.forEach((subscription) => subscription.close())
     }
-  }, [config.host, config.port, config.username, config.password])
+    // The active profile is read through activeProfileRef, so switching it in the all-servers view keeps every stream open.
+  }, [sessionServersKey, idleTimeoutSeconds])
 
   useEffect(() => {
     if (!hasConfiguredServer) {
@@ -1009,10 +2057,45 @@ function App() {
     }
   }, [hasConfiguredServer])
 
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current
+    if (!anchor) return
+    scrollAnchorRef.current = null
+    skipAutoScrollRef.current = true
+    const container = messagesRef.current
+    const element = container?.querySelector<HTMLElement>(`[data-message-id="${anchor.id}"]`)
+    if (!container || !element) return
+    const delta = element.getBoundingClientRect().top - anchor.top
+    if (container.scrollHeight > container.clientHeight) container.scrollTop += delta
+    else window.scrollBy(0, delta)
+  }, [renderedMessages])
+
   useEffect(() => {
     if (view !== "detail") return
+    if (skipAutoScrollRef.current) {
+      skipAutoScrollRef.current = false
+      return
+    }
     scrollMessagesToBottom("auto")
-  }, [view, messageScrollSignature, isWorking, showTypingBubble])
+  }, [view, messageScrollSignature, isWorking, showTypingBubble, selectedPermissions.length])
+
+  useEffect(() => {
+    if (view !== "detail" || !hasOlderMessages) return
+    const container = messagesRef.current
+    // The transcript scrolls inside .messages on wide layouts and with the page on phones.
+    function onScroll() {
+      const start = messagesStartRef.current
+      if (!start) return
+      const top = container ? Math.max(container.getBoundingClientRect().top, 0) : 0
+      if (start.getBoundingClientRect().bottom >= top - SCROLL_BACK_THRESHOLD) loadOlderMessages()
+    }
+    container?.addEventListener("scroll", onScroll, { passive: true })
+    window.addEventListener("scroll", onScroll, { passive: true })
+    return () => {
+      container?.removeEventListener("scroll", onScroll)
+      window.removeEventListener("scroll", onScroll)
+    }
+  }, [view, hasOlderMessages, selectedSession, config])
 
   useEffect(() => {
     if (!awaitingAssistantReply) return
@@ -1049,6 +2132,7 @@ function App() {
   const navItems = [
     { view: "sessions" as const, label: t('nav.sessions'), icon: <FolderIcon size={19} />, disabled: !hasConfiguredServer },
     { view: "detail" as const, label: t('nav.detail'), icon: <ChatIcon size={19} />, disabled: !selectedSession },
+    { view: "files" as const, label: t('nav.files'), icon: <FileIcon size={19} />, disabled: !selectedSession },
     { view: "settings" as const, label: t('nav.settings'), icon: <SettingsIcon size={19} />, disabled: false },
     { view: "help" as const, label: t('nav.help'), icon: <HelpIcon size={19} />, disabled: false }
   ]
@@ -1061,9 +2145,22 @@ function App() {
             <img src="/app-icon.png" alt="" className="app-icon" />
             <div>
               <h1>{t('app.title')}</h1>
-              <p className="subtle">
-                {hasConfiguredServer ? `${config.host}:${config.port}` : t('settings.title')}
-              </p>
+              {profileStore.profiles.length > 1 ? (
+                <select
+                  className="profile-switcher"
+                  value={config.id}
+                  onChange={(event) => switchProfile(event.target.value)}
+                  aria-label={t('nav.switchServer')}
+                >
+                  {profileStore.profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>{profileLabel(profile)}</option>
+                  ))}
+                </select>
+              ) : (
+                <p className="subtle">
+                  {hasConfiguredServer ? profileLabel(config) : t('settings.title')}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -1089,38 +2186,300 @@ function App() {
           <div className="section-heading">
             <div>
               <h2>{t('settings.title')}</h2>
-              <p className="subtle">{hasConfiguredServer ? `${config.host}:${config.port}` : t('settings.hostPlaceholder')}</p>
+              <p className="subtle">{hasConfiguredServer ? profileAddress(config) : t('settings.hostPlaceholder')}</p>
               <p className="subtle">{t('settings.draftHint')}</p>
             </div>
           </div>
 
+          <div className="profile-section">
+            <div className="profile-section-header">
+              <div>
+                <h3>{t('settings.profilesTitle')}</h3>
+                <p className="subtle">{t('settings.profilesHint')}</p>
+              </div>
+              <button type="button" className="btn-secondary" onClick={() => editProfile(createProfile())}>
+                <PlusIcon size={16} />
+                {t('settings.addProfile')}
+              </button>
+            </div>
+            {profileStore.profiles.length === 0 ? (
+              <p className="subtle">{t('settings.profilesEmpty')}</p>
+            ) : (
+              <div className="profile-list">
+                {profileStore.profiles.map((profile) => (
+                  <div key={profile.id} className={`profile-row ${draftConfig.id === profile.id ? "editing" : ""}`}>
+                    <div className="profile-row-main">
+                      <strong>{profileLabel(profile)}</strong>
+                      <small>{profileAddress(profile)}</small>
+                      <span className="profile-badges">
+                        {profile.id === config.id && <span className="pill idle">{t('settings.profileActive')}</span>}
+                        {profile.id === profileStore.defaultID && <span className="pill profile-default">{t('settings.profileDefault')}</span>}
+                      </span>
+                    </div>
+                    <div className="inline-actions">
+                      <button type="button" className="btn-secondary compact" onClick={() => editProfile(profile)} disabled={draftConfig.id === profile.id}>
+                        <PencilIcon size={14} />
+                        {t('settings.editProfile')}
+                      </button>
+                      <button type="button" className="btn-primary compact" onClick={() => switchProfile(profile.id)} disabled={profile.id === config.id}>
+                        <PlayIcon size={14} />
+                        {t('settings.useProfile')}
+                      </button>
+                      <button type="button" className="btn-secondary compact" onClick={() => setDefaultProfile(profile.id)} disabled={profile.id === profileStore.defaultID}>
+                        {t('settings.setDefaultProfile')}
+                      </button>
+                      <button type="button" className="btn-danger compact" onClick={() => setProfileToDelete(profile)}>
+                        <TrashIcon size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {credentialState !== "native" && (
+            <div className="profile-section credentials">
+              <div className="profile-section-header">
+                <div>
+                  <h3>{t('credentials.title')}</h3>
+                  <p className="subtle">
+                    {credentialState === "unlocked"
+                      ? t('credentials.encrypted')
+                      : credentialState === "locked"
+                        ? t('credentials.locked')
+                        : vaultSupported()
+                          ? t('credentials.plain')
+                          : t('credentials.unsupported')}
+                  </p>
+                </div>
+              </div>
+              {credentialState === "locked" && (
+                <div className="form-grid">
+                  <label htmlFor="vault-passphrase">
+                    {t('credentials.passphrase')}
+                    <input
+                      id="vault-passphrase"
+                      type="password"
+                      value={passphrase}
+                      onChange={(event) => setPassphrase(event.target.value)}
+                      onKeyDown={(event) => event.key === "Enter" && unlockPasswords()}
+                    />
+                  </label>
+                  <div className="actions">
+                    <button type="button" className="btn-primary" onClick={unlockPasswords} disabled={unlockingVault || !passphrase}>
+                      {unlockingVault && <LoadingIcon size={18} />}
+                      {t('credentials.unlock')}
+                    </button>
+                    <button type="button" className="btn-danger" onClick={resetPasswordVault}>
+                      {t('credentials.reset')}
+                    </button>
+                  </div>
+                </div>
+              )}
+              {credentialState === "plain" && vaultSupported() && (
+                <div className="form-grid">
+                  <label htmlFor="new-passphrase">
+                    {t('credentials.passphrase')}
+                    <input id="new-passphrase" type="password" value={passphrase} onChange={(event) => setPassphrase(event.target.value)} />
+                  </label>
+                  <label htmlFor="confirm-passphrase">
+                    {t('credentials.passphraseConfirm')}
+                    <input id="confirm-passphrase" type="password" value={passphraseConfirm} onChange={(event) => setPassphraseConfirm(event.target.value)} />
+                  </label>
+                  <div className="actions">
+                    <button type="button" className="btn-primary" onClick={protectPasswords} disabled={unlockingVault || !passphrase}>
+                      {unlockingVault && <LoadingIcon size={18} />}
+                      {t('credentials.protect')}
+                    </button>
+                  </div>
+                </div>
+              )}
+              {passphraseError && <p className="error">{passphraseError}</p>}
+            </div>
+          )}
+
+          <div className="profile-section app-lock-settings">
+            <div className="profile-section-header">
+              <div>
+                <h3>{t('appLock.settingsTitle')}</h3>
+                <p className="subtle">{appLockSupported() ? t('appLock.settingsHint') : t('appLock.unsupported')}</p>
+              </div>
+            </div>
+            {appLockSupported() && (
+              <div className="form-grid">
+                <label htmlFor="app-lock-enabled">
+                  {t('appLock.enabled')}
+                  <select
+                    id="app-lock-enabled"
+                    value={appLock.enabled ? "on" : "off"}
+                    onChange={(event) => setAppLockEnabled(event.target.value === "on")}
+                    disabled={!appLock.pin}
+                  >
+                    <option value="on">{t('settings.toggleOn')}</option>
+                    <option value="off">{t('settings.toggleOff')}</option>
+                  </select>
+                  {!appLock.pin && <span className="subtle">{t('appLock.needsPin')}</span>}
+                </label>
+                <label htmlFor="app-lock-timeout">
+                  {t('appLock.timeout')}
+                  <select
+                    id="app-lock-timeout"
+                    value={appLock.timeoutMinutes}
+                    onChange={(event) => changeAppLock({ ...appLock, timeoutMinutes: Number(event.target.value) })}
+                  >
+                    {APP_LOCK_TIMEOUTS.map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes === 0 ? t('appLock.timeoutLaunch') : t('appLock.timeoutMinutes', { minutes })}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label htmlFor="app-lock-actions">
+                  {t('appLock.protectActions')}
+                  <select
+                    id="app-lock-actions"
+                    value={appLock.protectActions ? "on" : "off"}
+                    onChange={(event) => changeAppLock({ ...appLock, protectActions: event.target.value === "on" })}
+                  >
+                    <option value="on">{t('settings.toggleOn')}</option>
+                    <option value="off">{t('settings.toggleOff')}</option>
+                  </select>
+                  <span className="subtle">{t('appLock.protectActionsHint')}</span>
+                </label>
+                <label htmlFor="app-lock-pin">
+                  {appLock.pin ? t('appLock.newPin') : t('appLock.pin')}
+                  <input
+                    id="app-lock-pin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={newPin}
+                    onChange={(event) => setNewPin(event.target.value.replace(/\D/g, ""))}
+                  />
+                </label>
+                <label htmlFor="app-lock-pin-confirm">
+                  {t('appLock.pinConfirm')}
+                  <input
+                    id="app-lock-pin-confirm"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={newPinConfirm}
+                    onChange={(event) => setNewPinConfirm(event.target.value.replace(/\D/g, ""))}
+                    onKeyDown={(event) => event.key === "Enter" && saveAppLockPin()}
+                  />
+                </label>
+                <div className="actions">
+                  <button type="button" className="btn-primary" onClick={saveAppLockPin} disabled={!newPin}>
+                    {appLock.pin ? t('appLock.changePin') : t('appLock.setPin')}
+                  </button>
+                </div>
+                {pinError && <p className="error">{pinError}</p>}
+              </div>
+            )}
+          </div>
+
+          <div className="profile-section app-preferences">
+            <div className="profile-section-header">
+              <div>
+                <h3>{t('settings.appPreferences')}</h3>
+                <p className="subtle">{t('settings.appPreferencesHint')}</p>
+              </div>
+            </div>
+            <div className="form-grid">
+            <label htmlFor="language">
+              {t('settings.language')}
+              <select
+                id="language"
+                value={language}
+                onChange={(event) => setLanguage(normalizeLanguage(event.target.value))}
+              >
+                {languageOptions.map((option) => (
+                  <option key={option.code} value={option.code}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label htmlFor="theme">
+              {t('settings.theme')}
+              <select
+                id="theme"
+                value={theme}
+                onChange={(event) => setTheme(event.target.value as ThemePreference)}
+              >
+                <option value="system">{t('settings.themeSystem')}</option>
+                <option value="light">{t('settings.themeLight')}</option>
+                <option value="dark">{t('settings.themeDark')}</option>
+              </select>
+            </label>
+
+            {notificationsSupported() && (
+              <label htmlFor="notifications">
+                {t('settings.notifications')}
+                <select
+                  id="notifications"
+                  value={notificationsEnabled ? "on" : "off"}
+                  onChange={(event) => setNotificationsEnabled(event.target.value === "on")}
+                >
+                  <option value="on">{t('settings.toggleOn')}</option>
+                  <option value="off">{t('settings.toggleOff')}</option>
+                </select>
+                <span className="subtle">{t('settings.notificationsHint')}</span>
+              </label>
+            )}
+
+            {isNativeEventTransport() && (
+              <label htmlFor="background-stream">
+                {t('settings.backgroundStream')}
+                <select
+                  id="background-stream"
+                  value={backgroundStreamEnabled ? "on" : "off"}
+                  onChange={(event) => setBackgroundStreamEnabled(event.target.value === "on")}
+                >
+                  <option value="on">{t('settings.toggleOn')}</option>
+                  <option value="off">{t('settings.toggleOff')}</option>
+                </select>
+                <span className="subtle">{t('settings.backgroundStreamHint')}</span>
+              </label>
+            )}
+
+            <label htmlFor="idle-timeout">
+              {t('settings.idleTimeout')}
+              <input
+                id="idle-timeout"
+                type="number"
+                min={0}
+                max={MAX_IDLE_TIMEOUT_SECONDS}
+                step={1}
+                defaultValue={idleTimeoutSeconds}
+                // Applied when the field is left, so typing a number does not reopen every stream per digit.
+                onBlur={(event) => {
+                  const seconds = normalizeIdleTimeoutSeconds(event.target.value)
+                  if (seconds === null) event.target.value = String(idleTimeoutSeconds)
+                  else setIdleTimeoutSeconds(seconds)
+                }}
+              />
+              <span className="subtle">{t('settings.idleTimeoutHint')}</span>
+            </label>
+            </div>
+          </div>
+
+          <h3 className="profile-form-title">
+            {savedDraftProfile ? t('settings.editingProfile', { name: profileLabel(savedDraftProfile) }) : t('settings.newProfile')}
+          </h3>
+
           <div className="form-grid">
-          <label htmlFor="language">
-            {t('settings.language')}
-            <select
-              id="language"
-              value={language}
-              onChange={(event) => setLanguage(normalizeLanguage(event.target.value))}
-            >
-              {languageOptions.map((option) => (
-                <option key={option.code} value={option.code}>{option.label}</option>
-              ))}
-            </select>
+          <label htmlFor="profile-name">
+            {t('settings.profileName')}
+            <input
+              id="profile-name"
+              value={draftConfig.name}
+              onChange={(event) => setDraftConfig({ ...draftConfig, name: event.target.value })}
+              placeholder={t('settings.profileNamePlaceholder')}
+            />
           </label>
 
-          <label htmlFor="theme">
-            {t('settings.theme')}
-            <select
-              id="theme"
-              value={theme}
-              onChange={(event) => setTheme(event.target.value as ThemePreference)}
-            >
-              <option value="system">{t('settings.themeSystem')}</option>
-              <option value="light">{t('settings.themeLight')}</option>
-              <option value="dark">{t('settings.themeDark')}</option>
-            </select>
-          </label>
-          
           <label htmlFor="host">
             {t('settings.host')}
             <input 
@@ -1136,38 +2495,167 @@ function App() {
             <input
               id="port"
               type="number"
-              value={draftConfig.port}
+              min={0}
+              max={65535}
+              value={draftConfig.port || ""}
               onChange={(event) => setDraftConfig({ ...draftConfig, port: Number(event.target.value || 0) })}
               placeholder="4096"
             />
+            <span className="subtle">{t('settings.portHint')}</span>
           </label>
-          
-          <label htmlFor="username">
-            {t('settings.username')}
+
+          <label htmlFor="base-path">
+            {t('settings.basePath')}
             <input
-              id="username"
-              value={draftConfig.username}
-              onChange={(event) => setDraftConfig({ ...draftConfig, username: event.target.value })}
-              placeholder="opencode"
+              id="base-path"
+              value={draftConfig.basePath ?? ""}
+              onChange={(event) => setDraftConfig({ ...draftConfig, basePath: event.target.value })}
+              placeholder="/opencode"
+              autoCapitalize="off"
+              autoCorrect="off"
+              spellCheck={false}
             />
+            <span className="subtle">{t('settings.basePathHint')}</span>
           </label>
           
-          <label htmlFor="password">
-            {t('settings.password')}
-            <input
-              id="password"
-              type="password"
-              value={draftConfig.password}
-              onChange={(event) => setDraftConfig({ ...draftConfig, password: event.target.value })}
-              placeholder={t('settings.passwordPlaceholder')}
+          <label htmlFor="auth-mode">
+            {t('settings.authMode')}
+            <select
+              id="auth-mode"
+              value={authMode(draftConfig)}
+              onChange={(event) => setDraftConfig({ ...draftConfig, authMode: event.target.value as AuthMode })}
+            >
+              {AUTH_MODES.map((mode) => (
+                <option key={mode} value={mode}>{t(`settings.authMode.${mode}`)}</option>
+              ))}
+            </select>
+            <span className="subtle">{t('settings.authModeHint')}</span>
+          </label>
+
+          {authMode(draftConfig) === "basic" && (
+            <>
+              <label htmlFor="username">
+                {t('settings.username')}
+                <input
+                  id="username"
+                  value={draftConfig.username}
+                  onChange={(event) => setDraftConfig({ ...draftConfig, username: event.target.value })}
+                  placeholder="opencode"
+                />
+              </label>
+
+              <label htmlFor="password">
+                {t('settings.password')}
+                <input
+                  id="password"
+                  type="password"
+                  value={draftConfig.password}
+                  onChange={(event) => setDraftConfig({ ...draftConfig, password: event.target.value })}
+                  placeholder={t('settings.passwordPlaceholder')}
+                />
+              </label>
+            </>
+          )}
+
+          {authMode(draftConfig) === "bearer" && (
+            <label htmlFor="token">
+              {t('settings.token')}
+              <input
+                id="token"
+                type="password"
+                autoComplete="off"
+                value={draftConfig.token ?? ""}
+                onChange={(event) => setDraftConfig({ ...draftConfig, token: event.target.value })}
+                placeholder={t('settings.tokenPlaceholder')}
+              />
+            </label>
+          )}
+
+          {authMode(draftConfig) === "headers" && (
+            <label htmlFor="custom-headers">
+              {t('settings.customHeaders')}
+              <textarea
+                id="custom-headers"
+                rows={3}
+                spellCheck={false}
+                autoComplete="off"
+                value={draftConfig.customHeaders ?? ""}
+                onChange={(event) => setDraftConfig({ ...draftConfig, customHeaders: event.target.value })}
+                placeholder={"CF-Access-Client-Id: …\nCF-Access-Client-Secret: …"}
+              />
+              <span className="subtle">{t('settings.customHeadersHint')}</span>
+              {parseCustomHeaders(draftConfig.customHeaders ?? "").invalid.map((line) => (
+                <span key={line} className="error">{t('settings.customHeadersInvalid', { line })}</span>
+              ))}
+            </label>
+          )}
+
+          <label htmlFor="pinned-directories">
+            {t('settings.pinnedDirectories')}
+            <textarea
+              id="pinned-directories"
+              rows={3}
+              value={(draftConfig.pinnedDirectories ?? []).join("\n")}
+              onChange={(event) => setDraftConfig({ ...draftConfig, pinnedDirectories: event.target.value.split("\n") })}
+              placeholder={t('settings.pinnedDirectoriesPlaceholder')}
             />
+            <span className="subtle">{t('settings.pinnedDirectoriesHint')}</span>
           </label>
+
+          {customTrustSupported() && (
+            <>
+              <label htmlFor="certificate-pins">
+                {t('tls.pins')}
+                <textarea
+                  id="certificate-pins"
+                  className="certificate-fingerprint"
+                  rows={2}
+                  spellCheck={false}
+                  value={(draftConfig.certificatePins ?? []).join("\n")}
+                  onChange={(event) => setDraftConfig({ ...draftConfig, certificatePins: event.target.value.split("\n") })}
+                  placeholder="AB:CD:EF:…"
+                />
+                <span className="subtle">{t('tls.pinsHint')}</span>
+                {(draftConfig.certificatePins ?? []).filter((pin) => pin.trim() && !normalizeFingerprint(pin)).map((pin) => (
+                  <span key={pin} className="error">{t('tls.pinInvalid', { pin: pin.trim() })}</span>
+                ))}
+              </label>
+
+              <label htmlFor="certificates">
+                {t('tls.certificates')}
+                <textarea
+                  id="certificates"
+                  className="certificate-fingerprint"
+                  rows={3}
+                  spellCheck={false}
+                  value={draftConfig.certificates ?? ""}
+                  onChange={(event) => setDraftConfig({ ...draftConfig, certificates: event.target.value })}
+                  placeholder="-----BEGIN CERTIFICATE-----"
+                />
+                <span className="subtle">{t('tls.certificatesHint')}</span>
+                <input
+                  type="file"
+                  accept=".pem,.crt,.cer,.der"
+                  aria-label={t('tls.importFile')}
+                  onChange={(event) => {
+                    const file = event.target.files?.[0]
+                    event.target.value = ""
+                    if (file) void importCertificateFile(file)
+                  }}
+                />
+              </label>
+              {!httpsEndpoint(serverURL(draftConfig)) && (certificatePins(draftConfig).length > 0 || draftConfig.certificates?.trim()) && (
+                <p className="subtle">{t('tls.needsHttps')}</p>
+              )}
+            </>
+          )}
           </div>
           
           <div className="actions">
             <button 
               onClick={saveConfig} 
-              disabled={testingConnection || !hasDraftChanges}
+              disabled={testingConnection || !hasDraftChanges || credentialState === "locked"}
+              title={credentialState === "locked" ? t('credentials.unlockToSave') : undefined}
               className="btn-primary"
             >
               <SaveIcon size={18} />
@@ -1191,6 +2679,14 @@ function App() {
                 </>
               )}
             </button>
+            <button
+              onClick={() => setView("diagnostics")}
+              className="btn-secondary"
+              disabled={!draftConfig.host.trim()}
+            >
+              <HelpIcon size={18} />
+              {t('settings.diagnostics')}
+            </button>
           </div>
           
           {settingsNotice && (
@@ -1213,6 +2709,29 @@ function App() {
               {t('settings.connectedTo', { version: connectedVersion })}
             </div>
           )}
+
+          <div className="profile-section data-usage">
+            <div className="profile-section-header">
+              <div>
+                <h3>{t('settings.dataUsage')}</h3>
+                <p className="subtle">{t('settings.dataUsageSince', { time: formatTime(dataUsage.since) })}</p>
+              </div>
+              <button type="button" className="btn-secondary" onClick={() => setDataUsage(resetDataUsage())}>
+                {t('settings.dataUsageReset')}
+              </button>
+            </div>
+            <strong className="data-usage-total">{formatBytes(dataUsage.requests + dataUsage.events)}</strong>
+            <p className="subtle">
+              {t('settings.dataUsageBreakdown', { requests: formatBytes(dataUsage.requests), events: formatBytes(dataUsage.events) })}
+            </p>
+            <p className="subtle">{pollingFallback ? t('settings.dataUsagePolling') : t('settings.dataUsageLive')}</p>
+          </div>
+        </section>
+      )}
+
+      {view === "diagnostics" && (
+        <section className="panel diagnostics fade-in">
+          <Diagnostics config={draftConfig} t={t} trust={trustedServers([draftConfig], serverURL)} onClose={() => setView("settings")} />
         </section>
       )}
 
@@ -1230,14 +2749,33 @@ function App() {
                   {connectionStatusText}
                 </p>
               )}
+              {staleSince !== null && (
+                <p className="connection-status stale">{t('connection.staleCopy', { time: formatTime(staleSince) })}</p>
+              )}
               {eventStreamText && (
                 <p className={`connection-status event-stream ${eventStreamState}`}>
-                  {['connecting', 'reconnecting'].includes(eventStreamState) && <LoadingIcon size={14} />}
+                  {['connecting', 'reconnecting', 'stale'].includes(eventStreamState) && <LoadingIcon size={14} />}
                   {eventStreamText}
                 </p>
               )}
+              {isAggregatedView && unreachableServerIDs.length > 0 && (
+                <p className="connection-status offline">
+                  {t('sessions.serversUnreachable', {
+                    servers: sessionServers.filter((server) => unreachableServerIDs.includes(server.id)).map(profileLabel).join(", ")
+                  })}
+                </p>
+              )}
             </div>
             <div className="inline-actions">
+              {profileStore.profiles.length > 1 && (
+                <button
+                  onClick={() => setShowAllServers((value) => !value)}
+                  className={showAllServers ? "btn-secondary toggle-active" : "btn-secondary"}
+                  aria-pressed={showAllServers}
+                >
+                  {showAllServers ? t('sessions.allServers') : t('sessions.thisServer')}
+                </button>
+              )}
               <button onClick={refreshSessionsWithIndicator} className="btn-secondary" disabled={refreshingSessions}>
                 {refreshingSessions ? <LoadingIcon size={18} /> : <RefreshIcon size={18} />}
                 {t('sessions.refresh')}
@@ -1274,15 +2812,15 @@ function App() {
             ) : (
               filteredSessions.map((session) => (
                 <article 
-                  key={session.id} 
-                  className={`session-card ${selectedID === session.id ? "active" : ""} fade-in`}
-                  onClick={() => openSession(session.id, session.directory).catch(() => undefined)}
+                  key={`${session.profileID ?? ""}:${session.id}`} 
+                  className={`session-card ${selectedID === session.id ? "active" : ""} ${permissionSessionKeys.has(`${session.profileID ?? ""}:${session.id}`) ? "awaiting-permission" : ""} fade-in`}
+                  onClick={() => openSession(session.id, session.directory, session.profileID).catch(() => undefined)}
                   role="button"
                   tabIndex={0}
                   onKeyDown={(event) => {
                     if (event.key === "Enter" || event.key === " ") {
                       event.preventDefault()
-                      openSession(session.id, session.directory).catch(() => undefined)
+                      openSession(session.id, session.directory, session.profileID).catch(() => undefined)
                     }
                   }}
                 >
@@ -1342,9 +2880,16 @@ function App() {
                       ) : (
                         <h3>{session.title}</h3>
                       )}
+                      {isAggregatedView && session.profileID && (
+                        <span className="session-server">{profileLabel(sessionServer(session))}</span>
+                      )}
                       <p>{session.directory}</p>
                     </div>
-                    <span className={`pill ${session.status}`}>{session.status}</span>
+                    {permissionSessionKeys.has(`${session.profileID ?? ""}:${session.id}`) ? (
+                      <span className="pill permission">{t('permissions.awaiting')}</span>
+                    ) : (
+                      <span className={`pill ${session.status}`}>{session.status}</span>
+                    )}
                   </div>
                   <div className="session-stats">
                     {session.files > 0 || session.additions > 0 || session.deletions > 0 ? (
@@ -1362,7 +2907,7 @@ function App() {
                     <button
                       onClick={(event) => {
                         event.stopPropagation()
-                        openSession(session.id, session.directory).catch(() => undefined)
+                        openSession(session.id, session.directory, session.profileID).catch(() => undefined)
                       }}
                       className="btn-primary"
                     >
@@ -1462,6 +3007,9 @@ function App() {
               setView("sessions");
               requestAnimationFrame(() => document.querySelector<HTMLElement>(".session-card.active")?.scrollIntoView({ block: "center" }));
             }}>{t('detail.backToSessions')}</button>
+            {staleSince !== null && (
+              <span className="pill stale" title={t('connection.staleCopy', { time: formatTime(staleSince) })}>{t('connection.stale')}</span>
+            )}
             {selectedSession && (
               <span className={`pill ${selectedSession.status}`}>{selectedSession.status}</span>
             )}
@@ -1592,7 +3140,7 @@ function App() {
                 <LoadingIcon size={32} />
                 <p>{t('detail.loading')}</p>
               </div>
-            ) : renderedMessages.length === 0 && !showTypingBubble ? (
+            ) : renderedMessages.length === 0 && !showTypingBubble && selectedPermissions.length === 0 && selectedOutbox.length === 0 ? (
               <div className="empty-state compact">
                 <ChatIcon size={40} className="icon-empty-state" />
                 <p>{t('detail.emptyTitle')}</p>
@@ -1600,8 +3148,31 @@ function App() {
               </div>
             ) : (
               <>
+                {hasOlderMessages && (
+                  <div className="messages-start" ref={messagesStartRef}>
+                    <button type="button" className="btn-secondary compact" onClick={loadOlderMessages} disabled={loadingOlderMessages}>
+                      {loadingOlderMessages ? <LoadingIcon size={14} /> : null}
+                      {loadingOlderMessages ? t('detail.loadingOlder') : t('detail.loadOlder')}
+                    </button>
+                  </div>
+                )}
                 {renderedMessages.map((message) => (
-                  <article key={message.info.id} className={`message ${message.info.role} fade-in`}>
+                  <article
+                    key={message.info.id}
+                    data-message-id={message.info.id}
+                    className={`message ${message.info.role} fade-in`}
+                    onPointerDown={(event) => {
+                      if (event.button === 0) startLongPress(message.info.id)
+                    }}
+                    onPointerUp={cancelLongPress}
+                    onPointerLeave={cancelLongPress}
+                    onPointerCancel={cancelLongPress}
+                    onContextMenu={(event) => {
+                      event.preventDefault()
+                      cancelLongPress()
+                      requestRevert(message.info.id)
+                    }}
+                  >
                     <header>
                       <strong>
                         {message.info.role === "user" ? t('detail.you') : t('detail.opencode')}
@@ -1609,9 +3180,59 @@ function App() {
                       <small>{formatTime(message.info.time.created)}</small>
                     </header>
                     <div className="message-content">
-                      <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                        {normalizeMessageMarkdown(message.text)}
-                      </ReactMarkdown>
+                      {message.visibleParts.map((part) => part.type === "text" ? (
+                        <ReactMarkdown key={part.id} remarkPlugins={[remarkGfm]}>
+                          {normalizeMessageMarkdown(part.text.trim())}
+                        </ReactMarkdown>
+                      ) : (
+                        <MessagePartCard key={part.id} part={part} t={t} />
+                      ))}
+                    </div>
+                  </article>
+                ))}
+                {selectedOutbox.map((item) => (
+                  <article key={item.id} className={`message user outbox ${item.rejected ? "rejected" : ""} fade-in`}>
+                    <header>
+                      <strong>{t('detail.you')}</strong>
+                      <small>{item.rejected ? t('outbox.rejected') : t('outbox.queued')}</small>
+                    </header>
+                    <div className="message-content">
+                      <p>{item.text}</p>
+                      {item.attachments.length > 0 && <small>{t('outbox.attachments', { count: item.attachments.length })}</small>}
+                      {item.error && <p className="error">{item.error}</p>}
+                    </div>
+                    <div className="outbox-actions">
+                      <button type="button" className="btn-secondary compact" onClick={() => retryOutboxItem(item.id)}>
+                        {t('outbox.retry')}
+                      </button>
+                      <button type="button" className="btn-secondary compact" onClick={() => cancelOutboxItem(item.id)}>
+                        {t('outbox.cancel')}
+                      </button>
+                    </div>
+                  </article>
+                ))}
+                {selectedPermissions.map((permission) => (
+                  <article key={permission.id} className="permission-card fade-in" aria-live="polite">
+                    <header>
+                      <strong>{t('permissions.title', { permission: permission.permission })}</strong>
+                      {permission.created && <small>{formatTime(permission.created)}</small>}
+                    </header>
+                    {permission.title && <p>{permission.title}</p>}
+                    {permission.patterns.length > 0 && (
+                      <ul className="permission-patterns">
+                        {permission.patterns.map((pattern) => <li key={pattern}><code>{pattern}</code></li>)}
+                      </ul>
+                    )}
+                    <div className="inline-actions">
+                      <button className="btn-primary" disabled={answeringPermissionID === permission.id} onClick={() => answerPermission(permission, "once")}>
+                        {t('permissions.allowOnce')}
+                      </button>
+                      <button className="btn-secondary" disabled={answeringPermissionID === permission.id} onClick={() => answerPermission(permission, "always")}>
+                        {t('permissions.allowAlways')}
+                      </button>
+                      <button className="btn-danger" disabled={answeringPermissionID === permission.id} onClick={() => answerPermission(permission, "reject")}>
+                        {t('permissions.reject')}
+                      </button>
                     </div>
                   </article>
                 ))}
@@ -1631,6 +3252,69 @@ function App() {
           </div>
 
           <div className="composer" ref={composerRef}>
+            {selectedRevert && (
+              <div className="revert-banner">
+                <UndoIcon size={16} />
+                <span>{t('revert.banner', { count: revertedCount })}</span>
+                <button type="button" className="btn-secondary compact" onClick={unrevertSession} disabled={reverting || isWorking}>
+                  {t('revert.unrevert')}
+                </button>
+              </div>
+            )}
+            {attachments.length > 0 && (
+              <ul className="composer-attachments">
+                {attachments.map((attachment) => (
+                  <li key={attachment.id} className={attachmentsSupported ? "" : "unsupported"}>
+                    {attachment.mime.startsWith("image/") && <img src={attachment.url} alt="" />}
+                    <span className="attachment-name">{attachment.filename}</span>
+                    <small>{formatBytes(attachment.size)}</small>
+                    <button className="btn-secondary compact" onClick={() => removeAttachment(attachment.id)} title={t('composer.removeAttachment')}>
+                      <CloseIcon size={14} />
+                    </button>
+                  </li>
+                ))}
+                {!attachmentsSupported && <li className="attachment-warning">{t('composer.attachmentsUnsupported')}</li>}
+              </ul>
+            )}
+            <div className="composer-tools">
+              <input
+                ref={attachmentInputRef}
+                type="file"
+                multiple
+                hidden
+                onChange={(event) => {
+                  addAttachments(event.target.files).catch(() => undefined)
+                  event.target.value = ""
+                }}
+              />
+              <input
+                ref={cameraInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                hidden
+                onChange={(event) => {
+                  addAttachments(event.target.files).catch(() => undefined)
+                  event.target.value = ""
+                }}
+              />
+              <button
+                className="btn-secondary compact"
+                onClick={() => cameraInputRef.current?.click()}
+                disabled={!selectedSession || isWorking || !attachmentsSupported}
+                title={attachmentsSupported ? t('composer.takePhoto') : t('composer.attachmentsUnsupported')}
+              >
+                <CameraIcon size={18} />
+              </button>
+              <button
+                className="btn-secondary compact"
+                onClick={() => attachmentInputRef.current?.click()}
+                disabled={!selectedSession || isWorking || !attachmentsSupported}
+                title={attachmentsSupported ? t('composer.attachFile') : t('composer.attachmentsUnsupported')}
+              >
+                <PaperclipIcon size={18} />
+              </button>
+            </div>
             <textarea
               value={composer}
               onChange={(event) => setComposer(event.target.value)}
@@ -1692,10 +3376,12 @@ function App() {
                 <h3 id="detail-sheet-title">
                   {activeDetailSheet === "ai" && t('detail.aiTitle')}
                   {activeDetailSheet === "details" && t('detail.sessionDetailsTitle')}
+                  {activeDetailSheet === "changes" && t('detail.changedFilesTitle')}
                 </h3>
                 <p className="subtle">
                   {activeDetailSheet === "ai" && t('detail.modelHint')}
                   {activeDetailSheet === "details" && t('detail.sessionDetailsHint')}
+                  {activeDetailSheet === "changes" && t('detail.changedFilesHint')}
                 </p>
               </div>
               <button type="button" className="btn-secondary compact" onClick={() => setActiveDetailSheet(null)}>
@@ -1786,6 +3472,12 @@ function App() {
               </div>
             )}
 
+            {activeDetailSheet === "changes" && (
+              <div className="sheet-content" aria-label={t('detail.miniDiffAria')}>
+                <DiffViewer files={diffFiles} t={t} />
+              </div>
+            )}
+
             {activeDetailSheet === "details" && (
               <div className="sheet-content project-dashboard single-column">
                 <div className="dashboard-card">
@@ -1800,15 +3492,19 @@ function App() {
                     <small>{t('detail.aheadBehind', { ahead: projectDashboard.vcs.ahead ?? 0, behind: projectDashboard.vcs.behind ?? 0 })}</small>
                   )}
                 </div>
-                <div className="dashboard-card">
-                  <span className="dashboard-label">{t('detail.fileStatusLabel')}</span>
-                  <strong>{diffFiles.length > 0 ? t('detail.filesCount', { count: diffFiles.length }) : (projectDashboard?.files.length ?? 0)}</strong>
-                  {diffFiles.length > 0 ? (
-                    <small><span className="positive">+{totalDiffAdditions}</span> <span className="negative">-{totalDiffDeletions}</span></small>
-                  ) : (
+                {diffFiles.length > 0 ? (
+                  <button type="button" className="dashboard-card dashboard-card-action" onClick={() => setActiveDetailSheet("changes")}>
+                    <span className="dashboard-label">{t('detail.fileStatusLabel')}</span>
+                    <strong>{diffFiles.length > 0 ? t('detail.filesCount', { count: diffFiles.length }) : (projectDashboard?.files.length ?? 0)}</strong>
+                    <small><span className="positive">+{totalDiffAdditions}</span> <span className="negative">-{totalDiffDeletions}</span> · {t('diff.review')}</small>
+                  </button>
+                ) : (
+                  <div className="dashboard-card">
+                    <span className="dashboard-label">{t('detail.fileStatusLabel')}</span>
+                    <strong>{projectDashboard?.files.length ?? 0}</strong>
                     <small>{dashboardError ? t('detail.dashboardError', { message: dashboardError }) : t('detail.fileStatusSource')}</small>
-                  )}
-                </div>
+                  </div>
+                )}
                 <div className="dashboard-card">
                   <span className="dashboard-label">{t('detail.agentTitle')}</span>
                   <strong>{agentLabel(activeAgent ?? { id: activeAgentID, name: activeAgentID, mode: "primary" })}</strong>
@@ -1852,6 +3548,171 @@ function App() {
         </div>
       )}
 
+      {revertMessageID && (
+        <div className="modal-backdrop" role="presentation" onClick={() => setRevertMessageID(null)}>
+          <section
+            className="modal-card fade-in"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="revert-title"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <h2 id="revert-title">{t('revert.title')}</h2>
+            <p>{t('revert.body')}</p>
+            {filesToRevert.length > 0 ? (
+              <ul className="revert-files">
+                {filesToRevert.map((file) => (
+                  <li key={file.file}>
+                    <span>{file.file}</span>
+                    <small><span className="positive">+{file.additions}</span> <span className="negative">-{file.deletions}</span></small>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="subtle">{t('revert.noFiles')}</p>
+            )}
+            <div className="modal-actions">
+              <button className="btn-secondary" onClick={() => setRevertMessageID(null)}>
+                {t('session.cancel')}
+              </button>
+              <button className="btn-danger" onClick={() => revertFromMessage(revertMessageID)} disabled={reverting}>
+                <UndoIcon size={16} />
+                {t('revert.confirm')}
+              </button>
+            </div>
+          </section>
+        </div>
+      )}
+
+      {credentialState === "locked" && !vaultPromptDismissed && (
+        <div className="modal-backdrop" role="presentation">
+          <section className="modal-card fade-in" role="dialog" aria-modal="true" aria-labelledby="unlock-vault-title">
+            <h2 id="unlock-vault-title">{t('credentials.unlockTitle')}</h2>
+            <p className="subtle">{t('credentials.unlockBody')}</p>
+            <input
+              type="password"
+              aria-label={t('credentials.passphrase')}
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              onKeyDown={(event) => event.key === "Enter" && unlockPasswords()}
+              autoFocus
+            />
+            {passphraseError && <p className="error">{passphraseError}</p>}
+            <div className="modal-actions">
+              <button className="btn-secondary" onClick={() => setVaultPromptDismissed(true)}>
+                {t('credentials.notNow')}
+              </button>
+              <button className="btn-primary" onClick={unlockPasswords} disabled={unlockingVault || !passphrase}>
+                {unlockingVault && <LoadingIcon size={16} />}
+                {t('credentials.unlock')}
+              </button>
+            </div>
+          </section>
+        </div>
+      )}
+
+      {certificatePrompt && (
+        <div className="modal-backdrop" role="presentation">
+          <section className="modal-card fade-in" role="dialog" aria-modal="true" aria-labelledby="certificate-title">
+            <h2 id="certificate-title">{t('tls.promptTitle')}</h2>
+            <p>{t('tls.promptBody', { server: `${certificatePrompt.certificate.host}:${certificatePrompt.certificate.port}` })}</p>
+            <dl className="certificate-details">
+              <dt>{t('tls.subject')}</dt>
+              <dd>{certificatePrompt.certificate.subject}</dd>
+              <dt>{t('tls.issuer')}</dt>
+              <dd>{certificatePrompt.certificate.issuer}</dd>
+              <dt>{t('tls.validity')}</dt>
+              <dd>
+                {new Date(certificatePrompt.certificate.notBefore).toLocaleDateString()} – {new Date(certificatePrompt.certificate.notAfter).toLocaleDateString()}
+              </dd>
+              <dt>SHA-256</dt>
+              <dd className="certificate-fingerprint">{certificatePrompt.certificate.fingerprint}</dd>
+            </dl>
+            <p className="subtle">{t('tls.promptCompare')}</p>
+            <div className="modal-actions">
+              <button className="btn-secondary" onClick={declinePromptedCertificate}>
+                {t('tls.decline')}
+              </button>
+              <button className="btn-primary" onClick={trustPromptedCertificate}>
+                {t('tls.trust')}
+              </button>
+            </div>
+          </section>
+        </div>
+      )}
+
+      {reauthRequest && appLock.pin && (
+        <AppLockScreen
+          pin={appLock.pin}
+          t={t}
+          title={reauthRequest.title}
+          onUnlock={() => finishReauth(true)}
+          onCancel={() => finishReauth(false)}
+        />
+      )}
+
+      {locked && appLock.pin && (
+        <AppLockScreen
+          pin={appLock.pin}
+          t={t}
+          title={t('appLock.title')}
+          onUnlock={() => {
+            lastActiveRef.current = Date.now()
+            setLocked(false)
+          }}
+        />
+      )}
+
+      {profileToDelete && (
+        <div className="modal-backdrop" role="presentation" onClick={() => setProfileToDelete(null)}>
+          <section
+            className="modal-card fade-in"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="delete-profile-title"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <h2 id="delete-profile-title">{t('settings.profileDeleteTitle')}</h2>
+            <p>
+              {t('settings.profileDeleteBody')} <strong>{profileLabel(profileToDelete)}</strong>.
+            </p>
+            <p className="subtle">{profileAddress(profileToDelete)}</p>
+            <div className="modal-actions">
+              <button className="btn-secondary" onClick={() => setProfileToDelete(null)}>
+                {t('session.cancel')}
+              </button>
+              <button className="btn-danger" onClick={() => deleteProfile(profileToDelete.id)}>
+                <TrashIcon size={16} />
+                {t('settings.profileDeleteConfirm')}
+              </button>
+            </div>
+          </section>
+        </div>
+      )}
+
+      {view === "files" && (
+        <section className="panel files fade-in">
+          <div className="section-heading">
+            <div>
+              <h2>
+                <FileIcon size={24} className="icon-inline-heading" />
+                {t('files.title')}
+              </h2>
+              <p className="subtle">{selectedSession ? selectedSession.directory : t('files.noSession')}</p>
+            </div>
+          </div>
+          {selectedSession && (
+            <FileBrowser
+              key={`${config.id}:${selectedSession.id}`}
+              config={config}
+              directory={selectedSession.directory}
+              t={t}
+              onInsertReference={insertFileReference}
+            />
+          )}
+        </section>
+      )}
+
       {view === "help" && (
         <section className="panel help fade-in">
           <h2>
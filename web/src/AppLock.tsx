@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react"
+import { authenticateBiometric, biometricAvailable, clearPinAttempts, loadPinAttempts, recordPinFailure, verifyPin, type PinHash } from "./app-lock"
+import { LoadingIcon } from "./Icons"
+
+type Translate = (key: string, params?: Record<string, string | number>) => string
+
+type AppLockScreenProps = {
+  pin: PinHash
+  t: Translate
+  /** Heading of the lock; the launch lock and action confirmations word it differently. */
+  title: string
+  onUnlock: () => void
+  /** Only action confirmations can be dismissed; the launch lock cannot. */
+  onCancel?: () => void
+}
+
+export function AppLockScreen({ pin, t, title, onUnlock, onCancel }: AppLockScreenProps) {
+  const [canUseBiometric, setCanUseBiometric] = useState(false)
+  const [entry, setEntry] = useState("")
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState("")
+  const [blockedUntil, setBlockedUntil] = useState(() => loadPinAttempts().blockedUntil)
+  const [now, setNow] = useState(() => Date.now())
+  const promptingRef = useRef(false)
+
+  function unlock() {
+    clearPinAttempts()
+    onUnlock()
+  }
+
+  async function promptBiometric() {
+    if (promptingRef.current) return
+    promptingRef.current = true
+    try {
+      if (await authenticateBiometric(title, t('appLock.biometricSubtitle'))) unlock()
+    } finally {
+      promptingRef.current = false
+    }
+  }
+
+  useEffect(() => {
+    let cancelled = false
+    biometricAvailable().then((available) => {
+      if (cancelled || !available) return
+      setCanUseBiometric(true)
+      promptBiometric()
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (blockedUntil <= now) return
+    const timer = window.setTimeout(() => setNow(Date.now()), Math.min(1000, blockedUntil - now))
+    return () => window.clearTimeout(timer)
+  }, [blockedUntil, now])
+
+  const blockedSeconds = Math.ceil(Math.max(0, blockedUntil - now) / 1000)
+
+  async function submitPin() {
+    if (!entry || checking || blockedSeconds > 0) return
+    setChecking(true)
+    try {
+      if (await verifyPin(pin, entry)) {
+        unlock()
+        return
+      }
+      const current = Date.now()
+      setBlockedUntil(recordPinFailure(localStorage, current).blockedUntil)
+      setNow(current)
+      setEntry("")
+      setError(t('appLock.wrongPin'))
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <div className={`modal-backdrop app-lock${onCancel ? " confirm" : ""}`} role="presentation">
+      <section className="modal-card fade-in" role="dialog" aria-modal="true" aria-labelledby="app-lock-title">
+        <h2 id="app-lock-title">{title}</h2>
+        <p className="subtle">{canUseBiometric ? t('appLock.bodyBiometric') : t('appLock.bodyPin')}</p>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          aria-label={t('appLock.pin')}
+          value={entry}
+          onChange={(event) => setEntry(event.target.value.replace(/\D/g, ""))}
+          onKeyDown={(event) => event.key === "Enter" && submitPin()}
+          disabled={blockedSeconds > 0}
+          autoFocus={!canUseBiometric}
+        />
+        {blockedSeconds > 0
+          ? <p className="error">{t('appLock.tooManyAttempts', { seconds: blockedSeconds })}</p>
+          : error && <p className="error">{error}</p>}
+        <div className="modal-actions">
+          {onCancel && (
+            <button className="btn-secondary" onClick={onCancel}>
+              {t('appLock.cancel')}
+            </button>
+          )}
+          {canUseBiometric && (
+            <button className="btn-secondary" onClick={promptBiometric}>
+              {t('appLock.useBiometric')}
+            </button>
+          )}
+          <button className="btn-primary" onClick={submitPin} disabled={checking || !entry || blockedSeconds > 0}>
+            {checking && <LoadingIcon size={16} />}
+            {t('appLock.unlock')}
+          </button>
+        </div>
+      </section>
+    </div>
+  )
+}
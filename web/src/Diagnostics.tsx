@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from "react"
+import { Capacitor } from "@capacitor/core"
+import {
+  DIAGNOSTIC_STEPS,
+  createBrowserDiagnosticsTransport,
+  failedStep,
+  formatDiagnosticsReport,
+  runDiagnostics,
+  type DiagnosticStep,
+  type DiagnosticsReport,
+  type DiagnosticsTransport
+} from "./diagnostics"
+import { authHeaders, authMode } from "./auth"
+import { probeNativeEventStream } from "./opencode-events"
+import { profileAddress, serverURL } from "./profiles"
+import { LoadingIcon, RefreshIcon, SaveIcon } from "./Icons"
+import { requestWithTrust, type TrustedServer } from "./tls"
+import type { ServerConfig } from "./types"
+
+type Translate = (key: string, params?: Record<string, string | number>) => string
+
+/**
+ * The Android app talks to the server natively, so there is no CORS and the stream is read like LiveEventsPlugin does.
+ * Every probe is checked against `trust`, the certificate settings of the profile being diagnosed, saved or not.
+ */
+function createNativeDiagnosticsTransport(trust: TrustedServer[]): DiagnosticsTransport {
+  const request = (url: string, headers: Record<string, string>) => requestWithTrust(url, headers, trust, 10_000)
+  return {
+    mode: "native",
+    async reach(url) {
+      await request(url, {})
+    },
+    async request(url, headers) {
+      const response = await request(url, headers)
+      return { status: response.status, body: response.data as unknown }
+    },
+    openEventStream(url, headers) {
+      return probeNativeEventStream({ url, headers, servers: trust })
+    }
+  }
+}
+
+type DiagnosticsProps = {
+  config: ServerConfig
+  t: Translate
+  /** Certificate settings of `config`, which may not be saved yet; they apply to the probes alone. */
+  trust: TrustedServer[]
+  onClose: () => void
+}
+
+export function Diagnostics({ config, t, trust, onClose }: DiagnosticsProps) {
+  const [steps, setSteps] = useState<DiagnosticStep[]>([])
+  const [report, setReport] = useState<DiagnosticsReport | null>(null)
+  const [running, setRunning] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const runRef = useRef(0)
+
+  const run = () => {
+    const runID = ++runRef.current
+    setRunning(true)
+    setSteps([])
+    setReport(null)
+    setCopied(false)
+    const transport = Capacitor.isNativePlatform() ? createNativeDiagnosticsTransport(trust) : createBrowserDiagnosticsTransport()
+    const onProgress = (done: DiagnosticStep[]) => {
+      if (runID === runRef.current) setSteps(done)
+    }
+    runDiagnostics(config, transport, { url: serverURL(config), auth: { mode: authMode(config), headers: authHeaders(config) }, onProgress })
+      .then((result) => {
+        if (runID === runRef.current) setReport(result)
+      })
+      .finally(() => {
+        if (runID === runRef.current) setRunning(false)
+      })
+  }
+
+  useEffect(() => {
+    run()
+    return () => {
+      runRef.current += 1
+    }
+  }, [])
+
+  const failure = report ? failedStep(report) : null
+  const reportText = report ? formatDiagnosticsReport(report) : ""
+
+  async function copyReport() {
+    try {
+      await navigator.clipboard.writeText(reportText)
+      setCopied(true)
+    } catch {
+      // Clipboard access can be refused; the report stays selectable below.
+      setCopied(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="section-heading">
+        <div>
+          <h2>{t('diagnostics.title')}</h2>
+          <p className="subtle">{report?.target ?? profileAddress(config)}</p>
+        </div>
+        <button type="button" className="btn-secondary" onClick={onClose}>
+          {t('diagnostics.back')}
+        </button>
+      </div>
+
+      <ol className="diagnostic-steps">
+        {DIAGNOSTIC_STEPS.map((id, index) => {
+          const step = steps.find((item) => item.id === id)
+          const status = step?.status ?? (running && index === steps.length ? "running" : "pending")
+          return (
+            <li key={id} className={`diagnostic-step ${status}`}>
+              <div className="diagnostic-step-header">
+                {status === "running" && <LoadingIcon size={14} />}
+                <strong>{t(`diagnostics.step.${id}`)}</strong>
+                <span className="subtle">
+                  {t(`diagnostics.status.${status}`)}
+                  {step && step.status !== "skipped" ? ` · ${t('diagnostics.duration', { ms: step.durationMs })}` : ""}
+                </span>
+              </div>
+              {step && <p className="subtle">{step.detail}</p>}
+            </li>
+          )
+        })}
+      </ol>
+
+      {report && (
+        <div className={`notice ${failure ? "error" : "success"} fade-in`}>
+          {failure ? t('diagnostics.failedAt', { step: t(`diagnostics.step.${failure.id}`) }) : t('diagnostics.allPassed')}
+        </div>
+      )}
+
+      <div className="actions">
+        <button type="button" className="btn-primary" onClick={run} disabled={running}>
+          {running ? <LoadingIcon size={18} /> : <RefreshIcon size={18} />}
+          {running ? t('diagnostics.running') : t('diagnostics.runAgain')}
+        </button>
+        <button type="button" className="btn-secondary" onClick={copyReport} disabled={!report}>
+          <SaveIcon size={18} />
+          {copied ? t('diagnostics.copied') : t('diagnostics.copy')}
+        </button>
+      </div>
+
+      {report && (
+        <textarea
+          className="diagnostics-report"
+          readOnly
+          rows={DIAGNOSTIC_STEPS.length + 6}
+          value={reportText}
+          onFocus={(event) => event.target.select()}
+          aria-label={t('diagnostics.report')}
+        />
+      )}
+    </>
+  )
+}
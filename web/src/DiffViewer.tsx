@@ -0,0 +1,133 @@
+import { useMemo, useRef, useState } from "react"
+import { buildHunks, splitRows, type DiffLine } from "./diff"
+import type { DiffFile } from "./types"
+
+type Translate = (key: string, params?: Record<string, string | number>) => string
+type DiffMode = "unified" | "split"
+
+const DIFF_MODE_STORAGE_KEY = "opencode.remote.diffMode"
+
+function LineText({ line }: { line: DiffLine }) {
+  if (!line.segments || line.kind === "context") return <>{line.text || " "}</>
+  return (
+    <>
+      {line.segments.map((segment, index) => (
+        segment.changed ? <mark key={index} className="diff-word">{segment.text}</mark> : segment.text
+      ))}
+    </>
+  )
+}
+
+function linePrefix(line: DiffLine): string {
+  return line.kind === "add" ? "+" : line.kind === "remove" ? "-" : " "
+}
+
+function FileDiff({ file, mode, t }: { file: DiffFile; mode: DiffMode; t: Translate }) {
+  const hunks = useMemo(() => buildHunks(file.before ?? "", file.after ?? ""), [file.before, file.after])
+  const [hunkIndex, setHunkIndex] = useState(0)
+  const hunkRefs = useRef<Array<HTMLElement | null>>([])
+
+  function goToHunk(index: number) {
+    if (hunks.length === 0) return
+    const next = (index + hunks.length) % hunks.length
+    setHunkIndex(next)
+    hunkRefs.current[next]?.scrollIntoView({ block: "start", behavior: "smooth" })
+  }
+
+  if (file.before === undefined && file.after === undefined) {
+    return <p className="subtle">{t('diff.noContent')}</p>
+  }
+  if (hunks.length === 0) {
+    return <p className="subtle">{t('diff.noChanges')}</p>
+  }
+
+  return (
+    <>
+      <div className="diff-hunk-nav">
+        <button type="button" className="btn-secondary compact" onClick={() => goToHunk(hunkIndex - 1)} disabled={hunks.length < 2}>↑</button>
+        <small>{t('diff.hunkPosition', { current: hunkIndex + 1, count: hunks.length })}</small>
+        <button type="button" className="btn-secondary compact" onClick={() => goToHunk(hunkIndex + 1)} disabled={hunks.length < 2}>↓</button>
+      </div>
+      <div className={`diff-view ${mode}`}>
+        {hunks.map((hunk, index) => (
+          <section
+            key={`${hunk.oldStart}:${hunk.newStart}`}
+            className={`diff-hunk ${index === hunkIndex ? "active" : ""}`}
+            ref={(element) => {
+              hunkRefs.current[index] = element
+            }}
+          >
+            <header onClick={() => setHunkIndex(index)}>
+              @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+            </header>
+            {mode === "unified" ? (
+              hunk.lines.map((line, lineIndex) => (
+                <div key={lineIndex} className={`diff-line ${line.kind}`}>
+                  <span className="line-number">{line.oldNumber ?? ""}</span>
+                  <span className="line-number">{line.newNumber ?? ""}</span>
+                  <code><span className="diff-prefix">{linePrefix(line)}</span><LineText line={line} /></code>
+                </div>
+              ))
+            ) : (
+              splitRows(hunk).map((row, rowIndex) => (
+                <div key={rowIndex} className="diff-split-row">
+                  {[row.left, row.right].map((line, side) => (
+                    <div key={side} className={`diff-line ${line ? line.kind : "empty"}`}>
+                      <span className="line-number">{line ? (side === 0 ? line.oldNumber : line.newNumber) ?? "" : ""}</span>
+                      <code>{line && <LineText line={line} />}</code>
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </section>
+        ))}
+      </div>
+    </>
+  )
+}
+
+export function DiffViewer({ files, t }: { files: DiffFile[]; t: Translate }) {
+  const [selectedFile, setSelectedFile] = useState<string | null>(null)
+  const [mode, setMode] = useState<DiffMode>(() => (localStorage.getItem(DIFF_MODE_STORAGE_KEY) === "split" ? "split" : "unified"))
+  const file = files.find((item) => item.file === selectedFile) ?? null
+
+  function changeMode(next: DiffMode) {
+    setMode(next)
+    localStorage.setItem(DIFF_MODE_STORAGE_KEY, next)
+  }
+
+  if (!file) {
+    return (
+      <div className="diff-file-list">
+        {files.map((item) => (
+          <button key={item.file} type="button" className="folder-row diff-file-row" onClick={() => setSelectedFile(item.file)}>
+            <span className="diff-file-name">{item.file}</span>
+            {item.status && item.status !== "modified" && <span className={`pill ${item.status}`}>{t(`diff.status.${item.status}`)}</span>}
+            <small><span className="positive">+{item.additions}</span> <span className="negative">-{item.deletions}</span></small>
+          </button>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="diff-viewer">
+      <div className="diff-viewer-header">
+        <button type="button" className="btn-secondary compact" onClick={() => setSelectedFile(null)}>
+          {t('diff.back')}
+        </button>
+        <strong className="diff-file-name">{file.file}</strong>
+        <div className="segmented" role="group" aria-label={t('diff.modeLabel')}>
+          <button type="button" className={mode === "unified" ? "active" : ""} onClick={() => changeMode("unified")}>
+            {t('diff.unified')}
+          </button>
+          <button type="button" className={mode === "split" ? "active" : ""} onClick={() => changeMode("split")}>
+            {t('diff.split')}
+          </button>
+        </div>
+      </div>
+      <FileDiff key={file.file} file={file} mode={mode} t={t} />
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { api } from "./api"
+import { highlightLines, languageFor } from "./highlight"
+import { CloseIcon, FileIcon, FolderIcon, LoadingIcon } from "./Icons"
+import type { FileContent, FileEntry, ServerConfig } from "./types"
+
+type Translate = (key: string, params?: Record<string, string | number>) => string
+
+/** Rendering tens of thousands of highlighted rows stalls low-end phones. */
+const MAX_VIEW_LINES = 5000
+
+function parentPath(path: string): string | null {
+  if (!path) return null
+  const index = path.lastIndexOf("/")
+  return index === -1 ? "" : path.slice(0, index)
+}
+
+function sortEntries(items: FileEntry[]): FileEntry[] {
+  return [...items].sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === "directory" ? -1 : 1))
+}
+
+type FileBrowserProps = {
+  config: ServerConfig
+  directory: string
+  t: Translate
+  onInsertReference: (path: string) => void
+}
+
+export function FileBrowser({ config, directory, t, onInsertReference }: FileBrowserProps) {
+  const [path, setPath] = useState("")
+  const [entries, setEntries] = useState<FileEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [openPath, setOpenPath] = useState<string | null>(null)
+  const [file, setFile] = useState<FileContent | null>(null)
+  const [fileLoading, setFileLoading] = useState(false)
+  const [search, setSearch] = useState("")
+  const [matchIndex, setMatchIndex] = useState(0)
+  const codeRef = useRef<HTMLOListElement | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    api.listFiles(config, path, directory)
+      .then((items) => {
+        if (!cancelled) setEntries(sortEntries(items))
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setEntries([])
+          setError((err as Error).message)
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [config, directory, path])
+
+  useEffect(() => {
+    if (!openPath) return
+    let cancelled = false
+    setFile(null)
+    setFileLoading(true)
+    setError(null)
+    setSearch("")
+    api.readFile(config, openPath, directory)
+      .then((content) => {
+        if (!cancelled) setFile(content)
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message)
+      })
+      .finally(() => {
+        if (!cancelled) setFileLoading(false)
+      })
+    return () => {
+      cancelled = true
+      setFileLoading(false)
+    }
+  }, [config, directory, openPath])
+
+  const lines = useMemo(() => {
+    if (!file || file.type !== "text" || !openPath) return []
+    return highlightLines(file.content, languageFor(openPath))
+  }, [file, openPath])
+
+  const matches = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    if (!query) return []
+    return lines.flatMap((tokens, index) => (
+      tokens.map((token) => token.text).join("").toLowerCase().includes(query) ? [index] : []
+    ))
+  }, [lines, search])
+
+  useEffect(() => {
+    setMatchIndex(0)
+  }, [search])
+
+  useEffect(() => {
+    const line = matches[matchIndex]
+    if (line === undefined) return
+    codeRef.current?.querySelector<HTMLElement>(`[data-line="${line}"]`)?.scrollIntoView({ block: "center" })
+  }, [matches, matchIndex])
+
+  function stepMatch(delta: number) {
+    if (matches.length === 0) return
+    setMatchIndex((current) => (current + delta + matches.length) % matches.length)
+  }
+
+  if (openPath) {
+    const matchSet = new Set(matches)
+    const activeLine = matches[matchIndex]
+    return (
+      <div className="file-viewer">
+        <div className="file-viewer-header">
+          <button className="btn-secondary compact" onClick={() => setOpenPath(null)}>
+            {t('files.back')}
+          </button>
+          <strong className="file-viewer-path">{openPath}</strong>
+          <button className="btn-primary compact" onClick={() => onInsertReference(openPath)}>
+            {t('files.insertReference')}
+          </button>
+        </div>
+        {file?.type === "text" && (
+          <div className="file-search">
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.preventDefault()
+                  stepMatch(event.shiftKey ? -1 : 1)
+                }
+              }}
+              placeholder={t('files.searchPlaceholder')}
+              aria-label={t('files.searchPlaceholder')}
+              className="search"
+            />
+            <small>{search.trim() ? t('files.matches', { current: matches.length ? matchIndex + 1 : 0, count: matches.length }) : ""}</small>
+            <button className="btn-secondary compact" onClick={() => stepMatch(-1)} disabled={matches.length === 0}>↑</button>
+            <button className="btn-secondary compact" onClick={() => stepMatch(1)} disabled={matches.length === 0}>↓</button>
+            {search && (
+              <button className="btn-secondary compact" onClick={() => setSearch("")} title={t('files.clearSearch')}>
+                <CloseIcon size={14} />
+              </button>
+            )}
+          </div>
+        )}
+        {error && <div className="error fade-in">✗ {error}</div>}
+        {fileLoading ? (
+          <div className="empty-state compact"><LoadingIcon size={28} /><p>{t('files.loading')}</p></div>
+        ) : file?.type === "binary" ? (
+          file.mimeType?.startsWith("image/") && file.encoding === "base64" ? (
+            <img className="file-image" src={`data:${file.mimeType};base64,${file.content}`} alt={openPath} />
+          ) : (
+            <p className="subtle">{t('files.binary')}</p>
+          )
+        ) : file ? (
+          <>
+            {lines.length > MAX_VIEW_LINES && <p className="subtle">{t('files.truncated', { count: MAX_VIEW_LINES })}</p>}
+            <ol className="code-view" ref={codeRef}>
+              {lines.slice(0, MAX_VIEW_LINES).map((tokens, index) => (
+                <li
+                  key={index}
+                  data-line={index}
+                  className={index === activeLine ? "match active" : matchSet.has(index) ? "match" : ""}
+                >
+                  <span className="line-number">{index + 1}</span>
+                  <code>
+                    {tokens.map((token, tokenIndex) => (
+                      token.kind === "plain" ? token.text : <span key={tokenIndex} className={`tok-${token.kind}`}>{token.text}</span>
+                    ))}
+                  </code>
+                </li>
+              ))}
+            </ol>
+          </>
+        ) : null}
+      </div>
+    )
+  }
+
+  const parent = parentPath(path)
+  return (
+    <div className="file-browser">
+      <div className="file-breadcrumb">
+        <button className="btn-secondary compact" onClick={() => setPath("")} disabled={!path}>
+          {t('files.root')}
+        </button>
+        <span className="subtle">/{path}</span>
+      </div>
+      {error && <div className="error fade-in">✗ {error}</div>}
+      <div className="folder-list file-list">
+        {loading ? (
+          <div className="empty-state compact"><LoadingIcon size={28} /><p>{t('files.loading')}</p></div>
+        ) : (
+          <>
+            {parent !== null && (
+              <button type="button" className="folder-row" onClick={() => setPath(parent)}>
+                <FolderIcon size={16} />
+                <span>{t('sessions.parentFolder')}</span>
+              </button>
+            )}
+            {entries.length === 0 ? (
+              <p className="subtle">{t('files.empty')}</p>
+            ) : entries.map((entry) => (
+              <div key={entry.path} className={`file-row ${entry.ignored ? "ignored" : ""}`}>
+                <button
+                  type="button"
+                  className="folder-row"
+                  onClick={() => (entry.type === "directory" ? setPath(entry.path) : setOpenPath(entry.path))}
+                >
+                  {entry.type === "directory" ? <FolderIcon size={16} /> : <FileIcon size={16} />}
+                  <span>{entry.name}</span>
+                </button>
+                {entry.type === "file" && (
+                  <button
+                    type="button"
+                    className="btn-secondary compact"
+                    onClick={() => onInsertReference(entry.path)}
+                    title={t('files.insertReference')}
+                  >
+                    @
+                  </button>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import { LightbulbIcon, PaperclipIcon, PatchIcon, PlayIcon, StopIcon, WrenchIcon } from "./Icons"
+import type { MessagePart, ToolPart } from "./types"
+
+type Translate = (key: string, params?: Record<string, string | number>) => string
+
+const TOOL_SUBJECT_KEYS = ["filePath", "path", "command", "pattern", "url", "query", "description"]
+
+function formatJson(value: unknown): string {
+  if (value === undefined) return ""
+  if (typeof value === "string") return value
+  return JSON.stringify(value, null, 2)
+}
+
+function formatDuration(start?: number, end?: number): string | null {
+  if (!start || !end || end < start) return null
+  const ms = end - start
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
+
+/** Short one-line hint of what a tool call acted on, e.g. the file path or shell command. */
+export function toolSubject(part: ToolPart): string | null {
+  const state = part.state
+  if (state.status !== "pending" && "title" in state && state.title) return state.title
+  const input = state.input ?? {}
+  for (const key of TOOL_SUBJECT_KEYS) {
+    const value = input[key]
+    if (typeof value === "string" && value.trim()) return value
+  }
+  return null
+}
+
+/** Whether a part renders anything; empty text parts and unknown part kinds are skipped. */
+export function isVisiblePart(part: MessagePart): boolean {
+  switch (part.type) {
+    case "text":
+    case "reasoning":
+      return Boolean(part.text?.trim())
+    case "tool":
+    case "file":
+    case "step-start":
+    case "step-finish":
+    case "patch":
+      return true
+    default:
+      return false
+  }
+}
+
+/** Changes whenever a part appears or a tool call moves to another state. */
+export function partSignature(part: MessagePart): string {
+  return part.type === "tool" ? `${part.id}:${part.state.status}` : part.id
+}
+
+function ToolCard({ part, t }: { part: ToolPart; t: Translate }) {
+  const state = part.state
+  const subject = toolSubject(part)
+  const duration = state.status === "completed" || state.status === "error" ? formatDuration(state.time.start, state.time.end) : null
+  const input = formatJson(state.input)
+  return (
+    <details className={`part-card tool ${state.status}`}>
+      <summary>
+        <span className="part-kind"><WrenchIcon size={14} /> {part.tool}</span>
+        {subject && <span className="part-subject">{subject}</span>}
+        <span className={`pill ${state.status}`}>{state.status}</span>
+      </summary>
+      <div className="part-body">
+        {input && input !== "{}" && (
+          <>
+            <span className="part-label">{t('parts.input')}</span>
+            <pre>{input}</pre>
+          </>
+        )}
+        {state.status === "completed" && (
+          <>
+            <span className="part-label">{t('parts.output')}</span>
+            <pre>{state.output || t('parts.noOutput')}</pre>
+          </>
+        )}
+        {state.status === "error" && (
+          <>
+            <span className="part-label">{t('parts.error')}</span>
+            <pre className="part-error">{state.error}</pre>
+          </>
+        )}
+        {duration && <small className="part-meta">{t('parts.duration', { duration })}</small>}
+      </div>
+    </details>
+  )
+}
+
+export function MessagePartCard({ part, t }: { part: MessagePart; t: Translate }) {
+  switch (part.type) {
+    case "tool":
+      return <ToolCard part={part} t={t} />
+    case "reasoning":
+      return (
+        <details className="part-card reasoning">
+          <summary>
+            <span className="part-kind"><LightbulbIcon size={14} /> {t('parts.reasoning')}</span>
+            {formatDuration(part.time?.start, part.time?.end) && (
+              <span className="part-subject">{formatDuration(part.time?.start, part.time?.end)}</span>
+            )}
+          </summary>
+          <div className="part-body part-text">{part.text.trim()}</div>
+        </details>
+      )
+    case "file": {
+      const name = part.filename || part.source?.path || part.url
+      return (
+        <details className="part-card file">
+          <summary>
+            <span className="part-kind"><PaperclipIcon size={14} /> {t('parts.file')}</span>
+            <span className="part-subject">{name}</span>
+          </summary>
+          <div className="part-body">
+            {part.mime.startsWith("image/") && part.url && <img src={part.url} alt={name} className="part-image" />}
+            {!part.url && <small className="part-meta">{t('parts.fileNotCached')}</small>}
+            <small className="part-meta">{part.mime}</small>
+            {part.source?.path && <small className="part-meta">{part.source.path}</small>}
+          </div>
+        </details>
+      )
+    }
+    case "step-start":
+      return (
+        <details className="part-card step">
+          <summary>
+            <span className="part-kind"><PlayIcon size={14} /> {t('parts.stepStart')}</span>
+            {part.snapshot && <span className="part-subject">{part.snapshot.slice(0, 8)}</span>}
+          </summary>
+          <div className="part-body">
+            <small className="part-meta">{part.snapshot ? t('parts.snapshot', { hash: part.snapshot }) : "-"}</small>
+          </div>
+        </details>
+      )
+    case "step-finish":
+      return (
+        <details className="part-card step">
+          <summary>
+            <span className="part-kind"><StopIcon size={14} /> {t('parts.stepFinish')}</span>
+            {part.reason && <span className="part-subject">{part.reason}</span>}
+          </summary>
+          <div className="part-body">
+            {part.tokens && (
+              <small className="part-meta">
+                {t('parts.stepTokens', { input: part.tokens.input, output: part.tokens.output, reasoning: part.tokens.reasoning })}
+              </small>
+            )}
+            {typeof part.cost === "number" && <small className="part-meta">{t('parts.stepCost', { cost: part.cost.toFixed(4) })}</small>}
+          </div>
+        </details>
+      )
+    case "patch":
+      return (
+        <details className="part-card patch">
+          <summary>
+            <span className="part-kind"><PatchIcon size={14} /> {t('parts.patch', { count: part.files.length })}</span>
+            <span className="part-subject">{part.hash.slice(0, 8)}</span>
+          </summary>
+          <div className="part-body">
+            <ul className="part-file-list">
+              {part.files.map((file) => <li key={file}>{file}</li>)}
+            </ul>
+          </div>
+        </details>
+      )
+    default:
+      return null
+  }
+}
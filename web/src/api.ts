@@ -1,9 +1,17 @@
 import { Capacitor, CapacitorHttp } from "@capacitor/core"
+import { attachmentPart } from "./attachments"
+import { authHeaders } from "./auth"
+import { byteLength, recordDataUsage } from "./data-usage"
 import { streamURL } from "./opencode-events"
+import { MESSAGE_PAGE_SIZE } from "./message-store"
+import { toPermissionRequest } from "./permissions"
+import { serverURL } from "./profiles"
+import { requestWithTrust, type TrustedServer } from "./tls"
 import type {
   AgentOption,
   CommandInfo,
   DiffFile,
+  FileContent,
   FileStatusEntry,
   FileEntry,
   HealthResponse,
@@ -12,6 +20,9 @@ import type {
   ModelSelection,
   ProjectCurrent,
   PathInfo,
+  PermissionReply,
+  PermissionRequest,
+  PromptAttachment,
   ServerConfig,
   Session,
   SessionStatus,
@@ -19,16 +30,8 @@ import type {
   VcsStatus
 } from "./types"
 
-function authHeader(config: ServerConfig): string {
-  return `Basic ${btoa(`${config.username}:${config.password}`)}`
-}
-
 function baseUrl(config: ServerConfig): string {
-  const host = config.host.trim()
-  const schemeMatch = host.match(/^(https?):\/\//)
-  const scheme = schemeMatch ? schemeMatch[1] : "http"
-  const cleanHost = schemeMatch ? host.slice(schemeMatch[0].length) : host
-  return `${scheme}://${cleanHost}:${config.port}`
+  return serverURL(config)
 }
 
 function withDirectory(path: string, directory?: string): string {
@@ -37,10 +40,28 @@ function withDirectory(path: string, directory?: string): string {
   return `${path}${joiner}directory=${encodeURIComponent(directory)}`
 }
 
+/** The server could not be reached at all, as opposed to answering with an error status. */
+export class NetworkError extends Error {
+  name = "NetworkError"
+}
+
+/** The server answered with an error status; the message is its error detail when it sent one. */
+export class HttpError extends Error {
+  name = "HttpError"
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.status = status
+  }
+}
+
 type RequestOptions = {
   method?: "GET" | "POST" | "PATCH" | "DELETE"
   body?: unknown
   readTimeout?: number
+  /** Certificate settings for this request alone, e.g. of a profile being tested before it is saved; native only. */
+  trust?: TrustedServer[]
 }
 
 type ResponseWithHeaders<T> = {
@@ -64,6 +85,14 @@ function responseDetail(body: unknown): string | null {
   return String(body)
 }
 
+/** Native responses arrive already parsed; Content-Length when sent, otherwise the re-serialized body size. */
+function nativeResponseSize(headers: Record<string, string>, data: unknown): number {
+  const declared = Number(headers["content-length"])
+  if (Number.isFinite(declared) && declared > 0) return declared
+  if (data === undefined || data === null || data === "") return 0
+  return byteLength(typeof data === "string" ? data : JSON.stringify(data))
+}
+
 function normalizeHeaders(headers: Record<string, unknown> | undefined): Record<string, string> {
   if (!headers) return {}
   return Object.fromEntries(
@@ -105,12 +134,11 @@ type AgentResponse = Array<{
 async function requestWithHeaders<T>(config: ServerConfig, path: string, options: RequestOptions = {}): Promise<ResponseWithHeaders<T>> {
   const target = `${baseUrl(config)}${path}`
 
+  const auth = authHeaders(config)
   const headers: Record<string, string> = {
+    ...auth,
     Accept: "application/json"
   }
-  if (config.username && config.password) {
-    headers.Authorization = authHeader(config)
-  }
   if (options.body !== undefined) {
     headers["Content-Type"] = "application/json"
   }
@@ -120,23 +148,26 @@ async function requestWithHeaders<T>(config: ServerConfig, path: string, options
   if (Capacitor.isNativePlatform()) {
     let response
     try {
-      response = await CapacitorHttp.request({
-        url: target,
-        method,
-        headers,
-        data: options.body,
-        connectTimeout: 12_000,
-        readTimeout: options.readTimeout ?? 30_000
-      })
+      response = options.trust && method === "GET"
+        ? await requestWithTrust(target, headers, options.trust, options.readTimeout ?? 30_000)
+        : await CapacitorHttp.request({
+          url: target,
+          method,
+          headers,
+          data: options.body,
+          connectTimeout: 12_000,
+          readTimeout: options.readTimeout ?? 30_000
+        })
     } catch {
-      throw new Error(`Network error: cannot reach ${target}. Check host, port, and firewall.`)
+      throw new NetworkError(`Network error: cannot reach ${target}. Check host, port, and firewall.`)
     }
 
     if (response.status >= 400) {
-      throw new Error(responseDetail(response.data) || `HTTP ${response.status}`)
+      throw new HttpError(responseDetail(response.data) || `HTTP ${response.status}`, response.status)
     }
 
     const responseHeaders = normalizeHeaders(response.headers)
+    recordDataUsage("requests", nativeResponseSize(responseHeaders, response.data))
     if (response.status === 204) return { data: true as T, headers: responseHeaders }
     return { data: response.data as T, headers: responseHeaders }
   }
@@ -149,10 +180,10 @@ async function requestWithHeaders<T>(config: ServerConfig, path: string, options
       body: options.body === undefined ? undefined : JSON.stringify(options.body)
     })
   } catch {
-    const corsHint = config.username && config.password
-      ? " Browser mode + Basic Auth may be blocked by CORS preflight; use APK/native mode or disable auth temporarily for browser debugging."
+    const corsHint = Object.keys(auth).length > 0
+      ? " Browser mode + authentication headers may be blocked by CORS preflight; use APK/native mode or disable auth temporarily for browser debugging."
       : ""
-    throw new Error(
+    throw new NetworkError(
       `Network error: cannot reach ${target}. Check server hostname/port, Windows firewall, and CORS (--cors).${corsHint}`
     )
   }
@@ -166,12 +197,14 @@ async function requestWithHeaders<T>(config: ServerConfig, path: string, options
       const text = await response.text()
       if (text) detail = text
     }
-    throw new Error(detail)
+    throw new HttpError(detail, response.status)
   }
 
   const responseHeaders = normalizeHeaders(Object.fromEntries(response.headers.entries()))
   if (response.status === 204) return { data: true as T, headers: responseHeaders }
-  return { data: (await response.json()) as T, headers: responseHeaders }
+  const text = await response.text()
+  recordDataUsage("requests", byteLength(text))
+  return { data: JSON.parse(text) as T, headers: responseHeaders }
 }
 
 async function request<T>(config: ServerConfig, path: string, options: RequestOptions = {}): Promise<T> {
@@ -205,14 +238,15 @@ function modelWireName(model?: ModelSelection) {
 }
 
 export const api = {
-  eventStream(config: ServerConfig) {
-    const headers: Record<string, string> = {}
-    if (config.username && config.password) headers.Authorization = authHeader(config)
-    return { url: streamURL(baseUrl(config), "global"), headers }
+  /** The global stream, or the stream of one project when `directory` is given. */
+  eventStream(config: ServerConfig, directory?: string) {
+    const headers = authHeaders(config)
+    return { url: directory ? streamURL(baseUrl(config), "project", directory) : streamURL(baseUrl(config), "global"), headers }
   },
 
-  health(config: ServerConfig) {
-    return request<HealthResponse>(config, "/global/health")
+  /** `trust` checks the server against those certificate settings instead of the saved ones. */
+  health(config: ServerConfig, trust?: TrustedServer[]) {
+    return request<HealthResponse>(config, "/global/health", { trust })
   },
 
   listSessions(config: ServerConfig, directory?: string) {
@@ -243,6 +277,10 @@ export const api = {
     return request<FileEntry[]>(config, withDirectory(`/file?path=${encodeURIComponent(path)}`, directory))
   },
 
+  readFile(config: ServerConfig, path: string, directory?: string) {
+    return request<FileContent>(config, withDirectory(`/file/content?path=${encodeURIComponent(path)}`, directory))
+  },
+
   listCommands(config: ServerConfig) {
     return request<CommandInfo[]>(config, "/command")
   },
@@ -290,8 +328,19 @@ export const api = {
     return request<boolean>(config, withDirectory(`/session/${id}`, directory), { method: "DELETE" })
   },
 
-  loadMessages(config: ServerConfig, sessionID: string, directory?: string) {
-    return request<MessageEnvelope[]>(config, withDirectory(`/session/${sessionID}/message?limit=100`, directory))
+  revertSession(config: ServerConfig, sessionID: string, messageID: string, directory?: string) {
+    return request<Session>(config, withDirectory(`/session/${sessionID}/revert`, directory), { method: "POST", body: { messageID } })
+  },
+
+  unrevertSession(config: ServerConfig, sessionID: string, directory?: string) {
+    return request<Session>(config, withDirectory(`/session/${sessionID}/unrevert`, directory), { method: "POST" })
+  },
+
+  /** Newest `limit` messages, or the `limit` messages right before the `before` message id when paging back. */
+  loadMessages(config: ServerConfig, sessionID: string, directory?: string, page: { limit?: number; before?: string } = {}) {
+    const params = new URLSearchParams({ limit: String(page.limit ?? MESSAGE_PAGE_SIZE) })
+    if (page.before) params.set("before", page.before)
+    return request<MessageEnvelope[]>(config, withDirectory(`/session/${sessionID}/message?${params}`, directory))
   },
 
   loadLatestMessage(config: ServerConfig, sessionID: string, directory?: string) {
@@ -318,10 +367,11 @@ export const api = {
     return request<FileStatusEntry[] | Record<string, FileStatusEntry>>(config, withDirectory("/file/status", directory))
   },
 
-  sendPrompt(config: ServerConfig, sessionID: string, text: string, directory?: string, model?: ModelSelection, agentID?: string) {
+  sendPrompt(config: ServerConfig, sessionID: string, text: string, directory?: string, model?: ModelSelection, agentID?: string, attachments: PromptAttachment[] = []) {
+    const parts = [...(text ? [{ type: "text", text }] : []), ...attachments.map(attachmentPart)]
     return request<boolean>(config, withDirectory(`/session/${sessionID}/prompt_async`, directory), {
       method: "POST",
-      body: { parts: [{ type: "text", text }], model: toModelBody(model), agent: agentID, variant: model?.variant || undefined }
+      body: { parts, model: toModelBody(model), agent: agentID, variant: model?.variant || undefined }
     })
   },
 
@@ -333,6 +383,25 @@ export const api = {
     })
   },
 
+  async listPermissions(config: ServerConfig) {
+    const items = await request<unknown[]>(config, "/permission")
+    return (Array.isArray(items) ? items : []).map(toPermissionRequest).filter((item) => item !== null)
+  },
+
+  replyPermission(config: ServerConfig, permission: PermissionRequest, reply: PermissionReply, directory?: string) {
+    return request<boolean>(config, withDirectory(`/permission/${permission.id}/reply`, directory), {
+      method: "POST",
+      body: { reply }
+    }).catch((error: unknown) => {
+      // Only servers without the reply route fall back to the legacy one; any other failure is the real answer.
+      if (!(error instanceof HttpError) || error.status !== 404) throw error
+      return request<boolean>(config, withDirectory(`/session/${permission.sessionID}/permissions/${permission.id}`, directory), {
+        method: "POST",
+        body: { response: reply }
+      })
+    })
+  },
+
   abort(config: ServerConfig, sessionID: string, directory?: string) {
     return request<boolean>(config, withDirectory(`/session/${sessionID}/abort`, directory), {
       method: "POST",
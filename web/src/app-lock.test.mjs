@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict'
+import {
+  APP_LOCK_STORAGE_KEY,
+  PIN_ATTEMPTS_STORAGE_KEY,
+  clearPinAttempts,
+  defaultAppLockSettings,
+  hashPin,
+  isValidPin,
+  loadAppLockSettings,
+  loadPinAttempts,
+  lockDue,
+  pinLockoutMs,
+  recordPinFailure,
+  saveAppLockSettings,
+  verifyPin,
+  weakensAppLock
+} from './app-lock.ts'
+
+function memoryStorage(initial = {}) {
+  const values = new Map(Object.entries(initial))
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => values.set(key, value),
+    removeItem: (key) => values.delete(key),
+    values
+  }
+}
+
+assert.ok(isValidPin('1234'))
+assert.ok(isValidPin('123456789012'))
+assert.equal(isValidPin('123'), false, 'PINs are at least four digits')
+assert.equal(isValidPin('12a4'), false, 'PINs are digits only')
+
+// Iterations are kept low here to keep the test fast.
+const pin = await hashPin('2468', 1_000)
+assert.ok(!JSON.stringify(pin).includes('2468'), 'the stored hash must not contain the PIN')
+assert.equal(await verifyPin(pin, '2468'), true)
+assert.equal(await verifyPin(pin, '1357'), false)
+assert.notEqual((await hashPin('2468', 1_000)).hash, pin.hash, 'each PIN gets its own salt')
+
+assert.deepEqual(loadAppLockSettings(memoryStorage()), defaultAppLockSettings())
+assert.deepEqual(loadAppLockSettings(memoryStorage({ [APP_LOCK_STORAGE_KEY]: '{broken' })), defaultAppLockSettings())
+
+const storage = memoryStorage()
+const settings = { enabled: true, pin, timeoutMinutes: 15, protectActions: true }
+saveAppLockSettings(settings, storage)
+assert.deepEqual(loadAppLockSettings(storage), settings)
+
+// A lock without a PIN could not be opened when biometrics fail, so it loads as disabled.
+const withoutPin = loadAppLockSettings(memoryStorage({ [APP_LOCK_STORAGE_KEY]: JSON.stringify({ enabled: true, pin: null }) }))
+assert.equal(withoutPin.enabled, false)
+const oddTimeout = loadAppLockSettings(memoryStorage({ [APP_LOCK_STORAGE_KEY]: JSON.stringify({ ...settings, timeoutMinutes: 7 }) }))
+assert.equal(oddTimeout.timeoutMinutes, defaultAppLockSettings().timeoutMinutes, 'unknown timeouts fall back to the default')
+
+const now = 10 * 60_000
+assert.equal(lockDue(settings, now - 14 * 60_000, now), false)
+assert.equal(lockDue(settings, now - 15 * 60_000, now), true)
+assert.equal(lockDue({ ...settings, enabled: false }, 0, now), false)
+assert.equal(lockDue({ ...settings, timeoutMinutes: 0 }, 0, now), false, 'a zero timeout only locks at launch')
+
+assert.equal(pinLockoutMs(4), 0)
+assert.equal(pinLockoutMs(5), 30_000)
+assert.equal(pinLockoutMs(7), 120_000, 'the delay doubles with each further wrong PIN')
+
+// Wrong PINs survive a restart, so reloading the app does not hand out fresh guesses.
+const attemptsStorage = memoryStorage()
+for (let failure = 1; failure < 5; failure += 1) assert.equal(recordPinFailure(attemptsStorage, now).blockedUntil, 0)
+assert.deepEqual(recordPinFailure(attemptsStorage, now), { failures: 5, blockedUntil: now + 30_000 })
+assert.deepEqual(loadPinAttempts(attemptsStorage), { failures: 5, blockedUntil: now + 30_000 })
+clearPinAttempts(attemptsStorage)
+assert.deepEqual(loadPinAttempts(attemptsStorage), { failures: 0, blockedUntil: 0 })
+assert.ok(loadPinAttempts(memoryStorage({ [PIN_ATTEMPTS_STORAGE_KEY]: '{broken' })).blockedUntil > 0, 'a corrupt record keeps the lockout')
+
+assert.equal(weakensAppLock(settings, { ...settings, timeoutMinutes: 5 }), false, 'a shorter timeout is stricter')
+assert.equal(weakensAppLock(settings, { ...settings, timeoutMinutes: 60 }), true)
+assert.equal(weakensAppLock(settings, { ...settings, timeoutMinutes: 0 }), true, 'locking only at launch is the longest timeout')
+assert.equal(weakensAppLock(settings, { ...settings, protectActions: false }), true)
+assert.equal(weakensAppLock(settings, { ...settings, enabled: false }), true)
+assert.equal(weakensAppLock({ ...settings, enabled: false }, { ...settings, enabled: false, protectActions: false }), false, 'nothing to protect while the lock is off')
+
+console.log('app lock tests passed')
@@ -0,0 +1,172 @@
+import { Capacitor, registerPlugin } from "@capacitor/core"
+
+export const APP_LOCK_STORAGE_KEY = "opencode.remote.appLock"
+/** Wrong-PIN count and lockout, kept apart from the settings so a restart does not reset them. */
+export const PIN_ATTEMPTS_STORAGE_KEY = "opencode.remote.appLock.attempts"
+const PIN_ITERATIONS = 100_000
+/** Wrong PINs in a row before further attempts are delayed. */
+const FREE_PIN_ATTEMPTS = 5
+const PIN_LOCKOUT_MS = 30_000
+
+/** Salted PBKDF2 hash of the app PIN; the PIN itself is never stored. */
+export type PinHash = {
+  salt: string
+  hash: string
+  iterations: number
+}
+
+export type AppLockSettings = {
+  enabled: boolean
+  pin: PinHash | null
+  /** Minutes in the background or without interaction before the app locks again; 0 locks only at launch. */
+  timeoutMinutes: number
+  /** Ask again before aborting or deleting a session. */
+  protectActions: boolean
+}
+
+export const APP_LOCK_TIMEOUTS = [0, 1, 5, 15, 60] as const
+
+/** Wrong PINs in a row since the last unlock, and until when the PIN field stays disabled. */
+export type PinAttempts = {
+  failures: number
+  blockedUntil: number
+}
+
+type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">
+
+type AppLockPlugin = {
+  isAvailable(): Promise<{ available: boolean }>
+  authenticate(options: { title: string; subtitle?: string }): Promise<void>
+}
+
+const NativeAppLock = registerPlugin<AppLockPlugin>("AppLock")
+
+export function defaultAppLockSettings(): AppLockSettings {
+  return { enabled: false, pin: null, timeoutMinutes: 5, protectActions: false }
+}
+
+function isPinHash(value: unknown): value is PinHash {
+  if (!value || typeof value !== "object") return false
+  const pin = value as Partial<PinHash>
+  return typeof pin.salt === "string" && typeof pin.hash === "string" && typeof pin.iterations === "number"
+}
+
+export function loadAppLockSettings(storage: StorageLike = localStorage): AppLockSettings {
+  const defaults = defaultAppLockSettings()
+  try {
+    const parsed = JSON.parse(storage.getItem(APP_LOCK_STORAGE_KEY) ?? "null") as Partial<AppLockSettings> | null
+    if (!parsed || typeof parsed !== "object") return defaults
+    const pin = isPinHash(parsed.pin) ? parsed.pin : null
+    return {
+      // Without a PIN there is no fallback when biometrics fail, so the lock cannot be on.
+      enabled: parsed.enabled === true && pin !== null,
+      pin,
+      timeoutMinutes: APP_LOCK_TIMEOUTS.includes(parsed.timeoutMinutes as never) ? parsed.timeoutMinutes as number : defaults.timeoutMinutes,
+      protectActions: parsed.protectActions === true
+    }
+  } catch {
+    return defaults
+  }
+}
+
+export function saveAppLockSettings(settings: AppLockSettings, storage: StorageLike = localStorage): void {
+  storage.setItem(APP_LOCK_STORAGE_KEY, JSON.stringify(settings))
+}
+
+/** The PIN is hashed with WebCrypto, which plain-http browser pages do not get. */
+export function appLockSupported(): boolean {
+  return Boolean(globalThis.crypto?.subtle)
+}
+
+/** Four to twelve digits, like a phone PIN. */
+export function isValidPin(pin: string): boolean {
+  return /^\d{4,12}$/.test(pin)
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+async function derivePin(pin: string, salt: string, iterations: number): Promise<string> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"])
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt: new TextEncoder().encode(salt), iterations }, material, 256)
+  return toHex(new Uint8Array(bits))
+}
+
+export async function hashPin(pin: string, iterations = PIN_ITERATIONS): Promise<PinHash> {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)))
+  return { salt, hash: await derivePin(pin, salt, iterations), iterations }
+}
+
+export async function verifyPin(stored: PinHash, pin: string): Promise<boolean> {
+  return (await derivePin(pin, stored.salt, stored.iterations)) === stored.hash
+}
+
+/** How long the PIN field stays disabled after `failures` wrong PINs in a row. */
+export function pinLockoutMs(failures: number): number {
+  return failures < FREE_PIN_ATTEMPTS ? 0 : PIN_LOCKOUT_MS * 2 ** (failures - FREE_PIN_ATTEMPTS)
+}
+
+export function loadPinAttempts(storage: StorageLike = localStorage): PinAttempts {
+  try {
+    const parsed = JSON.parse(storage.getItem(PIN_ATTEMPTS_STORAGE_KEY) ?? "null") as Partial<PinAttempts> | null
+    const failures = Number(parsed?.failures)
+    const blockedUntil = Number(parsed?.blockedUntil)
+    return {
+      failures: Number.isInteger(failures) && failures > 0 ? failures : 0,
+      blockedUntil: Number.isFinite(blockedUntil) && blockedUntil > 0 ? blockedUntil : 0
+    }
+  } catch {
+    // A corrupt record keeps the lockout rather than handing out fresh attempts.
+    return { failures: FREE_PIN_ATTEMPTS, blockedUntil: Date.now() + PIN_LOCKOUT_MS }
+  }
+}
+
+/** Counts a wrong PIN and returns the updated attempts, with the lockout it earns. */
+export function recordPinFailure(storage: StorageLike = localStorage, now = Date.now()): PinAttempts {
+  const failures = loadPinAttempts(storage).failures + 1
+  const delay = pinLockoutMs(failures)
+  const attempts = { failures, blockedUntil: delay > 0 ? now + delay : 0 }
+  storage.setItem(PIN_ATTEMPTS_STORAGE_KEY, JSON.stringify(attempts))
+  return attempts
+}
+
+export function clearPinAttempts(storage: StorageLike = localStorage): void {
+  storage.removeItem(PIN_ATTEMPTS_STORAGE_KEY)
+}
+
+/**
+ * Whether going from `current` to `next` makes the lock easier to get past: turning it or action protection off,
+ * or a longer timeout (0, locking only at launch, is the longest). Those changes need the PIN first.
+ */
+export function weakensAppLock(current: AppLockSettings, next: AppLockSettings): boolean {
+  if (!current.enabled) return false
+  if (!next.enabled || (current.protectActions && !next.protectActions)) return true
+  const span = (minutes: number) => (minutes === 0 ? Infinity : minutes)
+  return span(next.timeoutMinutes) > span(current.timeoutMinutes)
+}
+
+/** Whether the app should lock again after being idle since `lastActiveAt`. */
+export function lockDue(settings: AppLockSettings, lastActiveAt: number, now = Date.now()): boolean {
+  if (!settings.enabled || settings.timeoutMinutes === 0) return false
+  return now - lastActiveAt >= settings.timeoutMinutes * 60_000
+}
+
+export async function biometricAvailable(): Promise<boolean> {
+  if (!Capacitor.isNativePlatform()) return false
+  try {
+    return (await NativeAppLock.isAvailable()).available
+  } catch {
+    return false
+  }
+}
+
+/** Resolves true once the system prompt accepts a fingerprint, face or the device credential; false when dismissed. */
+export async function authenticateBiometric(title: string, subtitle?: string): Promise<boolean> {
+  try {
+    await NativeAppLock.authenticate({ title, subtitle })
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,34 @@
+import type { FilePart, PromptAttachment } from "./types"
+
+/** Attachments travel base64-encoded inside the prompt body, so keep them phone-sized. */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} B`
+}
+
+export function readAttachment(file: File): Promise<PromptAttachment> {
+  return new Promise((resolve, reject) => {
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      reject(new Error(`${file.name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`))
+      return
+    }
+    const reader = new FileReader()
+    reader.onload = () => resolve({
+      id: `attachment-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      filename: file.name || "attachment",
+      mime: file.type || "application/octet-stream",
+      size: file.size,
+      url: String(reader.result)
+    })
+    reader.onerror = () => reject(reader.error ?? new Error(`Cannot read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+}
+
+/** File part as accepted by `prompt_async`; also used for the optimistic bubble. */
+export function attachmentPart(attachment: PromptAttachment): Omit<FilePart, "id"> {
+  return { type: "file", mime: attachment.mime, filename: attachment.filename, url: attachment.url }
+}
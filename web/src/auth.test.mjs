@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict'
+import { authConfigured, authHeaders, authMode, parseCustomHeaders } from './auth.ts'
+
+const server = { host: '192.168.1.20', port: 4096, username: 'opencode', password: 'secret' }
+
+// Profiles saved before auth modes existed keep sending Basic Auth when they have a password.
+assert.equal(authMode(server), 'basic')
+assert.equal(authMode({ ...server, password: '' }), 'none')
+assert.equal(authMode({ ...server, authMode: 'bogus' }), 'basic', 'an unknown stored mode falls back to the inferred one')
+assert.deepEqual(authHeaders(server), { Authorization: `Basic ${btoa('opencode:secret')}` })
+assert.deepEqual(authHeaders({ ...server, authMode: 'basic', password: '' }), {}, 'Basic without a password sends nothing, as before')
+
+assert.deepEqual(authHeaders({ ...server, authMode: 'none' }), {}, 'mode none ignores a saved password')
+assert.deepEqual(authHeaders({ ...server, authMode: 'bearer', token: '  abc.def  ' }), { Authorization: 'Bearer abc.def' })
+assert.deepEqual(authHeaders({ ...server, authMode: 'bearer', token: '' }), {})
+
+const headerText = [
+  'CF-Access-Client-Id: client.access',
+  '',
+  '# service token for the tunnel',
+  'CF-Access-Client-Secret:  s3cr:et ',
+  'not a header',
+  'Bad Name: value'
+].join('\n')
+assert.deepEqual(parseCustomHeaders(headerText), {
+  headers: { 'CF-Access-Client-Id': 'client.access', 'CF-Access-Client-Secret': 's3cr:et' },
+  invalid: [5, 6]
+})
+assert.deepEqual(authHeaders({ ...server, authMode: 'headers', customHeaders: headerText }), {
+  'CF-Access-Client-Id': 'client.access',
+  'CF-Access-Client-Secret': 's3cr:et'
+}, 'invalid lines are skipped rather than sent')
+
+assert.equal(authConfigured(server), true)
+assert.equal(authConfigured({ ...server, username: ' ' }), false)
+assert.equal(authConfigured({ ...server, authMode: 'none', username: '' }), true)
+assert.equal(authConfigured({ ...server, authMode: 'bearer' }), false, 'bearer mode needs a token')
+assert.equal(authConfigured({ ...server, authMode: 'headers', customHeaders: headerText }), false, 'invalid header lines must be fixed first')
+assert.equal(authConfigured({ ...server, authMode: 'headers', customHeaders: 'X-Api-Key: 1' }), true)
+
+console.log('auth tests passed')
@@ -0,0 +1,64 @@
+import type { AuthMode, ServerConfig } from "./types"
+
+export const AUTH_MODES: AuthMode[] = ["none", "basic", "bearer", "headers"]
+
+/** RFC 9110 token characters, the only ones allowed in a header name. */
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/
+
+/** Profiles saved before auth modes existed sent Basic Auth whenever a password was set. */
+export function authMode(config: ServerConfig): AuthMode {
+  if (config.authMode && AUTH_MODES.includes(config.authMode)) return config.authMode
+  return config.username && config.password ? "basic" : "none"
+}
+
+/**
+ * Reads the custom header field: one `Name: value` per line, blank lines and `#` comments ignored.
+ * Line numbers (from 1) that are not a valid header come back in `invalid`, so Settings can point at them without echoing values.
+ */
+export function parseCustomHeaders(text: string): { headers: Record<string, string>; invalid: number[] } {
+  const headers: Record<string, string> = {}
+  const invalid: number[] = []
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim()
+    if (!line || line.startsWith("#")) return
+    const colon = line.indexOf(":")
+    const name = colon > 0 ? line.slice(0, colon).trim() : ""
+    const value = colon > 0 ? line.slice(colon + 1).trim() : ""
+    if (!HEADER_NAME.test(name)) {
+      invalid.push(index + 1)
+      return
+    }
+    headers[name] = value
+  })
+  return { headers, invalid }
+}
+
+/** The headers that authenticate every request, event stream and diagnostics probe for `config`. */
+export function authHeaders(config: ServerConfig): Record<string, string> {
+  switch (authMode(config)) {
+    case "basic":
+      return config.username && config.password ? { Authorization: `Basic ${btoa(`${config.username}:${config.password}`)}` } : {}
+    case "bearer":
+      return config.token?.trim() ? { Authorization: `Bearer ${config.token.trim()}` } : {}
+    case "headers":
+      return parseCustomHeaders(config.customHeaders ?? "").headers
+    default:
+      return {}
+  }
+}
+
+/** Whether the fields the chosen auth mode needs are filled in; Basic keeps allowing an empty password. */
+export function authConfigured(config: ServerConfig): boolean {
+  switch (authMode(config)) {
+    case "basic":
+      return Boolean(config.username.trim())
+    case "bearer":
+      return Boolean(config.token?.trim())
+    case "headers": {
+      const { headers, invalid } = parseCustomHeaders(config.customHeaders ?? "")
+      return invalid.length === 0 && Object.keys(headers).length > 0
+    }
+    default:
+      return true
+  }
+}
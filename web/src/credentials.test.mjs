@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict'
+import {
+  CREDENTIAL_VAULT_STORAGE_KEY,
+  WrongPassphraseError,
+  collectPasswords,
+  createVaultSession,
+  loadVault,
+  prepareCredentials,
+  saveVault,
+  sealVault,
+  unlockVault,
+  withPasswords,
+  withoutPasswords
+} from './credentials.ts'
+
+function memoryStorage(initial = {}) {
+  const values = new Map(Object.entries(initial))
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => values.set(key, value),
+    removeItem: (key) => values.delete(key),
+    values
+  }
+}
+
+const store = {
+  profiles: [
+    { id: 'work', name: 'Workstation', host: '192.168.1.20', port: 4096, username: 'opencode', password: 'secret' },
+    { id: 'local', name: 'Local', host: '127.0.0.1', port: 4096, username: 'opencode', password: '' }
+  ],
+  defaultID: 'work'
+}
+
+assert.deepEqual(collectPasswords(store), { work: 'secret' }, 'only profiles with a password are stored')
+const stripped = withoutPasswords(store)
+assert.ok(stripped.profiles.every((profile) => profile.password === ''))
+assert.equal(store.profiles[0].password, 'secret', 'stripping passwords does not touch the original store')
+assert.deepEqual(withPasswords(stripped, { work: 'secret' }), store)
+
+// Bearer tokens and custom headers are secrets too, stored next to the password under their own keys.
+const proxied = {
+  profiles: [{ id: 'edge', name: 'Edge', host: 'oc.example.com', port: 443, username: '', password: '', authMode: 'headers', customHeaders: 'CF-Access-Client-Secret: s3cret' }],
+  defaultID: 'edge'
+}
+assert.deepEqual(collectPasswords(proxied), { 'edge:customHeaders': 'CF-Access-Client-Secret: s3cret' })
+assert.equal(withoutPasswords(proxied).profiles[0].customHeaders, '')
+assert.equal('token' in withoutPasswords(proxied).profiles[0], false, 'fields a profile never had stay absent')
+assert.deepEqual(withPasswords(withoutPasswords(proxied), collectPasswords(proxied)), proxied)
+
+// A sealed vault only opens with its passphrase; iterations are kept low here to keep the test fast.
+const session = await createVaultSession('correct horse', 1_000)
+const vault = await sealVault(session, collectPasswords(store))
+assert.ok(!JSON.stringify(vault).includes('secret'), 'the vault must not contain the password in clear')
+const unlocked = await unlockVault(vault, 'correct horse')
+assert.deepEqual(unlocked.secrets, { work: 'secret' })
+await assert.rejects(unlockVault(vault, 'wrong horse'), WrongPassphraseError)
+
+// Re-sealing with the unlocked session keeps the same passphrase and salt but a fresh IV.
+const resealed = await sealVault(unlocked.session, { work: 'changed' })
+assert.equal(resealed.salt, vault.salt)
+assert.notEqual(resealed.iv, vault.iv)
+assert.deepEqual((await unlockVault(resealed, 'correct horse')).secrets, { work: 'changed' })
+
+const storage = memoryStorage()
+saveVault(vault, storage)
+assert.deepEqual(loadVault(storage), vault)
+saveVault(null, storage)
+assert.equal(loadVault(storage), null)
+assert.equal(loadVault(memoryStorage({ [CREDENTIAL_VAULT_STORAGE_KEY]: '{broken' })), null, 'a corrupt vault is treated as absent')
+
+// In the browser nothing moves until a passphrase is set; an existing vault starts locked without passwords.
+const saved = []
+const plain = await prepareCredentials(store, (next) => saved.push(next), memoryStorage())
+assert.deepEqual(plain, { store, state: 'plain' })
+const locked = await prepareCredentials(store, (next) => saved.push(next), memoryStorage({ [CREDENTIAL_VAULT_STORAGE_KEY]: JSON.stringify(vault) }))
+assert.equal(locked.state, 'locked')
+assert.ok(locked.store.profiles.every((profile) => profile.password === ''))
+assert.equal(saved.length, 0, 'browser startup does not rewrite the profile store')
+
+console.log('credential tests passed')
@@ -0,0 +1,198 @@
+import { Capacitor, registerPlugin } from "@capacitor/core"
+import type { ProfileStore } from "./profiles"
+import type { ServerProfile } from "./types"
+
+/** Browser-mode passwords, encrypted with a key derived from the user's passphrase. */
+export const CREDENTIAL_VAULT_STORAGE_KEY = "opencode.remote.credentialVault"
+const VAULT_ITERATIONS = 310_000
+
+/** Saved secrets keyed by `secretKey()`: passwords, bearer tokens and custom headers. */
+export type Secrets = Record<string, string>
+
+/** Profile fields that can hold a secret; custom headers usually carry proxy credentials. */
+const SECRET_FIELDS = ["password", "token", "customHeaders"] as const
+
+type SecretField = (typeof SECRET_FIELDS)[number]
+
+/**
+ * Where passwords live: the Android Keystore, an encrypted browser vault (locked until the passphrase is entered),
+ * or, in the browser before a passphrase is set, in plain localStorage as before.
+ */
+export type CredentialState = "native" | "plain" | "locked" | "unlocked"
+
+export type CredentialVault = {
+  version: 1
+  iterations: number
+  salt: string
+  iv: string
+  data: string
+}
+
+/** The derived key of an unlocked vault, kept in memory so later saves can re-seal it without asking again. */
+export type VaultSession = {
+  key: CryptoKey
+  salt: string
+  iterations: number
+}
+
+export class WrongPassphraseError extends Error {
+  name = "WrongPassphraseError"
+}
+
+type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">
+
+type SecureCredentialsPlugin = {
+  get(options: { ids: string[] }): Promise<{ secrets: Secrets }>
+  set(options: { id: string; secret: string }): Promise<void>
+  remove(options: { id: string }): Promise<void>
+}
+
+const SecureCredentials = registerPlugin<SecureCredentialsPlugin>("SecureCredentials")
+
+/** The password keeps the bare profile id, as stored before tokens and custom headers existed. */
+function secretKey(profileID: string, field: SecretField): string {
+  return field === "password" ? profileID : `${profileID}:${field}`
+}
+
+function secretKeys(profileID: string): string[] {
+  return SECRET_FIELDS.map((field) => secretKey(profileID, field))
+}
+
+/** Every non-empty secret of every profile. */
+export function collectPasswords(store: ProfileStore): Secrets {
+  return Object.fromEntries(store.profiles.flatMap((profile) =>
+    SECRET_FIELDS.filter((field) => profile[field]).map((field) => [secretKey(profile.id, field), profile[field] as string])
+  ))
+}
+
+/** Profiles with their secrets blanked; fields a profile never had stay absent. */
+export function withoutPasswords(store: ProfileStore): ProfileStore {
+  return {
+    ...store,
+    profiles: store.profiles.map((profile) => {
+      const next: ServerProfile = { ...profile, password: "" }
+      if (next.token !== undefined) next.token = ""
+      if (next.customHeaders !== undefined) next.customHeaders = ""
+      return next
+    })
+  }
+}
+
+/** Fills one profile's secret fields from `secrets`, keeping what it already has where nothing is saved. */
+export function withSecrets(profile: ServerProfile, secrets: Secrets): ServerProfile {
+  const next = { ...profile }
+  for (const field of SECRET_FIELDS) {
+    const secret = secrets[secretKey(profile.id, field)]
+    if (secret !== undefined) next[field] = secret
+  }
+  return next
+}
+
+export function withPasswords(store: ProfileStore, secrets: Secrets): ProfileStore {
+  return { ...store, profiles: store.profiles.map((profile) => withSecrets(profile, secrets)) }
+}
+
+/** WebCrypto only exists in secure contexts, so a LAN dev server over plain http cannot encrypt. */
+export function vaultSupported(): boolean {
+  return Boolean(globalThis.crypto?.subtle)
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0))
+}
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveKey"])
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  )
+}
+
+export async function createVaultSession(passphrase: string, iterations = VAULT_ITERATIONS): Promise<VaultSession> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)))
+  return { key: await deriveKey(passphrase, salt, iterations), salt, iterations }
+}
+
+export async function sealVault(session: VaultSession, secrets: Secrets): Promise<CredentialVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, session.key, encoder.encode(JSON.stringify(secrets)))
+  return { version: 1, iterations: session.iterations, salt: session.salt, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+/** AES-GCM authenticates the ciphertext, so a wrong passphrase fails to decrypt rather than yielding garbage. */
+export async function unlockVault(vault: CredentialVault, passphrase: string): Promise<{ session: VaultSession; secrets: Secrets }> {
+  const session = { key: await deriveKey(passphrase, vault.salt, vault.iterations), salt: vault.salt, iterations: vault.iterations }
+  let plain: ArrayBuffer
+  try {
+    plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(vault.iv) }, session.key, fromBase64(vault.data))
+  } catch {
+    throw new WrongPassphraseError("Wrong passphrase")
+  }
+  return { session, secrets: JSON.parse(decoder.decode(plain)) as Secrets }
+}
+
+export function loadVault(storage: StorageLike = localStorage): CredentialVault | null {
+  try {
+    const parsed = JSON.parse(storage.getItem(CREDENTIAL_VAULT_STORAGE_KEY) ?? "null") as Partial<CredentialVault> | null
+    if (parsed?.version === 1 && typeof parsed.iterations === "number" && [parsed.salt, parsed.iv, parsed.data].every((value) => typeof value === "string")) {
+      return parsed as CredentialVault
+    }
+  } catch {
+    // Unreadable vault: treated as absent, like a corrupt profile store.
+  }
+  return null
+}
+
+export function saveVault(vault: CredentialVault | null, storage: StorageLike = localStorage): void {
+  if (vault) storage.setItem(CREDENTIAL_VAULT_STORAGE_KEY, JSON.stringify(vault))
+  else storage.removeItem(CREDENTIAL_VAULT_STORAGE_KEY)
+}
+
+/** Stores one profile's secrets in the Android Keystore, forgetting the ones that are now empty. */
+export async function saveNativeSecrets(profile: ServerProfile): Promise<void> {
+  await Promise.all(SECRET_FIELDS.map((field) => {
+    const id = secretKey(profile.id, field)
+    const secret = profile[field]
+    return secret ? SecureCredentials.set({ id, secret }) : SecureCredentials.remove({ id })
+  }))
+}
+
+export async function removeNativeSecrets(profileID: string): Promise<void> {
+  await Promise.all(secretKeys(profileID).map((id) => SecureCredentials.remove({ id })))
+}
+
+/**
+ * Runs before the app renders. On Android, plain-text passwords from earlier releases move into the Keystore and
+ * the saved profiles are rewritten without them. In the browser a vault starts locked; without one nothing changes
+ * until the user sets a passphrase.
+ */
+export async function prepareCredentials(
+  store: ProfileStore,
+  saveStore: (store: ProfileStore) => void,
+  storage: StorageLike = localStorage
+): Promise<{ store: ProfileStore; state: CredentialState }> {
+  if (!Capacitor.isNativePlatform()) {
+    return loadVault(storage) ? { store: withoutPasswords(store), state: "locked" } : { store, state: "plain" }
+  }
+  try {
+    const legacy = collectPasswords(store)
+    await Promise.all(Object.entries(legacy).map(([id, secret]) => SecureCredentials.set({ id, secret })))
+    if (Object.keys(legacy).length > 0) saveStore(withoutPasswords(store))
+    const { secrets } = await SecureCredentials.get({ ids: store.profiles.flatMap((profile) => secretKeys(profile.id)) })
+    return { store: withPasswords(withoutPasswords(store), secrets), state: "native" }
+  } catch {
+    // Without the Keystore plugin (an outdated native shell) passwords stay where they were rather than being lost.
+    return { store, state: "plain" }
+  }
+}
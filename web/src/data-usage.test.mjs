@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict'
+import { DATA_USAGE_STORAGE_KEY, addDataUsage, byteLength, emptyDataUsage, loadDataUsage, saveDataUsage } from './data-usage.ts'
+
+const memoryStorage = () => {
+  const values = new Map()
+  return { getItem: (key) => values.get(key) ?? null, setItem: (key, value) => values.set(key, value) }
+}
+
+// Bytes are counted as UTF-8, not as UTF-16 string length.
+assert.equal(byteLength('abc'), 3)
+assert.equal(byteLength('è'), 2)
+
+const usage = addDataUsage(addDataUsage(emptyDataUsage(100), 'requests', 512), 'events', 64)
+assert.deepEqual(usage, { requests: 512, events: 64, since: 100 })
+assert.equal(addDataUsage(usage, 'events', -1), usage)
+assert.equal(addDataUsage(usage, 'events', Number.NaN), usage)
+
+const storage = memoryStorage()
+saveDataUsage(usage, storage)
+assert.deepEqual(loadDataUsage(storage), usage)
+storage.setItem(DATA_USAGE_STORAGE_KEY, '{broken')
+assert.equal(loadDataUsage(storage).requests, 0, 'a corrupt counter should start over')
+
+console.log('data usage tests passed')
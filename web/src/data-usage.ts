@@ -0,0 +1,72 @@
+export const DATA_USAGE_STORAGE_KEY = "opencode.remote.dataUsage"
+/** Counting happens on every response, so the total is written back at most this often. */
+const SAVE_DELAY_MS = 5_000
+
+/** Bytes received from OpenCode servers since `since`, split by REST responses and live events. */
+export type DataUsage = {
+  requests: number
+  events: number
+  since: number
+}
+
+export type DataUsageKind = "requests" | "events"
+
+type StorageLike = Pick<Storage, "getItem" | "setItem">
+
+const encoder = new TextEncoder()
+
+export function byteLength(text: string): number {
+  return encoder.encode(text).length
+}
+
+export function emptyDataUsage(now = Date.now()): DataUsage {
+  return { requests: 0, events: 0, since: now }
+}
+
+export function loadDataUsage(storage: StorageLike = localStorage): DataUsage {
+  try {
+    const parsed = JSON.parse(storage.getItem(DATA_USAGE_STORAGE_KEY) ?? "null") as Partial<DataUsage> | null
+    if (parsed && typeof parsed.requests === "number" && typeof parsed.events === "number" && typeof parsed.since === "number") {
+      return { requests: parsed.requests, events: parsed.events, since: parsed.since }
+    }
+  } catch {
+    // A corrupt counter starts over.
+  }
+  return emptyDataUsage()
+}
+
+export function saveDataUsage(usage: DataUsage, storage: StorageLike = localStorage): void {
+  try {
+    storage.setItem(DATA_USAGE_STORAGE_KEY, JSON.stringify(usage))
+  } catch {
+    // Losing a few counted bytes is better than failing the request that was being counted.
+  }
+}
+
+export function addDataUsage(usage: DataUsage, kind: DataUsageKind, bytes: number): DataUsage {
+  if (!Number.isFinite(bytes) || bytes <= 0) return usage
+  return { ...usage, [kind]: usage[kind] + bytes }
+}
+
+let current: DataUsage | null = null
+let saveTimer: ReturnType<typeof setTimeout> | undefined
+
+export function currentDataUsage(): DataUsage {
+  current ??= loadDataUsage()
+  return current
+}
+
+export function recordDataUsage(kind: DataUsageKind, bytes: number): void {
+  current = addDataUsage(currentDataUsage(), kind, bytes)
+  if (saveTimer !== undefined) return
+  saveTimer = setTimeout(() => {
+    saveTimer = undefined
+    if (current) saveDataUsage(current)
+  }, SAVE_DELAY_MS)
+}
+
+export function resetDataUsage(): DataUsage {
+  current = emptyDataUsage()
+  saveDataUsage(current)
+  return current
+}
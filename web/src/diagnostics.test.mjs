@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict'
+import {
+  DIAGNOSTIC_STEPS,
+  createBrowserDiagnosticsTransport,
+  failedStep,
+  formatDiagnosticsReport,
+  runDiagnostics,
+  serverBaseURL
+} from './diagnostics.ts'
+import { authHeaders, authMode } from './auth.ts'
+import { serverURL } from './profiles.ts'
+
+const config = { host: '192.168.1.20', port: 4096, username: 'opencode', password: 'secret' }
+const auth = { mode: authMode(config), headers: authHeaders(config) }
+const url = serverURL(config)
+const baseURL = (server) => serverBaseURL(server, serverURL(server))
+
+function transport(overrides = {}) {
+  return {
+    mode: 'native',
+    reach: async () => undefined,
+    request: async () => ({ status: 200, body: { healthy: true, version: '1.17.17' } }),
+    openEventStream: async () => ({ status: 200, contentType: 'text/event-stream' }),
+    ...overrides
+  }
+}
+
+function clock() {
+  let time = 1_000
+  return () => (time += 5)
+}
+
+assert.equal(baseURL(config), 'http://192.168.1.20:4096')
+assert.equal(baseURL({ ...config, host: 'https://box.example' }), 'https://box.example:4096')
+assert.throws(() => baseURL({ ...config, host: '192.168.1.20:4096' }), /port field/)
+assert.equal(baseURL({ ...config, host: 'https://example.com/', port: 0, basePath: '/opencode/' }), 'https://example.com/opencode')
+assert.throws(() => baseURL({ ...config, port: 70_000 }), /outside/)
+assert.throws(() => baseURL({ ...config, basePath: '/opencode?x' }), /Base path/)
+assert.throws(() => baseURL({ ...config, host: ' ' }), /No host/)
+
+// Every step passes on a healthy server; CORS only applies in the browser.
+const passing = await runDiagnostics(config, transport(), { url, auth, now: clock() })
+assert.deepEqual(passing.steps.map((step) => [step.id, step.status]), [
+  ['address', 'ok'],
+  ['reachability', 'ok'],
+  ['cors', 'skipped'],
+  ['health', 'ok'],
+  ['auth', 'ok'],
+  ['events', 'ok']
+])
+assert.equal(passing.target, 'http://192.168.1.20:4096')
+assert.equal(passing.steps[3].detail, 'OpenCode 1.17.17')
+assert.equal(passing.steps[1].durationMs, 5, 'each step is timed')
+assert.equal(failedStep(passing), null)
+
+// The report stops at the failing step and names it.
+const progress = []
+const rejected = await runDiagnostics(config, transport({
+  request: async () => ({ status: 401, body: 'Unauthorized' })
+}), { url, auth, now: clock(), onProgress: (steps) => progress.push(steps.length) })
+assert.equal(failedStep(rejected)?.id, 'auth')
+assert.match(failedStep(rejected).detail, /rejected user "opencode"/)
+assert.equal(rejected.steps.find((step) => step.id === 'events').status, 'skipped')
+assert.deepEqual(progress, [1, 2, 3, 4, 5, 6], 'progress is reported after every step')
+
+// The auth step names what was rejected in the chosen auth mode.
+const bearer = { ...config, authMode: 'bearer', token: 'proxy-token' }
+const rejectedToken = await runDiagnostics(bearer, transport({
+  request: async () => ({ status: 403, body: 'Forbidden' })
+}), { url, auth: { mode: authMode(bearer), headers: authHeaders(bearer) } })
+assert.match(failedStep(rejectedToken).detail, /rejected the bearer token/)
+assert.ok(!formatDiagnosticsReport(rejectedToken).includes('proxy-token'), 'the report must not leak the token')
+
+const unreachable = await runDiagnostics(config, transport({
+  reach: async () => { throw new Error('ECONNREFUSED') }
+}), { url })
+assert.equal(failedStep(unreachable)?.id, 'reachability')
+assert.match(failedStep(unreachable).detail, /ECONNREFUSED/)
+
+const wrongPort = await runDiagnostics(config, transport({
+  request: async () => ({ status: 200, body: '<html>' })
+}), { url })
+assert.equal(failedStep(wrongPort)?.id, 'health')
+
+const buffered = await runDiagnostics(config, transport({
+  openEventStream: async () => ({ status: 200, contentType: 'application/json' })
+}), { url })
+assert.equal(failedStep(buffered)?.id, 'events')
+assert.match(failedStep(buffered).detail, /application\/json/)
+
+// In the browser a request that fails after the host answered is the CORS preflight.
+const calls = []
+const browser = createBrowserDiagnosticsTransport(async (url, init) => {
+  calls.push({ url, init })
+  if (init.mode === 'no-cors') return new Response(null, { status: 200 })
+  throw new TypeError('Failed to fetch')
+})
+const blocked = await runDiagnostics(config, browser, { url, auth })
+assert.equal(failedStep(blocked)?.id, 'cors')
+assert.match(failedStep(blocked).detail, /--cors/)
+assert.equal(calls[1].init.headers['Content-Type'], 'application/json', 'the CORS probe should trigger a preflight')
+assert.match(calls[1].init.headers.Authorization, /^Basic /)
+
+const text = formatDiagnosticsReport(rejected)
+assert.match(text, /Result: failed at auth/)
+assert.equal(text.split('\n').filter((line) => DIAGNOSTIC_STEPS.some((id) => line.startsWith(`${id}:`))).length, DIAGNOSTIC_STEPS.length)
+assert.ok(!text.includes('secret'), 'the report must not leak the password')
+
+console.log('diagnostics tests passed')
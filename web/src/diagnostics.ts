@@ -0,0 +1,264 @@
+import type { AuthMode, ServerConfig } from "./types"
+
+/** Probe steps in the order they run; each one depends on the ones before it. */
+export const DIAGNOSTIC_STEPS = ["address", "reachability", "cors", "health", "auth", "events"] as const
+
+export type DiagnosticStepID = (typeof DIAGNOSTIC_STEPS)[number]
+
+export type DiagnosticStep = {
+  id: DiagnosticStepID
+  status: "ok" | "failed" | "skipped"
+  durationMs: number
+  detail: string
+}
+
+export type DiagnosticsReport = {
+  target: string
+  mode: "browser" | "native"
+  startedAt: number
+  steps: DiagnosticStep[]
+}
+
+export type DiagnosticResponse = {
+  status: number
+  body: unknown
+}
+
+/** How probes reach the server; the browser and the Android app differ in what they can observe. */
+export type DiagnosticsTransport = {
+  mode: "browser" | "native"
+  /** Resolves on any HTTP answer, so only DNS and TCP failures reject. */
+  reach(url: string): Promise<void>
+  request(url: string, headers: Record<string, string>): Promise<DiagnosticResponse>
+  /** Opens the event stream just long enough to read the response head. */
+  openEventStream(url: string, headers: Record<string, string>): Promise<{ status: number; contentType: string }>
+}
+
+const PROBE_TIMEOUT_MS = 10_000
+
+/** A step that ran and found the problem; `detail` says what to check. */
+class DiagnosticFailure extends Error {
+  name = "DiagnosticFailure"
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Checks the fields behind `url`, the server URL the API client uses (from `serverURL()`), and returns it normalized:
+ * the host field may carry an http(s) scheme but no port or path, those have fields of their own.
+ */
+export function serverBaseURL(config: ServerConfig, url: string): string {
+  const host = config.host.trim()
+  if (!host) throw new DiagnosticFailure("No host is set.")
+  const cleanHost = host.replace(/^https?:\/\//, "").replace(/\/+$/, "")
+  if (/[\s/?#@]/.test(cleanHost) || (cleanHost.includes(":") && !cleanHost.startsWith("["))) {
+    throw new DiagnosticFailure(`"${host}" is not a bare host name or IP address; put the port in the port field and any path in the base path field.`)
+  }
+  if (!Number.isInteger(config.port) || config.port < 0 || config.port > 65_535) {
+    throw new DiagnosticFailure(`Port ${config.port} is outside 1-65535; leave it empty for the scheme's default.`)
+  }
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new DiagnosticFailure(`"${host}" cannot be parsed as a host name.`)
+  }
+  if (parsed.search || parsed.hash || /\s/.test(config.basePath ?? "")) {
+    throw new DiagnosticFailure(`Base path "${config.basePath}" may not contain spaces, "?" or "#".`)
+  }
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, "")}`
+}
+
+/** The auth mode and headers the app sends for this server, from `authMode()` and `authHeaders()`. */
+export type DiagnosticsAuth = {
+  mode: AuthMode
+  headers: Record<string, string>
+}
+
+function rejectedCredentials(config: ServerConfig, auth: DiagnosticsAuth, status: number): string {
+  if (Object.keys(auth.headers).length === 0) {
+    return auth.mode === "none"
+      ? `The server requires authentication (HTTP ${status}) and the auth mode is "none".`
+      : `The server requires a password (HTTP ${status}) and none is set.`
+  }
+  if (auth.mode === "bearer") return `The server rejected the bearer token with HTTP ${status}.`
+  if (auth.mode === "headers") return `The server rejected the custom headers with HTTP ${status}. Check their names and values.`
+  return `The server rejected user "${config.username}" with HTTP ${status}. Check the username and password.`
+}
+
+function healthVersion(body: unknown): string | null {
+  if (!body || typeof body !== "object") return null
+  const health = body as { healthy?: unknown; version?: unknown }
+  return health.healthy === true && typeof health.version === "string" ? health.version : null
+}
+
+/**
+ * Runs every probe step against `config`, reached at `options.url` (from `serverURL()`), stopping at the first failure
+ * so the report names the exact step that broke. `onProgress` receives the steps finished so far after each one.
+ */
+export async function runDiagnostics(
+  config: ServerConfig,
+  transport: DiagnosticsTransport,
+  options: { url: string; auth?: DiagnosticsAuth; now?: () => number; onProgress?: (steps: DiagnosticStep[]) => void }
+): Promise<DiagnosticsReport> {
+  const now = options.now ?? (() => Date.now())
+  const report: DiagnosticsReport = { target: options.url, mode: transport.mode, startedAt: now(), steps: [] }
+  const auth = options.auth ?? { mode: "none", headers: {} }
+  const credentials = auth.headers
+  let base = ""
+  let healthStatus = 0
+
+  const probes: Record<DiagnosticStepID, () => Promise<string | null>> = {
+    async address() {
+      base = serverBaseURL(config, options.url)
+      report.target = base
+      return base
+    },
+    async reachability() {
+      try {
+        await transport.reach(`${base}/`)
+      } catch (error) {
+        throw new DiagnosticFailure(`Cannot resolve or connect to ${base} (${errorMessage(error)}). Check the host, the port and any firewall.`)
+      }
+      return "DNS lookup and TCP connection succeeded."
+    },
+    async cors() {
+      if (transport.mode !== "browser") return null
+      // Auth headers and a JSON content type make the browser send the same preflight the app's requests do.
+      try {
+        await transport.request(`${base}/global/health`, { Accept: "application/json", "Content-Type": "application/json", ...credentials })
+      } catch (error) {
+        const origin = typeof location === "undefined" ? "this page's origin" : location.origin
+        throw new DiagnosticFailure(`The server is reachable but the browser blocked the request (${errorMessage(error)}). Start OpenCode with --cors ${origin}.`)
+      }
+      return "Preflight accepted."
+    },
+    async health() {
+      let response: DiagnosticResponse
+      try {
+        response = await transport.request(`${base}/global/health`, { Accept: "application/json", ...credentials })
+      } catch (error) {
+        throw new DiagnosticFailure(`GET /global/health failed: ${errorMessage(error)}`)
+      }
+      healthStatus = response.status
+      if (response.status === 401 || response.status === 403) return `HTTP ${response.status}: OpenCode answered but wants valid credentials.`
+      if (response.status !== 200) throw new DiagnosticFailure(`GET /global/health answered HTTP ${response.status}.`)
+      const version = healthVersion(response.body)
+      if (!version) throw new DiagnosticFailure("Something answered on this port, but not an OpenCode server.")
+      return `OpenCode ${version}`
+    },
+    async auth() {
+      if (healthStatus === 401 || healthStatus === 403) {
+        throw new DiagnosticFailure(rejectedCredentials(config, auth, healthStatus))
+      }
+      return Object.keys(credentials).length > 0 ? "Credentials accepted." : "The server does not require a password."
+    },
+    async events() {
+      let head: { status: number; contentType: string }
+      try {
+        head = await transport.openEventStream(`${base}/global/event`, { Accept: "text/event-stream", ...credentials })
+      } catch (error) {
+        throw new DiagnosticFailure(`GET /global/event failed: ${errorMessage(error)}`)
+      }
+      if (head.status !== 200) throw new DiagnosticFailure(`GET /global/event answered HTTP ${head.status}.`)
+      if (!head.contentType.toLowerCase().includes("text/event-stream")) {
+        throw new DiagnosticFailure(`Expected text/event-stream, received ${head.contentType || "no content type"}. A proxy may be rewriting the stream.`)
+      }
+      return head.contentType
+    }
+  }
+
+  let failed = false
+  for (const id of DIAGNOSTIC_STEPS) {
+    const started = now()
+    let step: DiagnosticStep
+    if (failed) {
+      step = { id, status: "skipped", durationMs: 0, detail: "Not run after the failure above." }
+    } else {
+      try {
+        const detail = await probes[id]()
+        step = detail === null
+          ? { id, status: "skipped", durationMs: 0, detail: "Not needed outside the browser." }
+          : { id, status: "ok", durationMs: Math.round(now() - started), detail }
+      } catch (error) {
+        failed = true
+        step = { id, status: "failed", durationMs: Math.round(now() - started), detail: errorMessage(error) }
+      }
+    }
+    report.steps = [...report.steps, step]
+    options.onProgress?.(report.steps)
+  }
+  return report
+}
+
+export function failedStep(report: DiagnosticsReport): DiagnosticStep | null {
+  return report.steps.find((step) => step.status === "failed") ?? null
+}
+
+const STEP_MARKS: Record<DiagnosticStep["status"], string> = { ok: "OK", failed: "FAILED", skipped: "skipped" }
+
+/** Plain-text report for bug reports and chats; it never contains the password, token or header values. */
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const failure = failedStep(report)
+  return [
+    "OpenCode Remote diagnostics",
+    `Target: ${report.target}`,
+    `Mode: ${report.mode}`,
+    `Started: ${new Date(report.startedAt).toISOString()}`,
+    `Result: ${failure ? `failed at ${failure.id}` : "all checks passed"}`,
+    "",
+    ...report.steps.map((step) => `${step.id}: ${STEP_MARKS[step.status]}${step.status === "skipped" ? "" : ` (${step.durationMs} ms)`} - ${step.detail}`)
+  ].join("\n")
+}
+
+function withTimeout(timeoutMs = PROBE_TIMEOUT_MS): { signal: AbortSignal; done(): void } {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(new Error(`timed out after ${timeoutMs / 1000} s`)), timeoutMs)
+  return { signal: controller.signal, done: () => clearTimeout(timer) }
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    return text
+  }
+}
+
+/** Probes through fetch, where CORS applies and only opaque answers are available without it. */
+export function createBrowserDiagnosticsTransport(fetchFn: typeof fetch = fetch): DiagnosticsTransport {
+  return {
+    mode: "browser",
+    async reach(url) {
+      const timeout = withTimeout()
+      try {
+        // no-cors succeeds with an opaque response whatever the server's CORS setup, so only network failures throw.
+        await fetchFn(url, { mode: "no-cors", cache: "no-store", signal: timeout.signal })
+      } finally {
+        timeout.done()
+      }
+    },
+    async request(url, headers) {
+      const timeout = withTimeout()
+      try {
+        const response = await fetchFn(url, { headers, cache: "no-store", signal: timeout.signal })
+        return { status: response.status, body: await readBody(response) }
+      } finally {
+        timeout.done()
+      }
+    },
+    async openEventStream(url, headers) {
+      const timeout = withTimeout()
+      try {
+        const response = await fetchFn(url, { headers, cache: "no-store", signal: timeout.signal })
+        void response.body?.cancel().catch(() => undefined)
+        return { status: response.status, contentType: response.headers.get("content-type") ?? "" }
+      } finally {
+        timeout.done()
+      }
+    }
+  }
+}
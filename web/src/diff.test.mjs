@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict'
+import { buildHunks, diffLines, splitRows, wordDiff } from './diff.ts'
+
+const kinds = (lines) => lines.map((line) => `${line.kind}:${line.text}`)
+
+// Lines are matched with a shortest edit script and numbered on both sides.
+const lines = diffLines('a\nb\nc\n', 'a\nB\nc\nd\n')
+assert.deepEqual(kinds(lines), ['context:a', 'remove:b', 'add:B', 'context:c', 'add:d'])
+assert.deepEqual(lines.map((line) => [line.oldNumber, line.newNumber]), [[1, 1], [2, undefined], [undefined, 2], [3, 3], [undefined, 4]])
+
+// Hunks keep three lines of context and use the same ranges as `diff -u`.
+const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n')
+const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', '')
+const hunks = buildHunks(before, after)
+assert.equal(hunks.length, 2)
+assert.deepEqual(hunks.map((hunk) => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines]), [[1, 5, 1, 5], [15, 6, 15, 5]])
+
+// Replaced lines carry word-level segments so only the changed words are marked.
+const replaced = hunks[0].lines.filter((line) => line.kind !== 'context')
+assert.deepEqual(replaced[0].segments, [{ text: 'line ', changed: false }, { text: '2', changed: true }])
+assert.deepEqual(replaced[1].segments, [{ text: 'line ', changed: false }, { text: 'two', changed: true }])
+assert.deepEqual(wordDiff('same', 'same'), { before: [{ text: 'same', changed: false }], after: [{ text: 'same', changed: false }] })
+
+// Split rows pair removals with additions and leave the shorter side empty.
+const rows = splitRows(buildHunks('x\ny\n', 'z\n')[0])
+assert.deepEqual(rows.map((row) => [row.left?.text, row.right?.text]), [['x', 'z'], ['y', undefined]])
+
+// New and deleted files become a single all-added or all-removed hunk.
+assert.deepEqual(buildHunks('', 'one\ntwo\n').map((hunk) => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines]), [[0, 0, 1, 2]])
+assert.deepEqual(buildHunks('same\n', 'same\n'), [])
+
+console.log('diff tests passed')
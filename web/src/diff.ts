@@ -0,0 +1,233 @@
+export type DiffLineKind = "context" | "add" | "remove"
+
+export type DiffSegment = {
+  text: string
+  changed: boolean
+}
+
+export type DiffLine = {
+  kind: DiffLineKind
+  text: string
+  oldNumber?: number
+  newNumber?: number
+  /** Word-level split against the paired line on the other side, when there is one. */
+  segments?: DiffSegment[]
+}
+
+export type DiffHunk = {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export type SplitRow = {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+/** Above this edit distance the diff degrades to "everything replaced" instead of stalling the UI. */
+const MAX_EDIT_DISTANCE = 4000
+/** Upper bound on stored trace cells (Int32) so huge rewrites cannot exhaust a phone's memory. */
+const MAX_TRACE_CELLS = 8_000_000
+const MAX_WORD_TOKENS = 400
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  const lines = text.split("\n")
+  if (lines[lines.length - 1] === "") lines.pop()
+  return lines
+}
+
+type EditOp = { kind: DiffLineKind; a?: number; b?: number }
+
+/** Shortest edit script; common prefix and suffix are matched directly before running Myers on the rest. */
+function editScript<T>(a: T[], b: T[], maxDistance: number): EditOp[] | null {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), maxDistance)
+  if (!middle) return null
+  const head = Array.from({ length: prefix }, (_, index): EditOp => ({ kind: "context", a: index, b: index }))
+  const tail = Array.from({ length: suffix }, (_, index): EditOp => ({ kind: "context", a: a.length - suffix + index, b: b.length - suffix + index }))
+  const body = middle.map((op): EditOp => ({
+    kind: op.kind,
+    a: op.a === undefined ? undefined : op.a + prefix,
+    b: op.b === undefined ? undefined : op.b + prefix
+  }))
+  return [...head, ...body, ...tail]
+}
+
+/** Myers' O(ND) shortest edit script over arbitrary token arrays. */
+function myers<T>(a: T[], b: T[], maxDistance: number): EditOp[] | null {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const trace: Int32Array[] = []
+  let v = new Int32Array(2 * max + 3)
+  let found = false
+  const limit = Math.min(max, maxDistance, Math.floor(MAX_TRACE_CELLS / v.length))
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+    if (found) break
+  }
+  if (!found) return null
+
+  const ops: EditOp[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    v = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1
+    const prevX = v[offset + prevK]
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: "context", a: --x, b: --y })
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ kind: "add", b: --y })
+      else ops.push({ kind: "remove", a: --x })
+    }
+  }
+  return ops.reverse()
+}
+
+/** Full line-by-line comparison of two file versions, numbered from 1. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = splitLines(before)
+  const newLines = splitLines(after)
+  const ops = editScript(oldLines, newLines, MAX_EDIT_DISTANCE) ?? [
+    ...oldLines.map((_, index): EditOp => ({ kind: "remove", a: index })),
+    ...newLines.map((_, index): EditOp => ({ kind: "add", b: index }))
+  ]
+  return ops.map((op) => ({
+    kind: op.kind,
+    text: op.a !== undefined ? oldLines[op.a] : newLines[op.b ?? 0],
+    oldNumber: op.a !== undefined ? op.a + 1 : undefined,
+    newNumber: op.b !== undefined ? op.b + 1 : undefined
+  }))
+}
+
+function tokenize(line: string): string[] {
+  return line.match(/\w+|\s+|[^\w\s]/g) ?? []
+}
+
+/** Marks the words that differ between a removed line and the added line replacing it. */
+export function wordDiff(before: string, after: string): { before: DiffSegment[]; after: DiffSegment[] } {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const ops = a.length + b.length <= MAX_WORD_TOKENS ? editScript(a, b, MAX_WORD_TOKENS) : null
+  if (!ops) return { before: [{ text: before, changed: true }], after: [{ text: after, changed: true }] }
+  const left: DiffSegment[] = []
+  const right: DiffSegment[] = []
+  const push = (segments: DiffSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1]
+    if (last && last.changed === changed) last.text += text
+    else segments.push({ text, changed })
+  }
+  for (const op of ops) {
+    if (op.kind === "context") {
+      push(left, a[op.a ?? 0], false)
+      push(right, b[op.b ?? 0], false)
+    } else if (op.kind === "remove") {
+      push(left, a[op.a ?? 0], true)
+    } else {
+      push(right, b[op.b ?? 0], true)
+    }
+  }
+  return { before: left, after: right }
+}
+
+/** Pairs each run of removed lines with the added run right after it and attaches word segments. */
+function withWordSegments(lines: DiffLine[]): DiffLine[] {
+  const result = lines.map((line) => ({ ...line }))
+  let index = 0
+  while (index < result.length) {
+    if (result[index].kind !== "remove") {
+      index++
+      continue
+    }
+    const removeStart = index
+    while (index < result.length && result[index].kind === "remove") index++
+    const addStart = index
+    while (index < result.length && result[index].kind === "add") index++
+    const pairs = Math.min(addStart - removeStart, index - addStart)
+    for (let offset = 0; offset < pairs; offset++) {
+      const removed = result[removeStart + offset]
+      const added = result[addStart + offset]
+      const segments = wordDiff(removed.text, added.text)
+      removed.segments = segments.before
+      added.segments = segments.after
+    }
+  }
+  return result
+}
+
+/** Groups changes into hunks with `context` unchanged lines around each edit, like `diff -u`. */
+export function buildHunks(before: string, after: string, context = 3): DiffHunk[] {
+  const lines = diffLines(before, after)
+  const ranges: Array<[number, number]> = []
+  lines.forEach((line, index) => {
+    if (line.kind === "context") return
+    const start = Math.max(0, index - context)
+    const end = Math.min(lines.length - 1, index + context)
+    const last = ranges[ranges.length - 1]
+    if (last && start <= last[1] + 1) last[1] = Math.max(last[1], end)
+    else ranges.push([start, end])
+  })
+
+  return ranges.map(([start, end]) => {
+    const slice = lines.slice(start, end + 1)
+    const oldBefore = lines.slice(0, start).filter((line) => line.kind !== "add").length
+    const newBefore = lines.slice(0, start).filter((line) => line.kind !== "remove").length
+    const oldLines = slice.filter((line) => line.kind !== "add").length
+    const newLines = slice.filter((line) => line.kind !== "remove").length
+    return {
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: withWordSegments(slice)
+    }
+  })
+}
+
+/** Side-by-side rows: context on both sides, removed lines on the left paired with added lines on the right. */
+export function splitRows(hunk: DiffHunk): SplitRow[] {
+  const rows: SplitRow[] = []
+  let index = 0
+  const lines = hunk.lines
+  while (index < lines.length) {
+    const line = lines[index]
+    if (line.kind === "context") {
+      rows.push({ left: line, right: line })
+      index++
+      continue
+    }
+    const removed: DiffLine[] = []
+    const added: DiffLine[] = []
+    while (index < lines.length && lines[index].kind === "remove") removed.push(lines[index++])
+    while (index < lines.length && lines[index].kind === "add") added.push(lines[index++])
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row] })
+    }
+  }
+  return rows
+}
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict'
+import { highlightLines, languageFor } from './highlight.ts'
+
+assert.equal(languageFor('src/App.tsx'), 'c')
+assert.equal(languageFor('scripts/build.py'), 'python')
+assert.equal(languageFor('Dockerfile'), 'shell')
+assert.equal(languageFor('README'), null)
+
+const kinds = (line) => line.map((token) => `${token.kind}:${token.text}`)
+
+// Keywords, strings, numbers and comments are tokenised; everything else stays plain text.
+const ts = highlightLines('const port = 4096 // default\nreturn "a // b"', 'c')
+assert.equal(ts.length, 2)
+assert.deepEqual(kinds(ts[0]), ['keyword:const', 'plain: ', 'plain:port', 'plain: = ', 'number:4096', 'plain: ', 'comment:// default'])
+assert.deepEqual(kinds(ts[1]), ['keyword:return', 'plain: ', 'string:"a // b"'])
+
+// Block comments and triple-quoted strings spanning lines keep their colour on every line.
+const block = highlightLines('/* one\ntwo */ x', 'c')
+assert.deepEqual(kinds(block[0]), ['comment:/* one'])
+assert.deepEqual(kinds(block[1]), ['comment:two */', 'plain: ', 'plain:x'])
+const python = highlightLines('def f():\n    """doc\n    more"""', 'python')
+assert.deepEqual(kinds(python[0]).slice(0, 1), ['keyword:def'])
+assert.deepEqual(kinds(python[2]), ['string:    more"""'])
+
+// Unknown languages and empty lines survive as plain rows so line numbers stay aligned.
+assert.deepEqual(highlightLines('a\n\nb', null).map((line) => line.length), [1, 0, 1])
+
+console.log('highlight tests passed')
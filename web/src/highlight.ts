@@ -0,0 +1,127 @@
+export type TokenKind = "plain" | "keyword" | "string" | "comment" | "number"
+
+export type HighlightToken = {
+  kind: TokenKind
+  text: string
+}
+
+type Language = {
+  lineComment?: string
+  blockComment?: [string, string]
+  strings: string[]
+  keywords: Set<string>
+}
+
+const C_LIKE_KEYWORDS = [
+  "abstract", "as", "async", "await", "break", "case", "catch", "class", "const", "continue", "default", "defer", "delete",
+  "do", "else", "enum", "export", "extends", "false", "final", "finally", "fn", "for", "from", "func", "function", "go",
+  "if", "impl", "implements", "import", "in", "instanceof", "interface", "let", "match", "mod", "mut", "new", "null",
+  "nil", "package", "private", "protected", "pub", "public", "return", "self", "static", "struct", "super", "switch",
+  "this", "throw", "throws", "trait", "true", "try", "type", "typeof", "undefined", "use", "val", "var", "void", "where",
+  "while", "yield"
+]
+
+const PYTHON_KEYWORDS = [
+  "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else", "except", "False",
+  "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "None", "nonlocal", "not", "or", "pass",
+  "raise", "return", "True", "try", "while", "with", "yield"
+]
+
+const SHELL_KEYWORDS = [
+  "case", "do", "done", "echo", "elif", "else", "esac", "exit", "export", "fi", "for", "function", "if", "in", "local",
+  "return", "then", "while", "true", "false", "null", "yes", "no"
+]
+
+const SQL_KEYWORDS = [
+  "and", "as", "by", "create", "delete", "from", "group", "insert", "into", "join", "left", "limit", "not", "null", "on",
+  "or", "order", "select", "set", "table", "update", "values", "where"
+]
+
+const languages: Record<string, Language> = {
+  c: { lineComment: "//", blockComment: ["/*", "*/"], strings: ["\"", "'", "`"], keywords: new Set(C_LIKE_KEYWORDS) },
+  python: { lineComment: "#", strings: ["\"\"\"", "'''", "\"", "'"], keywords: new Set(PYTHON_KEYWORDS) },
+  shell: { lineComment: "#", strings: ["\"", "'"], keywords: new Set(SHELL_KEYWORDS) },
+  json: { strings: ["\""], keywords: new Set(["true", "false", "null"]) },
+  css: { blockComment: ["/*", "*/"], strings: ["\"", "'"], keywords: new Set(["important"]) },
+  markup: { blockComment: ["<!--", "-->"], strings: ["\"", "'"], keywords: new Set() },
+  sql: { lineComment: "--", blockComment: ["/*", "*/"], strings: ["'", "\""], keywords: new Set(SQL_KEYWORDS) }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  ts: "c", tsx: "c", js: "c", jsx: "c", mjs: "c", cjs: "c", java: "c", kt: "c", kts: "c", go: "c", rs: "c", c: "c",
+  h: "c", cc: "c", cpp: "c", hpp: "c", cs: "c", swift: "c", dart: "c", scala: "c", php: "c", gradle: "c",
+  py: "python",
+  sh: "shell", bash: "shell", zsh: "shell", yml: "shell", yaml: "shell", toml: "shell", rb: "shell", env: "shell",
+  json: "json", jsonc: "c",
+  css: "css", scss: "css", less: "css",
+  html: "markup", htm: "markup", xml: "markup", svg: "markup", vue: "markup",
+  sql: "sql"
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+export function languageFor(path: string): string | null {
+  const name = path.split("/").pop()?.toLowerCase() ?? ""
+  if (name === "dockerfile" || name === "makefile") return "shell"
+  const extension = name.includes(".") ? name.split(".").pop() ?? "" : ""
+  return EXTENSIONS[extension] ?? null
+}
+
+function tokenPattern(language: Language): RegExp {
+  const alternatives: string[] = []
+  if (language.blockComment) {
+    const [open, close] = language.blockComment.map(escapeRegExp)
+    alternatives.push(`(?<comment>${open}[\\s\\S]*?(?:${close}|$))`)
+  }
+  if (language.lineComment) alternatives.push(`(?<line>${escapeRegExp(language.lineComment)}[^\\n]*)`)
+  const strings = language.strings.map((quote) => {
+    const q = escapeRegExp(quote)
+    return quote.length === 3 ? `${q}[\\s\\S]*?(?:${q}|$)` : `${q}(?:\\\\.|(?!${q})[^\\\\\\n])*(?:${q})?`
+  })
+  if (strings.length > 0) alternatives.push(`(?<string>${strings.join("|")})`)
+  alternatives.push("(?<number>\\b\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b|\\b0x[\\da-f]+\\b)")
+  alternatives.push("(?<word>[A-Za-z_$][\\w$]*)")
+  return new RegExp(alternatives.join("|"), "gi")
+}
+
+/** Splits source into lines of coloured tokens; unknown languages come back as plain text. */
+export function highlightLines(source: string, language: string | null): HighlightToken[][] {
+  const definition = language ? languages[language] : undefined
+  const tokens: HighlightToken[] = []
+  if (!definition) {
+    tokens.push({ kind: "plain", text: source })
+  } else {
+    const pattern = tokenPattern(definition)
+    let last = 0
+    for (const match of source.matchAll(pattern)) {
+      const index = match.index ?? 0
+      if (match[0].length === 0) continue
+      if (index > last) tokens.push({ kind: "plain", text: source.slice(last, index) })
+      const groups = match.groups ?? {}
+      const word = language === "sql" ? match[0].toLowerCase() : match[0]
+      const kind: TokenKind = groups.comment || groups.line
+        ? "comment"
+        : groups.string
+          ? "string"
+          : groups.number
+            ? "number"
+            : definition.keywords.has(word)
+              ? "keyword"
+              : "plain"
+      tokens.push({ kind, text: match[0] })
+      last = index + match[0].length
+    }
+    if (last < source.length) tokens.push({ kind: "plain", text: source.slice(last) })
+  }
+
+  const lines: HighlightToken[][] = [[]]
+  for (const token of tokens) {
+    token.text.split("\n").forEach((text, index) => {
+      if (index > 0) lines.push([])
+      if (text) lines[lines.length - 1].push({ kind: token.kind, text })
+    })
+  }
+  return lines
+}
@@ -5,7 +5,9 @@ type TranslationKey =
   | 'nav.settings'
   | 'nav.sessions'
   | 'nav.detail'
+  | 'nav.files'
   | 'nav.help'
+  | 'nav.switchServer'
   | 'menu.title'
   | 'menu.settingsDescription'
   | 'menu.sessionsDescription'
@@ -15,9 +17,113 @@ type TranslationKey =
   | 'settings.host'
   | 'settings.hostPlaceholder'
   | 'settings.port'
+  | 'settings.portHint'
+  | 'settings.basePath'
+  | 'settings.basePathHint'
   | 'settings.username'
   | 'settings.password'
   | 'settings.passwordPlaceholder'
+  | 'settings.authMode'
+  | 'settings.authMode.none'
+  | 'settings.authMode.basic'
+  | 'settings.authMode.bearer'
+  | 'settings.authMode.headers'
+  | 'settings.authModeHint'
+  | 'settings.token'
+  | 'settings.tokenPlaceholder'
+  | 'settings.customHeaders'
+  | 'settings.customHeadersHint'
+  | 'settings.customHeadersInvalid'
+  | 'tls.pins'
+  | 'tls.pinsHint'
+  | 'tls.pinInvalid'
+  | 'tls.certificates'
+  | 'tls.certificatesHint'
+  | 'tls.importFile'
+  | 'tls.importFailed'
+  | 'tls.needsHttps'
+  | 'tls.promptTitle'
+  | 'tls.promptBody'
+  | 'tls.promptCompare'
+  | 'tls.subject'
+  | 'tls.issuer'
+  | 'tls.validity'
+  | 'tls.trust'
+  | 'tls.decline'
+  | 'settings.pinnedDirectories'
+  | 'settings.pinnedDirectoriesPlaceholder'
+  | 'settings.pinnedDirectoriesHint'
+  | 'credentials.title'
+  | 'credentials.plain'
+  | 'credentials.unsupported'
+  | 'credentials.locked'
+  | 'credentials.encrypted'
+  | 'credentials.passphrase'
+  | 'credentials.passphraseConfirm'
+  | 'credentials.passphraseTooShort'
+  | 'credentials.passphraseMismatch'
+  | 'credentials.wrongPassphrase'
+  | 'credentials.protect'
+  | 'credentials.unlock'
+  | 'credentials.reset'
+  | 'credentials.notNow'
+  | 'credentials.unlockTitle'
+  | 'credentials.unlockBody'
+  | 'credentials.unlockToSave'
+  | 'appLock.settingsTitle'
+  | 'appLock.settingsHint'
+  | 'appLock.unsupported'
+  | 'appLock.enabled'
+  | 'appLock.needsPin'
+  | 'appLock.timeout'
+  | 'appLock.timeoutLaunch'
+  | 'appLock.timeoutMinutes'
+  | 'appLock.protectActions'
+  | 'appLock.protectActionsHint'
+  | 'appLock.pin'
+  | 'appLock.newPin'
+  | 'appLock.pinConfirm'
+  | 'appLock.setPin'
+  | 'appLock.changePin'
+  | 'appLock.pinInvalid'
+  | 'appLock.pinMismatch'
+  | 'appLock.pinSaved'
+  | 'appLock.title'
+  | 'appLock.bodyBiometric'
+  | 'appLock.bodyPin'
+  | 'appLock.biometricSubtitle'
+  | 'appLock.useBiometric'
+  | 'appLock.unlock'
+  | 'appLock.cancel'
+  | 'appLock.wrongPin'
+  | 'appLock.tooManyAttempts'
+  | 'appLock.confirmDelete'
+  | 'appLock.confirmAbort'
+  | 'appLock.confirmChange'
+  | 'appLock.confirmDisable'
+  | 'appLock.confirmRelax'
+  | 'settings.diagnostics'
+  | 'diagnostics.title'
+  | 'diagnostics.back'
+  | 'diagnostics.step.address'
+  | 'diagnostics.step.reachability'
+  | 'diagnostics.step.cors'
+  | 'diagnostics.step.health'
+  | 'diagnostics.step.auth'
+  | 'diagnostics.step.events'
+  | 'diagnostics.status.ok'
+  | 'diagnostics.status.failed'
+  | 'diagnostics.status.skipped'
+  | 'diagnostics.status.running'
+  | 'diagnostics.status.pending'
+  | 'diagnostics.duration'
+  | 'diagnostics.failedAt'
+  | 'diagnostics.allPassed'
+  | 'diagnostics.running'
+  | 'diagnostics.runAgain'
+  | 'diagnostics.copy'
+  | 'diagnostics.copied'
+  | 'diagnostics.report'
   | 'settings.save'
   | 'settings.saving'
   | 'settings.test'
@@ -28,10 +134,33 @@ type TranslationKey =
   | 'settings.connectionFailed'
   | 'settings.connectedTo'
   | 'settings.language'
+  | 'settings.appPreferences'
+  | 'settings.appPreferencesHint'
   | 'settings.theme'
   | 'settings.themeSystem'
   | 'settings.themeLight'
   | 'settings.themeDark'
+  | 'settings.notifications'
+  | 'settings.toggleOn'
+  | 'settings.toggleOff'
+  | 'settings.notificationsHint'
+  | 'settings.backgroundStream'
+  | 'settings.backgroundStreamHint'
+  | 'settings.idleTimeout'
+  | 'settings.idleTimeoutHint'
+  | 'settings.dataUsage'
+  | 'settings.dataUsageSince'
+  | 'settings.dataUsageBreakdown'
+  | 'settings.dataUsageLive'
+  | 'settings.dataUsagePolling'
+  | 'settings.dataUsageReset'
+  | 'background.title'
+  | 'background.idle'
+  | 'background.busy'
+  | 'notifications.completed'
+  | 'notifications.retry'
+  | 'notifications.error'
+  | 'notifications.permission'
   | 'settings.draftHint'
   | 'settings.testedNotSaved'
   | 'settings.savedButton'
@@ -41,15 +170,34 @@ type TranslationKey =
   | 'settings.readyToTest'
   | 'settings.unsavedChanges'
   | 'settings.noUnsavedChanges'
+  | 'settings.profilesTitle'
+  | 'settings.profilesHint'
+  | 'settings.profilesEmpty'
+  | 'settings.addProfile'
+  | 'settings.editProfile'
+  | 'settings.useProfile'
+  | 'settings.setDefaultProfile'
+  | 'settings.profileActive'
+  | 'settings.profileDefault'
+  | 'settings.newProfile'
+  | 'settings.editingProfile'
+  | 'settings.profileName'
+  | 'settings.profileNamePlaceholder'
+  | 'settings.profileDeleteTitle'
+  | 'settings.profileDeleteBody'
+  | 'settings.profileDeleteConfirm'
   | 'connection.connecting'
   | 'connection.loadingSessions'
   | 'connection.refreshing'
   | 'connection.reconnecting'
   | 'connection.connected'
   | 'connection.offline'
+  | 'connection.stale'
+  | 'connection.staleCopy'
   | 'events.live'
   | 'events.connecting'
   | 'events.reconnecting'
+  | 'events.stale'
   | 'events.fallback'
   | 'events.unknownError'
   | 'sessions.loadingTitle'
@@ -60,6 +208,9 @@ type TranslationKey =
   | 'sessions.new'
   | 'sessions.creating'
   | 'sessions.refresh'
+  | 'sessions.allServers'
+  | 'sessions.thisServer'
+  | 'sessions.serversUnreachable'
   | 'sessions.projectDirectoryLabel'
   | 'sessions.projectDirectoryPlaceholder'
   | 'sessions.projectDirectoryActive'
@@ -83,6 +234,8 @@ type TranslationKey =
   | 'detail.loading'
   | 'detail.emptyTitle'
   | 'detail.emptyHint'
+  | 'detail.loadOlder'
+  | 'detail.loadingOlder'
   | 'detail.composerPlaceholder'
   | 'detail.waiting'
   | 'detail.send'
@@ -103,6 +256,64 @@ type TranslationKey =
   | 'detail.filesCount'
   | 'detail.miniDiffAria'
   | 'detail.linesAddedDeleted'
+  | 'parts.input'
+  | 'parts.output'
+  | 'parts.noOutput'
+  | 'parts.error'
+  | 'parts.duration'
+  | 'parts.reasoning'
+  | 'parts.file'
+  | 'parts.fileNotCached'
+  | 'parts.stepStart'
+  | 'parts.stepFinish'
+  | 'parts.stepTokens'
+  | 'parts.stepCost'
+  | 'parts.snapshot'
+  | 'parts.patch'
+  | 'permissions.awaiting'
+  | 'permissions.title'
+  | 'permissions.allowOnce'
+  | 'permissions.allowAlways'
+  | 'permissions.reject'
+  | 'composer.attachFile'
+  | 'composer.takePhoto'
+  | 'composer.removeAttachment'
+  | 'composer.attachmentsUnsupported'
+  | 'files.title'
+  | 'files.noSession'
+  | 'files.root'
+  | 'files.back'
+  | 'files.loading'
+  | 'files.empty'
+  | 'files.insertReference'
+  | 'files.searchPlaceholder'
+  | 'files.matches'
+  | 'files.clearSearch'
+  | 'files.binary'
+  | 'files.truncated'
+  | 'diff.review'
+  | 'diff.back'
+  | 'diff.modeLabel'
+  | 'diff.unified'
+  | 'diff.split'
+  | 'diff.hunkPosition'
+  | 'diff.noContent'
+  | 'diff.noChanges'
+  | 'diff.status.added'
+  | 'diff.status.deleted'
+  | 'revert.title'
+  | 'revert.body'
+  | 'revert.noFiles'
+  | 'revert.confirm'
+  | 'revert.banner'
+  | 'revert.unrevert'
+  | 'outbox.queued'
+  | 'outbox.rejected'
+  | 'outbox.attachments'
+  | 'outbox.retry'
+  | 'outbox.cancel'
+  | 'outbox.tooLarge'
+  | 'outbox.notSaved'
   | 'detail.modelPanelLabel'
   | 'detail.aiTitle'
   | 'detail.refreshAi'
@@ -155,7 +366,9 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'nav.settings': 'Settings',
     'nav.sessions': 'Sessions',
     'nav.detail': 'Detail',
+    'nav.files': 'Files',
     'nav.help': 'Help',
+    'nav.switchServer': 'Switch server',
     'menu.title': 'Menu',
     'menu.settingsDescription': 'Configure server connection',
     'menu.sessionsDescription': 'Manage your sessions',
@@ -165,9 +378,113 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'settings.host': 'Host Address',
     'settings.hostPlaceholder': '192.168.1.100, localhost, or https://example.com',
     'settings.port': 'Port',
+    'settings.portHint': 'Leave empty to use the scheme\'s default port (80 for http, 443 for https), as behind a reverse proxy.',
+    'settings.basePath': 'Base path',
+    'settings.basePathHint': 'Only needed when a reverse proxy serves OpenCode under a path, e.g. https://example.com/opencode/.',
     'settings.username': 'Username',
     'settings.password': 'Password',
     'settings.passwordPlaceholder': 'Optional; leave blank for unsecured local server',
+    'settings.authMode': 'Authentication',
+    'settings.authMode.none': 'None',
+    'settings.authMode.basic': 'Basic Auth (username and password)',
+    'settings.authMode.bearer': 'Bearer token',
+    'settings.authMode.headers': 'Custom headers',
+    'settings.authModeHint': 'Pick what the server or the reverse proxy in front of it (Cloudflare Access, oauth2-proxy, Tailscale Serve) expects.',
+    'settings.token': 'Token',
+    'settings.tokenPlaceholder': 'Sent as Authorization: Bearer …',
+    'settings.customHeaders': 'Headers',
+    'settings.customHeadersHint': 'One Name: value per line, for example CF-Access-Client-Id: …. In the browser the server must allow these headers in CORS.',
+    'settings.customHeadersInvalid': 'Line {line} is not a Name: value header.',
+    'tls.pins': 'Pinned certificate fingerprints (SHA-256)',
+    'tls.pinsHint': 'One per line, as printed by openssl x509 -noout -fingerprint -sha256. Pins match the server\'s own certificate, not its CA; once set, only these certificates (or the certificates below) are accepted for this server.',
+    'tls.pinInvalid': 'Not a SHA-256 fingerprint: {pin}',
+    'tls.certificates': 'Trusted certificates (PEM)',
+    'tls.certificatesHint': 'Paste or import your own CA or the server\'s self-signed certificate. They replace the system certificate store for this server.',
+    'tls.importFile': 'Import certificate file',
+    'tls.importFailed': '{name} does not contain a certificate.',
+    'tls.needsHttps': 'Certificates only apply to https:// hosts.',
+    'tls.promptTitle': 'Trust this certificate?',
+    'tls.promptBody': '{server} presented a certificate this device does not trust, for example a self-signed one.',
+    'tls.promptCompare': 'Only trust it if the fingerprint matches the one shown on your server. The app will then accept only this certificate for the server.',
+    'tls.subject': 'Issued to',
+    'tls.issuer': 'Issued by',
+    'tls.validity': 'Valid',
+    'tls.trust': 'Trust',
+    'tls.decline': 'Don\'t trust',
+    'settings.pinnedDirectories': 'Live updates for projects',
+    'settings.pinnedDirectoriesPlaceholder': 'One project directory per line',
+    'settings.pinnedDirectoriesHint': 'Leave empty to follow every project. With pinned projects, other projects\' sessions update only when you refresh.',
+    'credentials.title': 'Password protection',
+    'credentials.plain': 'Passwords are saved unencrypted in this browser. Set a passphrase to encrypt them; you will enter it each time the app opens.',
+    'credentials.unsupported': 'Encryption needs HTTPS or localhost, so passwords are saved unencrypted in this browser.',
+    'credentials.locked': 'Saved passwords are encrypted. Enter the passphrase to use them.',
+    'credentials.encrypted': 'Saved passwords are encrypted with your passphrase.',
+    'credentials.passphrase': 'Passphrase',
+    'credentials.passphraseConfirm': 'Repeat passphrase',
+    'credentials.passphraseTooShort': 'Use at least 8 characters.',
+    'credentials.passphraseMismatch': 'The passphrases do not match.',
+    'credentials.wrongPassphrase': 'Wrong passphrase.',
+    'credentials.protect': 'Encrypt passwords',
+    'credentials.unlock': 'Unlock',
+    'credentials.reset': 'Forget saved passwords',
+    'credentials.notNow': 'Not now',
+    'credentials.unlockTitle': 'Unlock saved passwords',
+    'credentials.unlockBody': 'Server passwords are encrypted in this browser. Enter your passphrase to connect.',
+    'credentials.unlockToSave': 'Unlock saved passwords before saving',
+    'appLock.settingsTitle': 'App lock',
+    'appLock.settingsHint': 'Ask for a PIN, or fingerprint and face unlock on Android, when the app opens and after a period of inactivity.',
+    'appLock.unsupported': 'The app lock needs a secure (https) page in the browser.',
+    'appLock.enabled': 'Lock the app',
+    'appLock.needsPin': 'Set a PIN first; it is the fallback when biometrics are unavailable.',
+    'appLock.timeout': 'Lock again after',
+    'appLock.timeoutLaunch': 'Only at launch',
+    'appLock.timeoutMinutes': '{minutes} min of inactivity',
+    'appLock.protectActions': 'Confirm destructive actions',
+    'appLock.protectActionsHint': 'Unlock again before deleting or stopping a session.',
+    'appLock.pin': 'PIN',
+    'appLock.newPin': 'New PIN',
+    'appLock.pinConfirm': 'Repeat PIN',
+    'appLock.setPin': 'Set PIN and lock',
+    'appLock.changePin': 'Change PIN',
+    'appLock.pinInvalid': 'The PIN must be 4 to 12 digits.',
+    'appLock.pinMismatch': 'The two PINs do not match.',
+    'appLock.pinSaved': 'PIN saved. The app will ask for it from now on.',
+    'appLock.title': 'OpenCode Remote is locked',
+    'appLock.bodyBiometric': 'Unlock with your fingerprint, face or device credential, or enter the app PIN.',
+    'appLock.bodyPin': 'Enter the app PIN to continue.',
+    'appLock.biometricSubtitle': 'Confirm it\'s you',
+    'appLock.useBiometric': 'Use biometrics',
+    'appLock.unlock': 'Unlock',
+    'appLock.cancel': 'Cancel',
+    'appLock.wrongPin': 'Wrong PIN.',
+    'appLock.tooManyAttempts': 'Too many wrong PINs. Try again in {seconds} s.',
+    'appLock.confirmDelete': 'Unlock to delete the session',
+    'appLock.confirmAbort': 'Unlock to stop the session',
+    'appLock.confirmChange': 'Unlock to change the PIN',
+    'appLock.confirmDisable': 'Unlock to turn off the app lock',
+    'appLock.confirmRelax': 'Unlock to relax the app lock',
+    'settings.diagnostics': 'Diagnose connection',
+    'diagnostics.title': 'Connection diagnostics',
+    'diagnostics.back': 'Back to settings',
+    'diagnostics.step.address': 'Host and port',
+    'diagnostics.step.reachability': 'DNS and TCP reachability',
+    'diagnostics.step.cors': 'CORS preflight',
+    'diagnostics.step.health': 'OpenCode health check',
+    'diagnostics.step.auth': 'Authentication',
+    'diagnostics.step.events': 'Live event stream',
+    'diagnostics.status.ok': 'OK',
+    'diagnostics.status.failed': 'Failed',
+    'diagnostics.status.skipped': 'Skipped',
+    'diagnostics.status.running': 'Running…',
+    'diagnostics.status.pending': 'Waiting',
+    'diagnostics.duration': '{ms} ms',
+    'diagnostics.failedAt': 'Failed at: {step}',
+    'diagnostics.allPassed': 'All checks passed',
+    'diagnostics.running': 'Running…',
+    'diagnostics.runAgain': 'Run again',
+    'diagnostics.copy': 'Copy report',
+    'diagnostics.copied': 'Copied',
+    'diagnostics.report': 'Diagnostics report',
     'settings.save': 'Save Configuration',
     'settings.saving': 'Saving...',
     'settings.test': 'Test Connection',
@@ -179,34 +496,79 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'settings.testedNotSaved': 'Connection OK: OpenCode {version}. Nothing was saved yet.',
     'settings.savedButton': 'Saved',
     'settings.testOk': 'Test OK',
-    'settings.testNeedsFields': 'Enter host, port, and username to test.',
+    'settings.testNeedsFields': 'Enter host, port, and the credentials of the chosen authentication to test.',
     'settings.testAlreadyPassed': 'This draft already passed the connection test.',
     'settings.readyToTest': 'Ready to test these fields.',
     'settings.unsavedChanges': 'Unsaved changes: tap Save to use them in Sessions.',
     'settings.noUnsavedChanges': 'Saved settings are active.',
+    'settings.profilesTitle': 'Server profiles',
+    'settings.profilesHint': 'Save each OpenCode server once and switch between them from the top bar.',
+    'settings.profilesEmpty': 'No servers saved yet. Fill in the form below and tap Save.',
+    'settings.addProfile': 'Add server',
+    'settings.editProfile': 'Edit',
+    'settings.useProfile': 'Connect',
+    'settings.setDefaultProfile': 'Set default',
+    'settings.profileActive': 'Active',
+    'settings.profileDefault': 'Default',
+    'settings.newProfile': 'New server',
+    'settings.editingProfile': 'Editing {name}',
+    'settings.profileName': 'Profile name',
+    'settings.profileNamePlaceholder': 'Workstation, build box, cloud VM...',
+    'settings.profileDeleteTitle': 'Delete server profile?',
+    'settings.profileDeleteBody': 'This removes the saved connection for',
+    'settings.profileDeleteConfirm': 'Delete profile',
     'connection.connecting': 'Connecting to OpenCode...',
     'connection.loadingSessions': 'Connecting and loading sessions...',
     'connection.refreshing': 'Refreshing sessions...',
     'connection.reconnecting': 'Connection is slow; retrying quietly...',
     'connection.connected': 'Connected',
     'connection.offline': 'OpenCode is not reachable',
+    'connection.stale': 'Offline copy',
+    'connection.staleCopy': 'Showing the offline copy saved {time}',
     'events.live': 'Live updates on ({count} events)',
     'events.connecting': 'Starting live updates…',
     'events.reconnecting': 'Live updates reconnecting…',
+    'events.stale': 'Live updates went quiet; reconnecting…',
     'events.fallback': 'Live updates unavailable; using refresh ({error})',
     'events.unknownError': 'unknown error',
     'settings.connectionFailed': 'Connection failed: {message}',
     'settings.connectedTo': 'Connected to OpenCode {version}',
     'settings.language': 'Language',
+    'settings.appPreferences': 'App preferences',
+    'settings.appPreferencesHint': 'Apply to every server profile on this device.',
     'settings.theme': 'Theme',
     'settings.themeSystem': 'System',
     'settings.themeLight': 'Light',
     'settings.themeDark': 'Dark',
+    'settings.notifications': 'Notifications',
+    'settings.toggleOn': 'On',
+    'settings.toggleOff': 'Off',
+    'settings.notificationsHint': 'Alerts when a session finishes, retries, fails or asks for permission while you are elsewhere.',
+    'settings.backgroundStream': 'Stay connected in background',
+    'settings.backgroundStreamHint': 'Keeps the live connection open while the app is in the background, with a quiet notification showing how many sessions are running.',
+    'settings.idleTimeout': 'Event stream watchdog (seconds)',
+    'settings.idleTimeoutHint': 'A stream silent for this long is treated as dropped and reopened. OpenCode sends a heartbeat every 30 s; 0 turns the watchdog off.',
+    'settings.dataUsage': 'Data usage',
+    'settings.dataUsageSince': 'Received from your servers since {time}',
+    'settings.dataUsageBreakdown': 'Requests {requests} · live events {events}',
+    'settings.dataUsageLive': 'Live events are keeping sessions up to date; polling is paused.',
+    'settings.dataUsagePolling': 'The live stream is down, so sessions are polled every few seconds.',
+    'settings.dataUsageReset': 'Reset',
+    'background.title': 'OpenCode Remote',
+    'background.idle': 'Connected, no session running',
+    'background.busy': '{count} sessions running',
+    'notifications.completed': 'Finished and waiting for you',
+    'notifications.retry': 'Hit an error and is retrying',
+    'notifications.error': 'Stopped with an error',
+    'notifications.permission': 'Needs permission: {permission}',
     'sessions.title': 'Sessions',
     'sessions.summary': '{total} total · {active} active · {changed} changed',
     'sessions.new': 'New Session',
     'sessions.creating': 'Creating...',
     'sessions.refresh': 'Refresh',
+    'sessions.allServers': 'All servers',
+    'sessions.thisServer': 'This server',
+    'sessions.serversUnreachable': 'Not reachable: {servers}',
     'sessions.projectDirectoryLabel': 'Selected folder',
     'sessions.projectDirectoryPlaceholder': '/home/you/project or C:\\Projects\\App',
     'sessions.projectDirectoryActive': 'New sessions use {directory}.',
@@ -233,6 +595,8 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'detail.loading': 'Loading session...',
     'detail.emptyTitle': 'No messages yet',
     'detail.emptyHint': 'Start a conversation below',
+    'detail.loadOlder': 'Load earlier messages',
+    'detail.loadingOlder': 'Loading earlier messages...',
     'detail.composerPlaceholder': 'Type a prompt or command (start with / for slash commands)...',
     'detail.waiting': 'Waiting...',
     'detail.send': 'Send',
@@ -249,10 +613,68 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'detail.fileStatusSource': 'From /file/status',
     'detail.dashboardError': 'Error: {message}',
     'detail.changedFilesTitle': 'Changed files',
-    'detail.changedFilesHint': 'Tap a file to see the mini diff.',
+    'detail.changedFilesHint': 'Tap a file to review its diff.',
     'detail.filesCount': '{count} files',
     'detail.miniDiffAria': 'Changed files mini diff',
     'detail.linesAddedDeleted': '+{additions} lines · -{deletions} lines',
+    'parts.input': 'Input',
+    'parts.output': 'Output',
+    'parts.noOutput': '(no output)',
+    'parts.error': 'Error',
+    'parts.duration': 'Took {duration}',
+    'parts.reasoning': 'Reasoning',
+    'parts.file': 'File',
+    'parts.fileNotCached': 'Not kept in the offline copy; reconnect to see this file.',
+    'parts.stepStart': 'Step started',
+    'parts.stepFinish': 'Step finished',
+    'parts.stepTokens': 'Tokens: {input} in · {output} out · {reasoning} reasoning',
+    'parts.stepCost': 'Cost: ${cost}',
+    'parts.snapshot': 'Snapshot {hash}',
+    'parts.patch': 'Patch · {count} files',
+    'permissions.awaiting': 'Needs permission',
+    'permissions.title': 'Permission requested: {permission}',
+    'permissions.allowOnce': 'Allow once',
+    'permissions.allowAlways': 'Always allow',
+    'permissions.reject': 'Reject',
+    'composer.attachFile': 'Attach a file',
+    'composer.takePhoto': 'Take a photo',
+    'composer.removeAttachment': 'Remove attachment',
+    'composer.attachmentsUnsupported': 'The selected model does not accept attachments.',
+    'files.title': 'Files',
+    'files.noSession': 'Open a session to browse its files.',
+    'files.root': 'Root',
+    'files.back': 'Back to files',
+    'files.loading': 'Loading...',
+    'files.empty': 'This folder is empty.',
+    'files.insertReference': 'Insert @path',
+    'files.searchPlaceholder': 'Search in file',
+    'files.matches': '{current} of {count}',
+    'files.clearSearch': 'Clear search',
+    'files.binary': 'Binary file, no preview available.',
+    'files.truncated': 'Showing the first {count} lines.',
+    'diff.review': 'Review diff',
+    'diff.back': 'Files',
+    'diff.modeLabel': 'Diff layout',
+    'diff.unified': 'Unified',
+    'diff.split': 'Split',
+    'diff.hunkPosition': 'Hunk {current}/{count}',
+    'diff.noContent': 'The server did not send file contents for this change.',
+    'diff.noChanges': 'No line changes in this file.',
+    'diff.status.added': 'new',
+    'diff.status.deleted': 'deleted',
+    'revert.title': 'Revert from here?',
+    'revert.body': 'This message and everything after it will be hidden, and these file changes will be rolled back. You can undo this with Unrevert until you send a new prompt.',
+    'revert.noFiles': 'The server did not report file changes for these messages.',
+    'revert.confirm': 'Revert from here',
+    'revert.banner': '{count} messages reverted',
+    'revert.unrevert': 'Unrevert',
+    'outbox.queued': 'Queued · sends when the server is back',
+    'outbox.rejected': 'Not sent',
+    'outbox.attachments': '{count} attachments',
+    'outbox.retry': 'Retry',
+    'outbox.cancel': 'Cancel',
+    'outbox.tooLarge': 'Not queued: there is no room to keep it on this device until the server is back. Remove large attachments or send it once you are connected.',
+    'outbox.notSaved': 'The queue could not be saved on this device; queued messages are lost if the app closes.',
     'detail.modelPanelLabel': 'AI model picker',
     'detail.aiTitle': 'AI agent and model',
     'detail.refreshAi': 'Refresh AI options',
@@ -304,7 +726,9 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'nav.settings': 'Impostazioni',
     'nav.sessions': 'Sessioni',
     'nav.detail': 'Dettaglio',
+    'nav.files': 'File',
     'nav.help': 'Aiuto',
+    'nav.switchServer': 'Cambia server',
     'menu.title': 'Menu',
     'menu.settingsDescription': 'Configura connessione server',
     'menu.sessionsDescription': 'Gestisci le sessioni',
@@ -314,9 +738,113 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'settings.host': 'Indirizzo host',
     'settings.hostPlaceholder': '192.168.1.100, localhost o https://example.com',
     'settings.port': 'Porta',
+    'settings.portHint': 'Lascia vuoto per usare la porta predefinita dello schema (80 per http, 443 per https), come dietro un reverse proxy.',
+    'settings.basePath': 'Percorso base',
+    'settings.basePathHint': 'Serve solo se un reverse proxy espone OpenCode sotto un percorso, ad es. https://example.com/opencode/.',
     'settings.username': 'Username',
     'settings.password': 'Password',
     'settings.passwordPlaceholder': 'Opzionale; lascia vuoto per server locale non protetto',
+    'settings.authMode': 'Autenticazione',
+    'settings.authMode.none': 'Nessuna',
+    'settings.authMode.basic': 'Basic Auth (username e password)',
+    'settings.authMode.bearer': 'Token Bearer',
+    'settings.authMode.headers': 'Header personalizzati',
+    'settings.authModeHint': 'Scegli ciò che si aspetta il server o il reverse proxy davanti a esso (Cloudflare Access, oauth2-proxy, Tailscale Serve).',
+    'settings.token': 'Token',
+    'settings.tokenPlaceholder': 'Inviato come Authorization: Bearer …',
+    'settings.customHeaders': 'Header',
+    'settings.customHeadersHint': 'Un Nome: valore per riga, per esempio CF-Access-Client-Id: …. Nel browser il server deve consentire questi header nel CORS.',
+    'settings.customHeadersInvalid': 'La riga {line} non è un header Nome: valore.',
+    'tls.pins': 'Impronte dei certificati fissate (SHA-256)',
+    'tls.pinsHint': 'Una per riga, come stampata da openssl x509 -noout -fingerprint -sha256. Le impronte riguardano il certificato del server, non la sua CA; una volta impostate, per questo server sono accettati solo questi certificati (o quelli sotto).',
+    'tls.pinInvalid': 'Non è un\'impronta SHA-256: {pin}',
+    'tls.certificates': 'Certificati attendibili (PEM)',
+    'tls.certificatesHint': 'Incolla o importa la tua CA o il certificato autofirmato del server. Per questo server sostituiscono l\'archivio di certificati di sistema.',
+    'tls.importFile': 'Importa file del certificato',
+    'tls.importFailed': '{name} non contiene un certificato.',
+    'tls.needsHttps': 'I certificati valgono solo per host https://.',
+    'tls.promptTitle': 'Considerare attendibile questo certificato?',
+    'tls.promptBody': '{server} ha presentato un certificato che questo dispositivo non considera attendibile, per esempio autofirmato.',
+    'tls.promptCompare': 'Consideralo attendibile solo se l\'impronta coincide con quella mostrata sul tuo server. L\'app accetterà poi solo questo certificato per il server.',
+    'tls.subject': 'Rilasciato a',
+    'tls.issuer': 'Rilasciato da',
+    'tls.validity': 'Validità',
+    'tls.trust': 'Considera attendibile',
+    'tls.decline': 'Non fidarti',
+    'settings.pinnedDirectories': 'Aggiornamenti live per progetti',
+    'settings.pinnedDirectoriesPlaceholder': 'Una cartella di progetto per riga',
+    'settings.pinnedDirectoriesHint': 'Lascia vuoto per seguire tutti i progetti. Con progetti fissati, le sessioni degli altri progetti si aggiornano solo quando aggiorni.',
+    'credentials.title': 'Protezione password',
+    'credentials.plain': 'Le password sono salvate in chiaro in questo browser. Imposta una passphrase per cifrarle; la inserirai a ogni apertura dell\'app.',
+    'credentials.unsupported': 'La cifratura richiede HTTPS o localhost, quindi le password sono salvate in chiaro in questo browser.',
+    'credentials.locked': 'Le password salvate sono cifrate. Inserisci la passphrase per usarle.',
+    'credentials.encrypted': 'Le password salvate sono cifrate con la tua passphrase.',
+    'credentials.passphrase': 'Passphrase',
+    'credentials.passphraseConfirm': 'Ripeti passphrase',
+    'credentials.passphraseTooShort': 'Usa almeno 8 caratteri.',
+    'credentials.passphraseMismatch': 'Le passphrase non coincidono.',
+    'credentials.wrongPassphrase': 'Passphrase errata.',
+    'credentials.protect': 'Cifra password',
+    'credentials.unlock': 'Sblocca',
+    'credentials.reset': 'Dimentica password salvate',
+    'credentials.notNow': 'Non ora',
+    'credentials.unlockTitle': 'Sblocca password salvate',
+    'credentials.unlockBody': 'Le password dei server sono cifrate in questo browser. Inserisci la passphrase per connetterti.',
+    'credentials.unlockToSave': 'Sblocca le password salvate prima di salvare',
+    'appLock.settingsTitle': 'Blocco app',
+    'appLock.settingsHint': 'Chiedi un PIN, o impronta e sblocco col volto su Android, all\'apertura dell\'app e dopo un periodo di inattività.',
+    'appLock.unsupported': 'Nel browser il blocco app richiede una pagina sicura (https).',
+    'appLock.enabled': 'Blocca l\'app',
+    'appLock.needsPin': 'Imposta prima un PIN: serve quando la biometria non è disponibile.',
+    'appLock.timeout': 'Blocca di nuovo dopo',
+    'appLock.timeoutLaunch': 'Solo all\'avvio',
+    'appLock.timeoutMinutes': '{minutes} min di inattività',
+    'appLock.protectActions': 'Conferma le azioni distruttive',
+    'appLock.protectActionsHint': 'Sblocca di nuovo prima di eliminare o interrompere una sessione.',
+    'appLock.pin': 'PIN',
+    'appLock.newPin': 'Nuovo PIN',
+    'appLock.pinConfirm': 'Ripeti PIN',
+    'appLock.setPin': 'Imposta PIN e blocca',
+    'appLock.changePin': 'Cambia PIN',
+    'appLock.pinInvalid': 'Il PIN deve avere da 4 a 12 cifre.',
+    'appLock.pinMismatch': 'I due PIN non coincidono.',
+    'appLock.pinSaved': 'PIN salvato. Da ora l\'app lo chiederà.',
+    'appLock.title': 'OpenCode Remote è bloccato',
+    'appLock.bodyBiometric': 'Sblocca con impronta, volto o credenziale del dispositivo, oppure inserisci il PIN dell\'app.',
+    'appLock.bodyPin': 'Inserisci il PIN dell\'app per continuare.',
+    'appLock.biometricSubtitle': 'Conferma la tua identità',
+    'appLock.useBiometric': 'Usa biometria',
+    'appLock.unlock': 'Sblocca',
+    'appLock.cancel': 'Annulla',
+    'appLock.wrongPin': 'PIN errato.',
+    'appLock.tooManyAttempts': 'Troppi PIN errati. Riprova tra {seconds} s.',
+    'appLock.confirmDelete': 'Sblocca per eliminare la sessione',
+    'appLock.confirmAbort': 'Sblocca per interrompere la sessione',
+    'appLock.confirmChange': 'Sblocca per cambiare il PIN',
+    'appLock.confirmDisable': 'Sblocca per disattivare il blocco app',
+    'appLock.confirmRelax': 'Sblocca per allentare il blocco app',
+    'settings.diagnostics': 'Diagnostica connessione',
+    'diagnostics.title': 'Diagnostica connessione',
+    'diagnostics.back': 'Torna alle impostazioni',
+    'diagnostics.step.address': 'Host e porta',
+    'diagnostics.step.reachability': 'Raggiungibilità DNS e TCP',
+    'diagnostics.step.cors': 'Preflight CORS',
+    'diagnostics.step.health': 'Controllo stato OpenCode',
+    'diagnostics.step.auth': 'Autenticazione',
+    'diagnostics.step.events': 'Flusso eventi live',
+    'diagnostics.status.ok': 'OK',
+    'diagnostics.status.failed': 'Fallito',
+    'diagnostics.status.skipped': 'Saltato',
+    'diagnostics.status.running': 'In corso…',
+    'diagnostics.status.pending': 'In attesa',
+    'diagnostics.duration': '{ms} ms',
+    'diagnostics.failedAt': 'Fallito al passaggio: {step}',
+    'diagnostics.allPassed': 'Tutti i controlli superati',
+    'diagnostics.running': 'In corso…',
+    'diagnostics.runAgain': 'Esegui di nuovo',
+    'diagnostics.copy': 'Copia report',
+    'diagnostics.copied': 'Copiato',
+    'diagnostics.report': 'Report diagnostica',
     'settings.save': 'Salva configurazione',
     'settings.saving': 'Salvataggio...',
     'settings.test': 'Test connessione',
@@ -328,34 +856,79 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'settings.testedNotSaved': 'Connessione OK: OpenCode {version}. Non è stato ancora salvato nulla.',
     'settings.savedButton': 'Salvato',
     'settings.testOk': 'Test OK',
-    'settings.testNeedsFields': 'Inserisci host, porta e username per fare il test.',
+    'settings.testNeedsFields': 'Inserisci host, porta e le credenziali dell\'autenticazione scelta per fare il test.',
     'settings.testAlreadyPassed': 'Questa bozza ha già superato il test connessione.',
     'settings.readyToTest': 'Campi pronti per il test.',
     'settings.unsavedChanges': 'Modifiche non salvate: tocca Salva per usarle nelle Sessioni.',
     'settings.noUnsavedChanges': 'Le impostazioni salvate sono attive.',
+    'settings.profilesTitle': 'Profili server',
+    'settings.profilesHint': 'Salva ogni server OpenCode una volta e passa dall\'uno all\'altro dalla barra in alto.',
+    'settings.profilesEmpty': 'Nessun server salvato. Compila il modulo qui sotto e tocca Salva.',
+    'settings.addProfile': 'Aggiungi server',
+    'settings.editProfile': 'Modifica',
+    'settings.useProfile': 'Connetti',
+    'settings.setDefaultProfile': 'Imposta predefinito',
+    'settings.profileActive': 'Attivo',
+    'settings.profileDefault': 'Predefinito',
+    'settings.newProfile': 'Nuovo server',
+    'settings.editingProfile': 'Modifica di {name}',
+    'settings.profileName': 'Nome profilo',
+    'settings.profileNamePlaceholder': 'Workstation, build server, VM cloud...',
+    'settings.profileDeleteTitle': 'Eliminare il profilo server?',
+    'settings.profileDeleteBody': 'Questa azione rimuove la connessione salvata per',
+    'settings.profileDeleteConfirm': 'Elimina profilo',
     'connection.connecting': 'Connessione a OpenCode...',
     'connection.loadingSessions': 'Connessione e caricamento sessioni...',
     'connection.refreshing': 'Aggiornamento sessioni...',
     'connection.reconnecting': 'Connessione lenta; riprovo in silenzio...',
     'connection.connected': 'Connesso',
     'connection.offline': 'OpenCode non è raggiungibile',
+    'connection.stale': 'Copia offline',
+    'connection.staleCopy': 'Copia offline salvata il {time}',
     'events.live': 'Aggiornamenti live attivi ({count} eventi)',
     'events.connecting': 'Avvio aggiornamenti live…',
     'events.reconnecting': 'Riconnessione aggiornamenti live…',
+    'events.stale': 'Aggiornamenti live silenziosi; riconnessione…',
     'events.fallback': 'Aggiornamenti live non disponibili; uso il refresh ({error})',
     'events.unknownError': 'errore sconosciuto',
     'settings.connectionFailed': 'Connessione fallita: {message}',
     'settings.connectedTo': 'Connesso a OpenCode {version}',
     'settings.language': 'Lingua',
+    'settings.appPreferences': 'Preferenze dell\'app',
+    'settings.appPreferencesHint': 'Valgono per tutti i profili server su questo dispositivo.',
     'settings.theme': 'Tema',
     'settings.themeSystem': 'Sistema',
     'settings.themeLight': 'Chiaro',
     'settings.themeDark': 'Scuro',
+    'settings.notifications': 'Notifiche',
+    'settings.toggleOn': 'Attive',
+    'settings.toggleOff': 'Disattivate',
+    'settings.notificationsHint': 'Avvisa quando una sessione termina, riprova, fallisce o chiede un permesso mentre sei altrove.',
+    'settings.backgroundStream': 'Resta connesso in background',
+    'settings.backgroundStreamHint': 'Mantiene aperta la connessione live mentre l\'app è in background, con una notifica silenziosa che mostra quante sessioni sono in esecuzione.',
+    'settings.idleTimeout': 'Watchdog dello stream eventi (secondi)',
+    'settings.idleTimeoutHint': 'Uno stream silenzioso per questo tempo è considerato caduto e viene riaperto. OpenCode invia un heartbeat ogni 30 s; 0 disattiva il watchdog.',
+    'settings.dataUsage': 'Traffico dati',
+    'settings.dataUsageSince': 'Ricevuti dai tuoi server dal {time}',
+    'settings.dataUsageBreakdown': 'Richieste {requests} · eventi live {events}',
+    'settings.dataUsageLive': 'Gli eventi live tengono aggiornate le sessioni; il polling è in pausa.',
+    'settings.dataUsagePolling': 'Lo stream live non è attivo, quindi le sessioni vengono interrogate ogni pochi secondi.',
+    'settings.dataUsageReset': 'Azzera',
+    'background.title': 'OpenCode Remote',
+    'background.idle': 'Connesso, nessuna sessione in esecuzione',
+    'background.busy': '{count} sessioni in esecuzione',
+    'notifications.completed': 'Terminata, in attesa di te',
+    'notifications.retry': 'Ha incontrato un errore e sta riprovando',
+    'notifications.error': 'Interrotta da un errore',
+    'notifications.permission': 'Richiede un permesso: {permission}',
     'sessions.title': 'Sessioni',
     'sessions.summary': '{total} totali · {active} attive · {changed} con modifiche',
     'sessions.new': 'Nuova sessione',
     'sessions.creating': 'Creazione...',
     'sessions.refresh': 'Aggiorna',
+    'sessions.allServers': 'Tutti i server',
+    'sessions.thisServer': 'Questo server',
+    'sessions.serversUnreachable': 'Non raggiungibili: {servers}',
     'sessions.projectDirectoryLabel': 'Cartella selezionata',
     'sessions.projectDirectoryPlaceholder': '/home/utente/progetto o C:\\Projects\\App',
     'sessions.projectDirectoryActive': 'La nuova sessione userà {directory}.',
@@ -382,6 +955,8 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'detail.loading': 'Caricamento sessione...',
     'detail.emptyTitle': 'Ancora nessun messaggio',
     'detail.emptyHint': 'Inizia una conversazione qui sotto',
+    'detail.loadOlder': 'Carica messaggi precedenti',
+    'detail.loadingOlder': 'Caricamento messaggi precedenti...',
     'detail.composerPlaceholder': 'Scrivi un prompt o comando (inizia con / per gli slash command)...',
     'detail.waiting': 'Attesa...',
     'detail.send': 'Invia',
@@ -398,10 +973,68 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'detail.fileStatusSource': 'Da /file/status',
     'detail.dashboardError': 'Errore: {message}',
     'detail.changedFilesTitle': 'File modificati',
-    'detail.changedFilesHint': 'Tocca un file per vedere il mini diff.',
+    'detail.changedFilesHint': 'Tocca un file per rivederne il diff.',
     'detail.filesCount': '{count} file',
     'detail.miniDiffAria': 'Mini diff dei file modificati',
     'detail.linesAddedDeleted': '+{additions} righe · -{deletions} righe',
+    'parts.input': 'Input',
+    'parts.output': 'Output',
+    'parts.noOutput': '(nessun output)',
+    'parts.error': 'Errore',
+    'parts.duration': 'Durata {duration}',
+    'parts.reasoning': 'Ragionamento',
+    'parts.file': 'File',
+    'parts.fileNotCached': 'Non salvato nella copia offline; riconnettiti per vedere questo file.',
+    'parts.stepStart': 'Step avviato',
+    'parts.stepFinish': 'Step completato',
+    'parts.stepTokens': 'Token: {input} in · {output} out · {reasoning} ragionamento',
+    'parts.stepCost': 'Costo: ${cost}',
+    'parts.snapshot': 'Snapshot {hash}',
+    'parts.patch': 'Patch · {count} file',
+    'permissions.awaiting': 'Richiede permesso',
+    'permissions.title': 'Permesso richiesto: {permission}',
+    'permissions.allowOnce': 'Consenti una volta',
+    'permissions.allowAlways': 'Consenti sempre',
+    'permissions.reject': 'Rifiuta',
+    'composer.attachFile': 'Allega un file',
+    'composer.takePhoto': 'Scatta una foto',
+    'composer.removeAttachment': 'Rimuovi allegato',
+    'composer.attachmentsUnsupported': 'Il modello selezionato non accetta allegati.',
+    'files.title': 'File',
+    'files.noSession': 'Apri una sessione per sfogliarne i file.',
+    'files.root': 'Radice',
+    'files.back': 'Torna ai file',
+    'files.loading': 'Caricamento...',
+    'files.empty': 'Questa cartella è vuota.',
+    'files.insertReference': 'Inserisci @percorso',
+    'files.searchPlaceholder': 'Cerca nel file',
+    'files.matches': '{current} di {count}',
+    'files.clearSearch': 'Cancella ricerca',
+    'files.binary': 'File binario, anteprima non disponibile.',
+    'files.truncated': 'Mostrate le prime {count} righe.',
+    'diff.review': 'Rivedi diff',
+    'diff.back': 'File',
+    'diff.modeLabel': 'Layout del diff',
+    'diff.unified': 'Unificato',
+    'diff.split': 'Affiancato',
+    'diff.hunkPosition': 'Blocco {current}/{count}',
+    'diff.noContent': 'Il server non ha inviato il contenuto del file per questa modifica.',
+    'diff.noChanges': 'Nessuna riga modificata in questo file.',
+    'diff.status.added': 'nuovo',
+    'diff.status.deleted': 'eliminato',
+    'revert.title': 'Ripristinare da qui?',
+    'revert.body': 'Questo messaggio e tutti i successivi verranno nascosti e queste modifiche ai file verranno annullate. Puoi annullare con Ripristina modifiche finché non invii un nuovo prompt.',
+    'revert.noFiles': 'Il server non ha segnalato modifiche ai file per questi messaggi.',
+    'revert.confirm': 'Ripristina da qui',
+    'revert.banner': '{count} messaggi annullati',
+    'revert.unrevert': 'Ripristina modifiche',
+    'outbox.queued': 'In coda · verrà inviato quando il server torna',
+    'outbox.rejected': 'Non inviato',
+    'outbox.attachments': '{count} allegati',
+    'outbox.retry': 'Riprova',
+    'outbox.cancel': 'Annulla',
+    'outbox.tooLarge': 'Non accodato: non c\'è spazio per conservarlo sul dispositivo finché il server non torna. Rimuovi gli allegati grandi o invialo quando sei connesso.',
+    'outbox.notSaved': 'Non è stato possibile salvare la coda sul dispositivo; i messaggi in coda andranno persi se l\'app si chiude.',
     'detail.modelPanelLabel': 'Selettore modello AI',
     'detail.aiTitle': 'Agente e modello AI',
     'detail.refreshAi': 'Aggiorna opzioni AI',
@@ -453,7 +1086,9 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'nav.settings': '設定',
     'nav.sessions': '工作階段',
     'nav.detail': '詳情',
+    'nav.files': '檔案',
     'nav.help': '說明',
+    'nav.switchServer': '切換伺服器',
     'menu.title': '選單',
     'menu.settingsDescription': '設定伺服器連線',
     'menu.sessionsDescription': '管理工作階段',
@@ -463,9 +1098,113 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'settings.host': '主機位址',
     'settings.hostPlaceholder': '192.168.1.100、localhost 或 https://example.com',
     'settings.port': '連接埠',
+    'settings.portHint': '留空即使用協定的預設連接埠（http 為 80，https 為 443），適用於反向代理之後。',
+    'settings.basePath': '基礎路徑',
+    'settings.basePathHint': '僅在反向代理將 OpenCode 置於某個路徑下時需要，例如 https://example.com/opencode/。',
     'settings.username': '使用者名稱',
     'settings.password': '密碼',
     'settings.passwordPlaceholder': '選填；未受保護的本機伺服器可留空',
+    'settings.authMode': '驗證方式',
+    'settings.authMode.none': '無',
+    'settings.authMode.basic': 'Basic Auth（使用者名稱與密碼）',
+    'settings.authMode.bearer': 'Bearer 權杖',
+    'settings.authMode.headers': '自訂標頭',
+    'settings.authModeHint': '選擇伺服器或其前方反向代理（Cloudflare Access、oauth2-proxy、Tailscale Serve）所需的方式。',
+    'settings.token': '權杖',
+    'settings.tokenPlaceholder': '以 Authorization: Bearer … 傳送',
+    'settings.customHeaders': '標頭',
+    'settings.customHeadersHint': '每行一個 名稱: 值，例如 CF-Access-Client-Id: …。在瀏覽器中，伺服器的 CORS 必須允許這些標頭。',
+    'settings.customHeadersInvalid': '第 {line} 行不是 名稱: 值 格式的標頭。',
+    'tls.pins': '固定的憑證指紋（SHA-256）',
+    'tls.pinsHint': '每行一個，格式同 openssl x509 -noout -fingerprint -sha256 的輸出。指紋比對的是伺服器本身的憑證，而非其 CA；設定後，此伺服器只接受這些憑證（或下方的憑證）。',
+    'tls.pinInvalid': '不是 SHA-256 指紋：{pin}',
+    'tls.certificates': '信任的憑證（PEM）',
+    'tls.certificatesHint': '貼上或匯入您自己的 CA 或伺服器的自簽憑證。對此伺服器而言，它們會取代系統憑證庫。',
+    'tls.importFile': '匯入憑證檔案',
+    'tls.importFailed': '{name} 不包含憑證。',
+    'tls.needsHttps': '憑證僅適用於 https:// 主機。',
+    'tls.promptTitle': '信任此憑證？',
+    'tls.promptBody': '{server} 提供了此裝置不信任的憑證，例如自簽憑證。',
+    'tls.promptCompare': '只有在指紋與伺服器上顯示的一致時才信任。之後應用程式對此伺服器只會接受此憑證。',
+    'tls.subject': '簽發對象',
+    'tls.issuer': '簽發者',
+    'tls.validity': '有效期',
+    'tls.trust': '信任',
+    'tls.decline': '不信任',
+    'settings.pinnedDirectories': '即時更新的專案',
+    'settings.pinnedDirectoriesPlaceholder': '每行一個專案目錄',
+    'settings.pinnedDirectoriesHint': '留空以追蹤所有專案。固定專案後，其他專案的工作階段只會在重新整理時更新。',
+    'credentials.title': '密碼保護',
+    'credentials.plain': '密碼以未加密方式儲存在此瀏覽器。設定密語即可加密，之後每次開啟應用程式時輸入。',
+    'credentials.unsupported': '加密需要 HTTPS 或 localhost，因此密碼以未加密方式儲存在此瀏覽器。',
+    'credentials.locked': '已儲存的密碼已加密。請輸入密語以使用。',
+    'credentials.encrypted': '已儲存的密碼已使用您的密語加密。',
+    'credentials.passphrase': '密語',
+    'credentials.passphraseConfirm': '再次輸入密語',
+    'credentials.passphraseTooShort': '請至少使用 8 個字元。',
+    'credentials.passphraseMismatch': '兩次輸入的密語不一致。',
+    'credentials.wrongPassphrase': '密語錯誤。',
+    'credentials.protect': '加密密碼',
+    'credentials.unlock': '解鎖',
+    'credentials.reset': '清除已儲存的密碼',
+    'credentials.notNow': '稍後',
+    'credentials.unlockTitle': '解鎖已儲存的密碼',
+    'credentials.unlockBody': '伺服器密碼在此瀏覽器中已加密。請輸入密語以連線。',
+    'credentials.unlockToSave': '儲存前請先解鎖已儲存的密碼',
+    'appLock.settingsTitle': '應用程式鎖定',
+    'appLock.settingsHint': '開啟應用程式時及閒置一段時間後要求輸入 PIN，或在 Android 上使用指紋和臉部解鎖。',
+    'appLock.unsupported': '在瀏覽器中，應用程式鎖定需要安全 (https) 頁面。',
+    'appLock.enabled': '鎖定應用程式',
+    'appLock.needsPin': '請先設定 PIN；無法使用生物辨識時會改用 PIN。',
+    'appLock.timeout': '再次鎖定的時間',
+    'appLock.timeoutLaunch': '僅在啟動時',
+    'appLock.timeoutMinutes': '閒置 {minutes} 分鐘',
+    'appLock.protectActions': '確認破壞性操作',
+    'appLock.protectActionsHint': '刪除或停止工作階段前需再次解鎖。',
+    'appLock.pin': 'PIN',
+    'appLock.newPin': '新 PIN',
+    'appLock.pinConfirm': '再次輸入 PIN',
+    'appLock.setPin': '設定 PIN 並鎖定',
+    'appLock.changePin': '變更 PIN',
+    'appLock.pinInvalid': 'PIN 必須為 4 到 12 位數字。',
+    'appLock.pinMismatch': '兩次輸入的 PIN 不一致。',
+    'appLock.pinSaved': 'PIN 已儲存，應用程式之後會要求輸入。',
+    'appLock.title': 'OpenCode Remote 已鎖定',
+    'appLock.bodyBiometric': '使用指紋、臉部或裝置憑證解鎖，或輸入應用程式 PIN。',
+    'appLock.bodyPin': '輸入應用程式 PIN 以繼續。',
+    'appLock.biometricSubtitle': '確認是您本人',
+    'appLock.useBiometric': '使用生物辨識',
+    'appLock.unlock': '解鎖',
+    'appLock.cancel': '取消',
+    'appLock.wrongPin': 'PIN 錯誤。',
+    'appLock.tooManyAttempts': '錯誤次數過多，請在 {seconds} 秒後重試。',
+    'appLock.confirmDelete': '解鎖以刪除工作階段',
+    'appLock.confirmAbort': '解鎖以停止工作階段',
+    'appLock.confirmChange': '解鎖以變更 PIN',
+    'appLock.confirmDisable': '解鎖以關閉應用程式鎖定',
+    'appLock.confirmRelax': '解鎖以放寬應用程式鎖定',
+    'settings.diagnostics': '診斷連線',
+    'diagnostics.title': '連線診斷',
+    'diagnostics.back': '返回設定',
+    'diagnostics.step.address': '主機與連接埠',
+    'diagnostics.step.reachability': 'DNS 與 TCP 連線',
+    'diagnostics.step.cors': 'CORS 預檢',
+    'diagnostics.step.health': 'OpenCode 健康檢查',
+    'diagnostics.step.auth': '驗證',
+    'diagnostics.step.events': '即時事件串流',
+    'diagnostics.status.ok': '正常',
+    'diagnostics.status.failed': '失敗',
+    'diagnostics.status.skipped': '已略過',
+    'diagnostics.status.running': '執行中…',
+    'diagnostics.status.pending': '等待中',
+    'diagnostics.duration': '{ms} 毫秒',
+    'diagnostics.failedAt': '失敗於：{step}',
+    'diagnostics.allPassed': '所有檢查皆通過',
+    'diagnostics.running': '執行中…',
+    'diagnostics.runAgain': '重新執行',
+    'diagnostics.copy': '複製報告',
+    'diagnostics.copied': '已複製',
+    'diagnostics.report': '診斷報告',
     'settings.save': '儲存設定',
     'settings.saving': '儲存中...',
     'settings.test': '測試連線',
@@ -477,34 +1216,79 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'settings.testedNotSaved': '連線正常：OpenCode {version}。尚未儲存任何變更。',
     'settings.savedButton': '已儲存',
     'settings.testOk': '測試正常',
-    'settings.testNeedsFields': '請輸入主機、連接埠與使用者名稱以測試。',
+    'settings.testNeedsFields': '請輸入主機、連接埠與所選驗證方式的憑證以測試。',
     'settings.testAlreadyPassed': '此草稿已通過連線測試。',
     'settings.readyToTest': '欄位已可測試。',
     'settings.unsavedChanges': '有未儲存變更：點選儲存後才會用於工作階段。',
     'settings.noUnsavedChanges': '已儲存的設定正在使用中。',
+    'settings.profilesTitle': '伺服器設定檔',
+    'settings.profilesHint': '每台 OpenCode 伺服器只需儲存一次，即可從頂部列切換。',
+    'settings.profilesEmpty': '尚未儲存任何伺服器。請填寫下方表單並點選儲存。',
+    'settings.addProfile': '新增伺服器',
+    'settings.editProfile': '編輯',
+    'settings.useProfile': '連線',
+    'settings.setDefaultProfile': '設為預設',
+    'settings.profileActive': '使用中',
+    'settings.profileDefault': '預設',
+    'settings.newProfile': '新伺服器',
+    'settings.editingProfile': '正在編輯 {name}',
+    'settings.profileName': '設定檔名稱',
+    'settings.profileNamePlaceholder': '工作站、建置機、雲端 VM...',
+    'settings.profileDeleteTitle': '刪除伺服器設定檔？',
+    'settings.profileDeleteBody': '這會移除已儲存的連線：',
+    'settings.profileDeleteConfirm': '刪除設定檔',
     'connection.connecting': '正在連線到 OpenCode...',
     'connection.loadingSessions': '正在連線並載入工作階段...',
     'connection.refreshing': '正在重新整理工作階段...',
     'connection.reconnecting': '連線較慢；正在安靜重試...',
     'connection.connected': '已連線',
     'connection.offline': '無法連線到 OpenCode',
+    'connection.stale': '離線副本',
+    'connection.staleCopy': '顯示 {time} 儲存的離線副本',
     'events.live': '即時更新已啟用（{count} 個事件）',
     'events.connecting': '正在啟動即時更新…',
     'events.reconnecting': '即時更新正在重新連線…',
+    'events.stale': '即時更新無回應，正在重新連線…',
     'events.fallback': '即時更新不可用；改用重新整理（{error}）',
     'events.unknownError': '未知錯誤',
     'settings.connectionFailed': '連線失敗：{message}',
     'settings.connectedTo': '已連線至 OpenCode {version}',
     'settings.language': '語言',
+    'settings.appPreferences': '應用程式偏好設定',
+    'settings.appPreferencesHint': '套用於此裝置上的所有伺服器設定檔。',
     'settings.theme': '主題',
     'settings.themeSystem': '跟隨系統',
     'settings.themeLight': '淺色',
     'settings.themeDark': '深色',
+    'settings.notifications': '通知',
+    'settings.toggleOn': '開啟',
+    'settings.toggleOff': '關閉',
+    'settings.notificationsHint': '當你不在畫面上時，於工作階段完成、重試、失敗或要求權限時通知你。',
+    'settings.backgroundStream': '在背景保持連線',
+    'settings.backgroundStreamHint': 'App 在背景時保持即時連線，並以靜音通知顯示執行中的工作階段數量。',
+    'settings.idleTimeout': '事件串流監控（秒）',
+    'settings.idleTimeoutHint': '串流靜默超過此時間即視為中斷並重新開啟。OpenCode 每 30 秒傳送一次心跳；0 表示關閉監控。',
+    'settings.dataUsage': '數據用量',
+    'settings.dataUsageSince': '自 {time} 起從伺服器接收',
+    'settings.dataUsageBreakdown': '請求 {requests} · 即時事件 {events}',
+    'settings.dataUsageLive': '即時事件正在更新工作階段；輪詢已暫停。',
+    'settings.dataUsagePolling': '即時串流中斷，因此每隔數秒輪詢工作階段。',
+    'settings.dataUsageReset': '重設',
+    'background.title': 'OpenCode Remote',
+    'background.idle': '已連線，沒有執行中的工作階段',
+    'background.busy': '{count} 個工作階段執行中',
+    'notifications.completed': '已完成，等待你的回覆',
+    'notifications.retry': '發生錯誤，正在重試',
+    'notifications.error': '因錯誤而停止',
+    'notifications.permission': '需要權限：{permission}',
     'sessions.title': '工作階段',
     'sessions.summary': '{total} 總數 · {active} 進行中 · {changed} 有變更',
     'sessions.new': '新增工作階段',
     'sessions.creating': '建立中...',
     'sessions.refresh': '重新整理',
+    'sessions.allServers': '所有伺服器',
+    'sessions.thisServer': '目前伺服器',
+    'sessions.serversUnreachable': '無法連線：{servers}',
     'sessions.projectDirectoryLabel': '已選資料夾',
     'sessions.projectDirectoryPlaceholder': '/home/you/project 或 C:\\Projects\\App',
     'sessions.projectDirectoryActive': '新工作階段會使用 {directory}。',
@@ -531,6 +1315,8 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'detail.loading': '載入工作階段...',
     'detail.emptyTitle': '尚無訊息',
     'detail.emptyHint': '在下方開始對話',
+    'detail.loadOlder': '載入較早的訊息',
+    'detail.loadingOlder': '正在載入較早的訊息...',
     'detail.composerPlaceholder': '輸入提示或命令（以 / 開頭使用斜線命令）...',
     'detail.waiting': '等待中...',
     'detail.send': '傳送',
@@ -547,10 +1333,68 @@ const translations: Record<LanguageCode, Record<TranslationKey, string>> = {
     'detail.fileStatusSource': '來自 /file/status',
     'detail.dashboardError': '錯誤：{message}',
     'detail.changedFilesTitle': '已變更檔案',
-    'detail.changedFilesHint': '點選檔案查看迷你 diff。',
+    'detail.changedFilesHint': '點選檔案檢視其 diff。',
     'detail.filesCount': '{count} 個檔案',
     'detail.miniDiffAria': '已變更檔案迷你 diff',
     'detail.linesAddedDeleted': '+{additions} 行 · -{deletions} 行',
+    'parts.input': '輸入',
+    'parts.output': '輸出',
+    'parts.noOutput': '（無輸出）',
+    'parts.error': '錯誤',
+    'parts.duration': '耗時 {duration}',
+    'parts.reasoning': '推理',
+    'parts.file': '檔案',
+    'parts.fileNotCached': '離線副本未保存此檔案；重新連線即可查看。',
+    'parts.stepStart': '步驟開始',
+    'parts.stepFinish': '步驟完成',
+    'parts.stepTokens': 'Token：輸入 {input} · 輸出 {output} · 推理 {reasoning}',
+    'parts.stepCost': '費用：${cost}',
+    'parts.snapshot': '快照 {hash}',
+    'parts.patch': '修補 · {count} 個檔案',
+    'permissions.awaiting': '需要權限',
+    'permissions.title': '請求權限：{permission}',
+    'permissions.allowOnce': '允許一次',
+    'permissions.allowAlways': '永遠允許',
+    'permissions.reject': '拒絕',
+    'composer.attachFile': '附加檔案',
+    'composer.takePhoto': '拍照',
+    'composer.removeAttachment': '移除附件',
+    'composer.attachmentsUnsupported': '所選模型不支援附件。',
+    'files.title': '檔案',
+    'files.noSession': '開啟工作階段以瀏覽其檔案。',
+    'files.root': '根目錄',
+    'files.back': '返回檔案',
+    'files.loading': '載入中...',
+    'files.empty': '此資料夾是空的。',
+    'files.insertReference': '插入 @路徑',
+    'files.searchPlaceholder': '在檔案中搜尋',
+    'files.matches': '第 {current} / {count} 筆',
+    'files.clearSearch': '清除搜尋',
+    'files.binary': '二進位檔案，無法預覽。',
+    'files.truncated': '僅顯示前 {count} 行。',
+    'diff.review': '檢視 diff',
+    'diff.back': '檔案',
+    'diff.modeLabel': 'Diff 版面',
+    'diff.unified': '合併',
+    'diff.split': '並排',
+    'diff.hunkPosition': '區塊 {current}/{count}',
+    'diff.noContent': '伺服器未傳送此變更的檔案內容。',
+    'diff.noChanges': '此檔案沒有行變更。',
+    'diff.status.added': '新增',
+    'diff.status.deleted': '已刪除',
+    'revert.title': '從這裡還原？',
+    'revert.body': '此訊息及之後的所有內容將被隱藏，以下檔案變更將被還原。在傳送新提示前，可用「取消還原」復原。',
+    'revert.noFiles': '伺服器未回報這些訊息的檔案變更。',
+    'revert.confirm': '從這裡還原',
+    'revert.banner': '已還原 {count} 則訊息',
+    'revert.unrevert': '取消還原',
+    'outbox.queued': '已排入佇列 · 伺服器恢復後傳送',
+    'outbox.rejected': '未傳送',
+    'outbox.attachments': '{count} 個附件',
+    'outbox.retry': '重試',
+    'outbox.cancel': '取消',
+    'outbox.tooLarge': '未排入佇列：裝置上沒有足夠空間保留它直到伺服器恢復。請移除大型附件，或在連線後再傳送。',
+    'outbox.notSaved': '無法在此裝置上儲存佇列；若關閉應用程式，佇列中的訊息將會遺失。',
     'detail.modelPanelLabel': 'AI 模型選擇器',
     'detail.aiTitle': 'AI 代理與模型',
     'detail.refreshAi': '重新整理 AI 選項',
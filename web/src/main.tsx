@@ -1,10 +1,18 @@
 import React from "react"
 import ReactDOM from "react-dom/client"
 import App from "./App"
+import { prepareCredentials } from "./credentials"
+import { loadProfileStore, saveProfileStore, serverURL } from "./profiles"
+import { configureServerTrust, trustedServers } from "./tls"
 import "./styles.css"
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-)
+// Saved passwords are read from the Keystore (or the locked browser vault) and pinned certificates handed to the
+// native HTTP stack before the first connection is attempted.
+prepareCredentials(loadProfileStore(), saveProfileStore).then(async (credentials) => {
+  await configureServerTrust(trustedServers(credentials.store.profiles, serverURL))
+  ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <App credentials={credentials} />
+    </React.StrictMode>
+  )
+})
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import { applyMessageEvent, mergeTail, prependOlderMessages } from './message-store.ts'
+
+const sessionID = 'ses_selected'
+const userMessage = {
+  info: { id: 'msg_1', sessionID, role: 'user', time: { created: 1 } },
+  parts: [{ id: 'prt_1', sessionID, messageID: 'msg_1', type: 'text', text: 'hello' }]
+}
+const assistantInfo = { id: 'msg_2', sessionID, role: 'assistant', time: { created: 2 } }
+
+// A new assistant message is appended empty, then its text part streams in.
+let result = applyMessageEvent([userMessage], { type: 'message.updated', properties: { info: assistantInfo } }, sessionID)
+assert.equal(result.status, 'applied')
+let messages = result.messages
+assert.deepEqual(messages.map((message) => message.info.id), ['msg_1', 'msg_2'])
+assert.deepEqual(messages[1].parts, [])
+
+const textPart = { id: 'prt_2', sessionID, messageID: 'msg_2', type: 'text', text: 'Hel' }
+result = applyMessageEvent(messages, { type: 'message.part.updated', properties: { part: textPart, delta: 'Hel' } }, sessionID)
+messages = result.messages
+result = applyMessageEvent(messages, { type: 'message.part.updated', properties: { part: { ...textPart, text: 'Hello' }, delta: 'lo' } }, sessionID)
+messages = result.messages
+assert.equal(messages[1].parts.length, 1, 'updates replace the part in place')
+assert.equal(messages[1].parts[0].text, 'Hello')
+assert.equal(messages[0], userMessage, 'untouched messages keep their identity')
+
+result = applyMessageEvent(messages, {
+  type: 'message.part.delta',
+  properties: { sessionID, messageID: 'msg_2', partID: 'prt_2', field: 'text', delta: ', world' }
+}, sessionID)
+messages = result.messages
+assert.equal(messages[1].parts[0].text, 'Hello, world')
+
+const completed = { ...assistantInfo, time: { created: 2, completed: 9 } }
+result = applyMessageEvent(messages, { type: 'message.updated', properties: { info: completed } }, sessionID)
+assert.equal(result.messages[1].info.time.completed, 9)
+assert.equal(result.messages[1].parts[0].text, 'Hello, world', 'info updates keep streamed parts')
+
+result = applyMessageEvent(messages, { type: 'message.part.removed', properties: { sessionID, messageID: 'msg_2', partID: 'prt_2' } }, sessionID)
+assert.deepEqual(result.messages[1].parts, [])
+result = applyMessageEvent(messages, { type: 'message.removed', properties: { sessionID, messageID: 'msg_2' } }, sessionID)
+assert.deepEqual(result.messages.map((message) => message.info.id), ['msg_1'])
+
+// Other sessions are ignored; parts for messages we never saw need a refetch.
+assert.deepEqual(
+  applyMessageEvent(messages, { type: 'message.updated', properties: { info: { ...assistantInfo, sessionID: 'ses_other' } } }, sessionID),
+  { status: 'ignored' }
+)
+assert.deepEqual(
+  applyMessageEvent(messages, { type: 'message.part.updated', properties: { part: { ...textPart, messageID: 'msg_missing' } } }, sessionID),
+  { status: 'gap' }
+)
+assert.deepEqual(
+  applyMessageEvent(messages, { type: 'message.part.delta', properties: { sessionID, messageID: 'msg_2', partID: 'prt_missing', delta: 'x' } }, sessionID),
+  { status: 'gap' }
+)
+assert.deepEqual(applyMessageEvent(messages, { type: 'message.part.updated', properties: {} }, sessionID), { status: 'gap' })
+
+// The polled tail replaces its own window and keeps older pages loaded by scrolling back.
+const page = (ids) => ids.map((id) => ({ info: { id, sessionID, role: 'user', time: { created: 1 } }, parts: [] }))
+const ids = (items) => items.map((message) => message.info.id)
+let merged = mergeTail(page(['m1', 'm2', 'm3', 'm4']), page(['m3', 'm4', 'm5']), sessionID)
+assert.equal(merged.overlapped, true)
+assert.deepEqual(ids(merged.messages), ['m1', 'm2', 'm3', 'm4', 'm5'])
+merged = mergeTail(page(['m1', 'm2']), page(['m8', 'm9']), sessionID)
+assert.deepEqual([merged.overlapped, ids(merged.messages)], [false, ['m8', 'm9']], 'a gap longer than the tail drops stale pages')
+assert.equal(mergeTail([{ ...userMessage, info: { ...userMessage.info, sessionID: 'ses_other' } }], page(['m1']), sessionID).overlapped, false)
+
+// Older pages come either from the `before` cursor or from a wider tail window on servers without it.
+let older = prependOlderMessages(page(['m3', 'm4']), page(['m1', 'm2']))
+assert.deepEqual([older.status, older.added, ids(older.messages)], ['applied', 2, ['m1', 'm2', 'm3', 'm4']])
+older = prependOlderMessages(page(['m3', 'm4']), page(['m1', 'm2', 'm3', 'm4']))
+assert.deepEqual([older.added, ids(older.messages)], [2, ['m1', 'm2', 'm3', 'm4']])
+assert.deepEqual(prependOlderMessages(page(['m3', 'm4']), page(['m4', 'm5'])), { status: 'unsupported' })
+
+console.log('message store tests passed')
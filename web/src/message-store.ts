@@ -0,0 +1,148 @@
+import type { MessageEnvelope, MessagePart } from "./types"
+
+/**
+ * Result of folding one live `message.*` event into the transcript.
+ * `gap` means the event refers to state we never saw, so only a refetch can recover.
+ */
+export type MessageEventResult =
+  | { status: "applied"; messages: MessageEnvelope[] }
+  | { status: "ignored" }
+  | { status: "gap" }
+
+type EventPayload = Record<string, unknown>
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value)
+}
+
+function stringField(value: Record<string, unknown>, key: string): string | null {
+  return typeof value[key] === "string" ? value[key] as string : null
+}
+
+function eventProperties(payload: EventPayload): Record<string, unknown> {
+  return isRecord(payload.properties) ? payload.properties : {}
+}
+
+function toMessageInfo(value: unknown): MessageEnvelope["info"] | null {
+  if (!isRecord(value)) return null
+  const id = stringField(value, "id")
+  const sessionID = stringField(value, "sessionID")
+  const role = stringField(value, "role")
+  if (!id || !sessionID || !role || !isRecord(value.time) || typeof value.time.created !== "number") return null
+  return value as MessageEnvelope["info"]
+}
+
+function toPart(value: unknown): (MessagePart & { messageID: string; sessionID: string }) | null {
+  if (!isRecord(value)) return null
+  if (!stringField(value, "id") || !stringField(value, "type") || !stringField(value, "messageID") || !stringField(value, "sessionID")) return null
+  return value as MessagePart & { messageID: string; sessionID: string }
+}
+
+function replaceMessage(messages: MessageEnvelope[], index: number, message: MessageEnvelope): MessageEnvelope[] {
+  const next = messages.slice()
+  next[index] = message
+  return next
+}
+
+function upsertPart(parts: MessagePart[], part: MessagePart): MessagePart[] {
+  const index = parts.findIndex((item) => item.id === part.id)
+  if (index === -1) return [...parts, part]
+  const next = parts.slice()
+  next[index] = part
+  return next
+}
+
+/**
+ * Applies `message.updated`, `message.removed`, `message.part.updated`, `message.part.delta`
+ * and `message.part.removed` to the selected session's messages without a refetch.
+ */
+export function applyMessageEvent(messages: MessageEnvelope[], payload: EventPayload, sessionID: string): MessageEventResult {
+  const properties = eventProperties(payload)
+
+  switch (payload.type) {
+    case "message.updated": {
+      const info = toMessageInfo(properties.info)
+      if (!info) return { status: "gap" }
+      if (info.sessionID !== sessionID) return { status: "ignored" }
+      const index = messages.findIndex((message) => message.info.id === info.id)
+      if (index === -1) return { status: "applied", messages: [...messages, { info, parts: [] }] }
+      return { status: "applied", messages: replaceMessage(messages, index, { ...messages[index], info }) }
+    }
+    case "message.removed": {
+      const messageID = stringField(properties, "messageID")
+      if (stringField(properties, "sessionID") !== sessionID) return { status: "ignored" }
+      if (!messageID) return { status: "gap" }
+      return { status: "applied", messages: messages.filter((message) => message.info.id !== messageID) }
+    }
+    case "message.part.updated": {
+      const part = toPart(properties.part)
+      if (!part) return { status: "gap" }
+      if (part.sessionID !== sessionID) return { status: "ignored" }
+      const index = messages.findIndex((message) => message.info.id === part.messageID)
+      if (index === -1) return { status: "gap" }
+      const message = messages[index]
+      return { status: "applied", messages: replaceMessage(messages, index, { ...message, parts: upsertPart(message.parts, part) }) }
+    }
+    case "message.part.delta": {
+      if (stringField(properties, "sessionID") !== sessionID) return { status: "ignored" }
+      const messageID = stringField(properties, "messageID")
+      const partID = stringField(properties, "partID")
+      const field = stringField(properties, "field") ?? "text"
+      const delta = stringField(properties, "delta")
+      const index = messages.findIndex((message) => message.info.id === messageID)
+      if (index === -1 || delta === null) return { status: "gap" }
+      const message = messages[index]
+      const part = message.parts.find((item) => item.id === partID) as Record<string, unknown> | undefined
+      if (!part || typeof (part[field] ?? "") !== "string") return { status: "gap" }
+      const updated = { ...part, [field]: `${part[field] ?? ""}${delta}` } as MessagePart
+      return { status: "applied", messages: replaceMessage(messages, index, { ...message, parts: upsertPart(message.parts, updated) }) }
+    }
+    case "message.part.removed": {
+      if (stringField(properties, "sessionID") !== sessionID) return { status: "ignored" }
+      const messageID = stringField(properties, "messageID")
+      const partID = stringField(properties, "partID")
+      const index = messages.findIndex((message) => message.info.id === messageID)
+      if (index === -1 || !partID) return { status: "gap" }
+      const message = messages[index]
+      return { status: "applied", messages: replaceMessage(messages, index, { ...message, parts: message.parts.filter((part) => part.id !== partID) }) }
+    }
+    default:
+      // Unknown message.* kinds keep the old behaviour of refetching the transcript.
+      return { status: "gap" }
+  }
+}
+
+/** Messages fetched per request, both for the polled tail and for each older page. */
+export const MESSAGE_PAGE_SIZE = 50
+
+/**
+ * Folds a freshly polled tail into the loaded transcript. Older pages the user scrolled back to are kept
+ * when the tail overlaps them; otherwise (new session, or a gap longer than a page) the tail replaces them.
+ */
+export function mergeTail(messages: MessageEnvelope[], tail: MessageEnvelope[], sessionID: string): { messages: MessageEnvelope[]; overlapped: boolean } {
+  const current = messages.filter((message) => message.info.sessionID === sessionID)
+  const index = tail.length > 0 ? current.findIndex((message) => message.info.id === tail[0].info.id) : -1
+  if (index === -1) return { messages: tail, overlapped: false }
+  return { messages: [...current.slice(0, index), ...tail], overlapped: true }
+}
+
+export type OlderPageResult =
+  | { status: "applied"; messages: MessageEnvelope[]; added: number }
+  | { status: "unsupported" }
+
+/**
+ * Prepends a page loaded with a `before` cursor. A page that still contains the oldest loaded message is a
+ * wider tail window, so only what precedes it is new. A page that overlaps further in means the server
+ * ignored the cursor and returned the latest messages again.
+ */
+export function prependOlderMessages(messages: MessageEnvelope[], page: MessageEnvelope[]): OlderPageResult {
+  if (messages.length === 0) return { status: "applied", messages: page, added: page.length }
+  const loaded = new Set(messages.map((message) => message.info.id))
+  const anchor = page.findIndex((message) => message.info.id === messages[0].info.id)
+  if (anchor !== -1) {
+    const older = page.slice(0, anchor)
+    return { status: "applied", messages: [...older, ...messages], added: older.length }
+  }
+  if (page.some((message) => loaded.has(message.info.id))) return { status: "unsupported" }
+  return { status: "applied", messages: [...page, ...messages], added: page.length }
+}
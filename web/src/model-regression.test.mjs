@@ -21,7 +21,11 @@ assert.ok(app.includes('AGENT_STORAGE_KEY'), 'selected plan/build agent should p
 assert.ok(app.includes('agentOptions.filter((agent) => agent.mode === "primary" || agent.mode === "all")'), 'agent picker should expose primary agents such as build and plan')
 assert.ok(app.includes('activeAgent?.id ?? "build"'), 'agent selection should default to build')
 assert.ok(app.includes('id="agent-select"'), 'AI sheet should render an agent selector')
-assert.ok(app.includes('api.sendPrompt(config, selectedSession.id, text, selectedSession.directory, activeModel, activeAgentID)'), 'chat prompts should use selected agent')
+assert.ok(app.includes('api.sendPrompt(config, selectedSession.id, text, selectedSession.directory, activeModel, activeAgentID, sentAttachments)'), 'chat prompts should use selected agent')
+assert.ok(api.includes('attachments.map(attachmentPart)'), 'prompt attachments should be sent as file parts')
+assert.ok(app.includes('attachmentsSupported = activeModelOption ? activeModelOption.attachments : true'), 'attachments should follow the active model capability')
+assert.ok(app.includes('disabled={!selectedSession || isWorking || !attachmentsSupported}'), 'attachment buttons should be disabled for models without attachment support')
+assert.ok(app.includes('capture="environment"'), 'composer should offer the camera for photo attachments')
 assert.ok(app.includes('api.sendCommand(config, selectedSession.id, command, args, selectedSession.directory, activeModel, activeAgentID)'), 'slash commands should use selected agent')
 assert.ok(app.includes('session-context-strip'), 'detail UX should expose compact mobile context chips')
 assert.ok(app.includes('activeDetailSheet === "ai"'), 'model picker should open in the bottom sheet')
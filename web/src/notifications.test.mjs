@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict'
+import { notificationsSupported, permissionNotificationKey, sessionKey, sessionStatusAlerts } from './notifications.ts'
+
+const session = (id, status, profileID = 'srv_a') => ({ id, status, profileID, title: id, directory: '/repo' })
+
+// Keys include the server so equal session ids on two servers stay apart.
+assert.equal(sessionKey({ id: 'ses_1', profileID: 'srv_a' }), 'srv_a:ses_1')
+assert.notEqual(sessionKey({ id: 'ses_1', profileID: 'srv_a' }), sessionKey({ id: 'ses_1', profileID: 'srv_b' }))
+assert.equal(permissionNotificationKey({ id: 'per_1', sessionID: 'ses_1', permission: 'bash', patterns: [], profileID: 'srv_a' }), 'permission:srv_a:per_1')
+
+// The first snapshot of a session never alerts, only later transitions do.
+assert.deepEqual(sessionStatusAlerts(new Map(), [session('ses_1', 'idle'), session('ses_2', 'busy')]), [])
+
+const previous = new Map([
+  ['srv_a:ses_1', 'busy'],
+  ['srv_a:ses_2', 'busy'],
+  ['srv_a:ses_3', 'idle'],
+  ['srv_a:ses_4', 'retry'],
+  ['srv_a:ses_5', 'idle']
+])
+const alerts = sessionStatusAlerts(previous, [
+  session('ses_1', 'idle'),
+  session('ses_2', 'retry'),
+  session('ses_3', 'busy'),
+  session('ses_4', 'idle'),
+  session('ses_5', 'idle')
+])
+assert.deepEqual(alerts.map((alert) => [alert.kind, alert.session.id]), [
+  ['completed', 'ses_1'],
+  ['retry', 'ses_2'],
+  ['completed', 'ses_4']
+])
+
+// A session.error seen before going idle turns the completion into an error.
+assert.deepEqual(
+  sessionStatusAlerts(new Map([['srv_a:ses_1', 'busy']]), [session('ses_1', 'idle')], new Set(['srv_a:ses_1'])).map((alert) => alert.kind),
+  ['error']
+)
+
+// Outside the Android app the bridge is never touched.
+assert.equal(notificationsSupported(), false)
+
+console.log('notification tests passed')
@@ -0,0 +1,82 @@
+import { Capacitor, registerPlugin, type PluginListenerHandle } from "@capacitor/core"
+import type { PermissionRequest, SessionView } from "./types"
+
+export const NOTIFICATIONS_STORAGE_KEY = "opencode.remote.notifications"
+
+export type SessionAlertKind = "completed" | "retry" | "error" | "permission"
+
+export type SessionAlert = {
+  kind: SessionAlertKind
+  session: SessionView
+}
+
+/** Session a tapped notification should open. */
+export type NotificationTarget = {
+  sessionID: string
+  directory?: string
+  profileID?: string
+}
+
+type NativeSessionNotificationsPlugin = {
+  requestPermission(): Promise<{ granted: boolean }>
+  notify(options: { key: string; title: string; body: string } & NotificationTarget): Promise<void>
+  cancel(options: { key: string }): Promise<void>
+  addListener(eventName: "open", listenerFunc: (target: NotificationTarget) => void): Promise<PluginListenerHandle>
+}
+
+const NativeSessionNotifications = registerPlugin<NativeSessionNotificationsPlugin>("SessionNotifications")
+
+export function notificationsSupported(): boolean {
+  return Capacitor.getPlatform() === "android"
+}
+
+/** Sessions of several servers can share an id, so keys include the profile. */
+export function sessionKey(session: { id: string; profileID?: string }): string {
+  return `${session.profileID ?? ""}:${session.id}`
+}
+
+/** Permission prompts get their own notification, cancelled once the request is answered anywhere. */
+export function permissionNotificationKey(permission: PermissionRequest): string {
+  return `permission:${permission.profileID ?? ""}:${permission.id}`
+}
+
+/**
+ * Compares the previous status of every session with the new list: busy to idle is a completion (or an error when
+ * `errored` saw a `session.error` for it), entering retry is a retry. Sessions seen for the first time never alert.
+ */
+export function sessionStatusAlerts(previous: Map<string, string>, sessions: SessionView[], errored: Set<string> = new Set()): SessionAlert[] {
+  return sessions.flatMap((session): SessionAlert[] => {
+    const key = sessionKey(session)
+    const before = previous.get(key)
+    if (before === undefined || before === session.status) return []
+    if (session.status === "retry") return [{ kind: "retry", session }]
+    if (session.status === "idle" && (before === "busy" || before === "retry")) {
+      return [{ kind: errored.has(key) ? "error" : "completed", session }]
+    }
+    return []
+  })
+}
+
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false
+  const { granted } = await NativeSessionNotifications.requestPermission()
+  return granted
+}
+
+export function postSessionNotification(key: string, title: string, body: string, target: NotificationTarget): void {
+  if (!notificationsSupported()) return
+  void NativeSessionNotifications.notify({ key, title, body, ...target }).catch(() => undefined)
+}
+
+export function cancelSessionNotification(key: string): void {
+  if (!notificationsSupported()) return
+  void NativeSessionNotifications.cancel({ key }).catch(() => undefined)
+}
+
+export function onNotificationOpen(listener: (target: NotificationTarget) => void): () => void {
+  if (!notificationsSupported()) return () => undefined
+  const handle = NativeSessionNotifications.addListener("open", listener)
+  return () => {
+    void handle.then((active) => active.remove())
+  }
+}
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict'
+import { CACHED_MESSAGE_LIMIT, compactTranscript, loadCachedSessions } from './offline-cache.ts'
+
+const message = (index, parts = []) => ({ info: { id: `msg_${index}`, sessionID: 'ses_1', role: 'user', time: { created: index } }, parts })
+
+// Only the newest messages are kept offline.
+const long = Array.from({ length: CACHED_MESSAGE_LIMIT + 5 }, (_, index) => message(index))
+const compacted = compactTranscript(long)
+assert.equal(compacted.length, CACHED_MESSAGE_LIMIT)
+assert.equal(compacted[0].info.id, 'msg_5')
+
+// Large inline attachments lose their data URL; small ones and remote URLs are kept as they are.
+const big = { id: 'prt_big', type: 'file', mime: 'image/png', url: `data:image/png;base64,${'A'.repeat(70_000)}` }
+const small = { id: 'prt_small', type: 'file', mime: 'image/png', url: 'data:image/png;base64,AAAA' }
+const remote = { id: 'prt_remote', type: 'file', mime: 'image/png', url: `https://example.com/${'a'.repeat(70_000)}` }
+const [withFiles] = compactTranscript([message(1, [big, small, remote])])
+assert.deepEqual(withFiles.parts.map((part) => part.url.length > 0), [false, true, true])
+const untouched = message(2, [small])
+assert.equal(compactTranscript([untouched])[0], untouched, 'messages without large files keep their identity')
+
+// Without IndexedDB (private mode, tests) the cache is simply empty.
+assert.equal(await loadCachedSessions('profile-1'), null)
+
+console.log('offline cache tests passed')
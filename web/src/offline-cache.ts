@@ -0,0 +1,99 @@
+import type { DiffFile, MessageEnvelope, SessionView, TodoItem } from "./types"
+
+const DB_NAME = "opencode-remote-cache"
+const DB_VERSION = 1
+const SESSIONS_STORE = "sessions"
+const TRANSCRIPTS_STORE = "transcripts"
+/** Older messages are dropped from the cached copy; scroll-back refetches them once online. */
+export const CACHED_MESSAGE_LIMIT = 200
+/** Inline attachments above this size are not worth keeping offline. */
+const MAX_CACHED_DATA_URL = 64 * 1024
+
+export type CachedSessions = {
+  profileID: string
+  sessions: SessionView[]
+  selectedID: string | null
+  savedAt: number
+}
+
+export type CachedTranscript = {
+  profileID: string
+  sessionID: string
+  messages: MessageEnvelope[]
+  todos: TodoItem[]
+  diffFiles: DiffFile[]
+  savedAt: number
+}
+
+let database: Promise<IDBDatabase | null> | null = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  database ??= new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null)
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SESSIONS_STORE, { keyPath: "profileID" })
+      request.result.createObjectStore(TRANSCRIPTS_STORE, { keyPath: ["profileID", "sessionID"] })
+    }
+    request.onsuccess = () => resolve(request.result)
+    // A private window or a full disk only costs the offline copy, never the live app.
+    request.onerror = () => resolve(null)
+    request.onblocked = () => resolve(null)
+  })
+  return database
+}
+
+async function withStore<T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  const db = await openDatabase()
+  if (!db) return null
+  return new Promise((resolve) => {
+    try {
+      const request = run(db.transaction(name, mode).objectStore(name))
+      request.onsuccess = () => resolve(request.result ?? null)
+      request.onerror = () => resolve(null)
+    } catch {
+      resolve(null)
+    }
+  })
+}
+
+/** Drops old messages and empties the `url` of large inline files, which then render as a placeholder, so a cached transcript stays small. */
+export function compactTranscript(messages: MessageEnvelope[]): MessageEnvelope[] {
+  return messages.slice(-CACHED_MESSAGE_LIMIT).map((message) => {
+    const oversized = message.parts.some((part) => part.type === "file" && part.url.startsWith("data:") && part.url.length > MAX_CACHED_DATA_URL)
+    if (!oversized) return message
+    return {
+      ...message,
+      parts: message.parts.map((part) => (
+        part.type === "file" && part.url.startsWith("data:") && part.url.length > MAX_CACHED_DATA_URL ? { ...part, url: "" } : part
+      ))
+    }
+  })
+}
+
+export function loadCachedSessions(profileID: string): Promise<CachedSessions | null> {
+  return withStore<CachedSessions>(SESSIONS_STORE, "readonly", (store) => store.get(profileID))
+}
+
+export async function saveCachedSessions(profileID: string, sessions: SessionView[], selectedID: string | null): Promise<void> {
+  const entry: CachedSessions = { profileID, sessions, selectedID, savedAt: Date.now() }
+  await withStore(SESSIONS_STORE, "readwrite", (store) => store.put(entry))
+}
+
+export function loadCachedTranscript(profileID: string, sessionID: string): Promise<CachedTranscript | null> {
+  return withStore<CachedTranscript>(TRANSCRIPTS_STORE, "readonly", (store) => store.get([profileID, sessionID]))
+}
+
+export async function saveCachedTranscript(profileID: string, sessionID: string, transcript: Pick<CachedTranscript, "messages" | "todos" | "diffFiles">): Promise<void> {
+  const entry: CachedTranscript = { ...transcript, messages: compactTranscript(transcript.messages), profileID, sessionID, savedAt: Date.now() }
+  await withStore(TRANSCRIPTS_STORE, "readwrite", (store) => store.put(entry))
+}
+
+/** Forgets everything cached for a server, e.g. when its profile is deleted. */
+export async function clearCachedServer(profileID: string): Promise<void> {
+  await withStore(SESSIONS_STORE, "readwrite", (store) => store.delete(profileID))
+  await withStore(TRANSCRIPTS_STORE, "readwrite", (store) => store.delete(IDBKeyRange.bound([profileID, ""], [profileID, "\uffff"])))
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict'
+import { createOpenCodeEventDispatcher, isOpenCodeEventType, toOpenCodeEvent, validateOpenCodeEvent } from './opencode-event-model.ts'
+
+const session = { id: 'ses_1', title: 'Fix', directory: '/repo', time: { created: 1, updated: 2 } }
+
+// Bare and globally wrapped payloads validate to the same typed event.
+const created = { type: 'session.created', properties: { info: session } }
+assert.deepEqual(toOpenCodeEvent(created), created)
+assert.deepEqual(toOpenCodeEvent({ directory: '/repo', payload: created }), created)
+assert.deepEqual(toOpenCodeEvent({ type: 'server.connected', properties: {} }), { type: 'server.connected', properties: {} })
+
+// Shapes from older servers are normalized by the validators.
+assert.deepEqual(
+  toOpenCodeEvent({ type: 'permission.replied', properties: { sessionID: 'ses_1', permissionID: 'per_1', response: 'once' } }),
+  { type: 'permission.replied', properties: { sessionID: 'ses_1', requestID: 'per_1', reply: 'once' } }
+)
+assert.equal(toOpenCodeEvent({ type: 'message.part.delta', properties: { sessionID: 'ses_1', messageID: 'msg_1', partID: 'prt_1', delta: 'x' } }).properties.field, 'text')
+assert.deepEqual(
+  toOpenCodeEvent({ type: 'session.error', properties: { sessionID: 'ses_1', error: { name: 'APIError', data: { message: 'rate limited' } } } }).properties,
+  { sessionID: 'ses_1', error: { name: 'APIError', message: 'rate limited' } }
+)
+
+// Catalogue events with a broken shape are invalid; types outside the catalogue are unknown.
+assert.equal(validateOpenCodeEvent({ type: 'session.updated', properties: { info: { id: 'ses_1' } } }).status, 'invalid')
+assert.equal(validateOpenCodeEvent({ type: 'session.status', properties: { sessionID: 'ses_1' } }).status, 'invalid')
+assert.equal(validateOpenCodeEvent({ type: 'file.watcher.updated', properties: { file: 'a.ts', event: 'rename' } }).status, 'invalid')
+assert.deepEqual(validateOpenCodeEvent({ type: 'tui.toast.show', properties: {} }), { status: 'unknown', type: 'tui.toast.show' })
+assert.deepEqual(validateOpenCodeEvent('not an event'), { status: 'unknown', type: null })
+assert.equal(isOpenCodeEventType('todo.updated'), true)
+assert.equal(isOpenCodeEventType('toString'), false)
+
+// The dispatcher routes by type, passes the source along and can unsubscribe.
+const dispatcher = createOpenCodeEventDispatcher()
+const seen = []
+const off = dispatcher.on(['session.idle', 'session.status'], (event, source) => seen.push([event.type, source]))
+dispatcher.on('todo.updated', (event) => seen.push([event.type, event.properties.todos.length]))
+dispatcher.onAny((event) => seen.push(['any', event.type]))
+dispatcher.onInvalid((type, _payload, source) => seen.push(['invalid', type, source]))
+
+dispatcher.dispatch({ type: 'session.idle', properties: { sessionID: 'ses_1' } }, 'srv_a')
+dispatcher.dispatch({ type: 'todo.updated', properties: { sessionID: 'ses_1', todos: [] } }, 'srv_a')
+dispatcher.dispatch({ type: 'session.status', properties: {} }, 'srv_b')
+dispatcher.dispatch({ type: 'tui.toast.show', properties: {} }, 'srv_a')
+off()
+dispatcher.dispatch({ type: 'session.idle', properties: { sessionID: 'ses_1' } }, 'srv_a')
+
+assert.deepEqual(seen, [
+  ['any', 'session.idle'],
+  ['session.idle', 'srv_a'],
+  ['any', 'todo.updated'],
+  ['todo.updated', 0],
+  ['invalid', 'session.status', 'srv_b'],
+  ['any', 'session.idle']
+])
+
+console.log('OpenCode event model tests passed')
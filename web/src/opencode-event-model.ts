@@ -0,0 +1,214 @@
+import type { DiffFile, MessageEnvelope, MessagePart, Session, SessionStatus, TodoItem } from "./types"
+
+/**
+ * Permission requests as sent: `permission.asked` carries `{ permission, patterns }`, the older `permission.updated`
+ * `{ type, pattern }`. `toPermissionRequest` normalizes both.
+ */
+export type PermissionEventProperties = Record<string, unknown> & {
+  id: string
+  sessionID: string
+}
+
+/** Properties of every OpenCode event the app understands, keyed by event type. */
+export type OpenCodeEventMap = {
+  "server.connected": Record<string, never>
+  "installation.updated": { version: string }
+  "installation.update-available": { version: string }
+  "lsp.updated": Record<string, never>
+  "lsp.client.diagnostics": { serverID: string; path: string }
+  "file.edited": { file: string }
+  "file.watcher.updated": { file: string; event: "add" | "change" | "unlink" }
+  "session.created": { info: Session }
+  "session.updated": { info: Session }
+  "session.deleted": { info: Session }
+  "session.status": { sessionID: string; status: SessionStatus }
+  "session.idle": { sessionID: string }
+  "session.error": { sessionID?: string; error?: { name: string; message?: string } }
+  "session.diff": { sessionID: string; diff: DiffFile[] }
+  "session.compacted": { sessionID: string }
+  "message.updated": { info: MessageEnvelope["info"] }
+  "message.removed": { sessionID: string; messageID: string }
+  "message.part.updated": { part: MessagePart & { messageID: string; sessionID: string }; delta?: string }
+  "message.part.delta": { sessionID: string; messageID: string; partID: string; field: string; delta: string }
+  "message.part.removed": { sessionID: string; messageID: string; partID: string }
+  "todo.updated": { sessionID: string; todos: TodoItem[] }
+  "permission.asked": PermissionEventProperties
+  "permission.updated": PermissionEventProperties
+  "permission.replied": { sessionID: string; requestID: string; reply?: string }
+}
+
+export type OpenCodeEventType = keyof OpenCodeEventMap
+
+export type OpenCodeEvent = {
+  [K in OpenCodeEventType]: { type: K; properties: OpenCodeEventMap[K] }
+}[OpenCodeEventType]
+
+export type OpenCodeEventOf<K extends OpenCodeEventType> = Extract<OpenCodeEvent, { type: K }>
+
+type Properties = Record<string, unknown>
+
+function isRecord(value: unknown): value is Properties {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value)
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string"
+}
+
+/** Validates `properties` when every listed field is a string, keeping the original object. */
+function withStrings<T>(...keys: string[]): (properties: Properties) => T | null {
+  return (properties) => (keys.every((key) => isString(properties[key])) ? properties as T : null)
+}
+
+function hasTime(value: Properties, key: "created" | "updated"): boolean {
+  return isRecord(value.time) && typeof value.time[key] === "number"
+}
+
+function withSession(properties: Properties): { info: Session } | null {
+  const info = properties.info
+  return isRecord(info) && isString(info.id) && isString(info.directory) && hasTime(info, "updated") ? { info: info as Session } : null
+}
+
+/** OpenCode global SSE wraps the event in `{ directory, payload }`; project streams send it bare. */
+function unwrap(data: unknown): Properties | null {
+  if (!isRecord(data)) return null
+  return isRecord(data.payload) ? data.payload : data
+}
+
+function empty(): Record<string, never> {
+  return {}
+}
+
+const validators: { [K in OpenCodeEventType]: (properties: Properties) => OpenCodeEventMap[K] | null } = {
+  "server.connected": empty,
+  "installation.updated": withStrings("version"),
+  "installation.update-available": withStrings("version"),
+  "lsp.updated": empty,
+  "lsp.client.diagnostics": withStrings("serverID", "path"),
+  "file.edited": withStrings("file"),
+  "file.watcher.updated": (properties) => (
+    isString(properties.file) && ["add", "change", "unlink"].includes(properties.event as string)
+      ? properties as OpenCodeEventMap["file.watcher.updated"]
+      : null
+  ),
+  "session.created": withSession,
+  "session.updated": withSession,
+  "session.deleted": withSession,
+  "session.status": (properties) => (
+    isString(properties.sessionID) && isRecord(properties.status) && isString(properties.status.type)
+      ? { sessionID: properties.sessionID, status: properties.status as SessionStatus }
+      : null
+  ),
+  "session.idle": withStrings("sessionID"),
+  "session.error": (properties) => ({
+    sessionID: isString(properties.sessionID) ? properties.sessionID : undefined,
+    error: isRecord(properties.error) && isString(properties.error.name)
+      ? { name: properties.error.name, message: isRecord(properties.error.data) && isString(properties.error.data.message) ? properties.error.data.message : undefined }
+      : undefined
+  }),
+  "session.diff": (properties) => (
+    isString(properties.sessionID) && Array.isArray(properties.diff) ? properties as OpenCodeEventMap["session.diff"] : null
+  ),
+  "session.compacted": withStrings("sessionID"),
+  "message.updated": (properties) => {
+    const info = properties.info
+    return isRecord(info) && isString(info.id) && isString(info.sessionID) && isString(info.role) && hasTime(info, "created")
+      ? { info: info as MessageEnvelope["info"] }
+      : null
+  },
+  "message.removed": withStrings("sessionID", "messageID"),
+  "message.part.updated": (properties) => {
+    const part = properties.part
+    return isRecord(part) && ["id", "type", "messageID", "sessionID"].every((key) => isString(part[key]))
+      ? { part: part as OpenCodeEventMap["message.part.updated"]["part"], delta: isString(properties.delta) ? properties.delta : undefined }
+      : null
+  },
+  "message.part.delta": (properties) => (
+    isString(properties.sessionID) && isString(properties.messageID) && isString(properties.partID) && isString(properties.delta)
+      ? { ...properties, field: isString(properties.field) ? properties.field : "text" } as OpenCodeEventMap["message.part.delta"]
+      : null
+  ),
+  "message.part.removed": withStrings("sessionID", "messageID", "partID"),
+  "todo.updated": (properties) => (
+    isString(properties.sessionID) && Array.isArray(properties.todos) ? properties as OpenCodeEventMap["todo.updated"] : null
+  ),
+  "permission.asked": withStrings("id", "sessionID"),
+  "permission.updated": withStrings("id", "sessionID"),
+  "permission.replied": (properties) => {
+    // Older servers call the id `permissionID` and the answer `response`.
+    const requestID = properties.requestID ?? properties.permissionID
+    const reply = properties.reply ?? properties.response
+    return isString(properties.sessionID) && isString(requestID)
+      ? { sessionID: properties.sessionID, requestID, reply: isString(reply) ? reply : undefined }
+      : null
+  }
+}
+
+export function isOpenCodeEventType(type: unknown): type is OpenCodeEventType {
+  return isString(type) && Object.prototype.hasOwnProperty.call(validators, type)
+}
+
+export type ValidatedEvent =
+  | { status: "valid"; event: OpenCodeEvent }
+  /** A catalogue event whose properties do not have the expected shape. */
+  | { status: "invalid"; type: OpenCodeEventType; payload: Properties }
+  | { status: "unknown"; type: string | null }
+
+/** Checks a parsed SSE payload (bare or wrapped in the global `{ directory, payload }` envelope) against the catalogue. */
+export function validateOpenCodeEvent(data: unknown): ValidatedEvent {
+  const payload = unwrap(data)
+  const type = payload?.type
+  if (!payload || !isOpenCodeEventType(type)) return { status: "unknown", type: isString(type) ? type : null }
+  const properties = validators[type](isRecord(payload.properties) ? payload.properties : {})
+  if (!properties) return { status: "invalid", type, payload }
+  return { status: "valid", event: { type, properties } as OpenCodeEvent }
+}
+
+export function toOpenCodeEvent(data: unknown): OpenCodeEvent | null {
+  const result = validateOpenCodeEvent(data)
+  return result.status === "valid" ? result.event : null
+}
+
+export type OpenCodeEventHandler<K extends OpenCodeEventType> = (event: OpenCodeEventOf<K>, source: string) => void
+
+/**
+ * Routes validated events to handlers subscribed by type. `source` identifies the stream, e.g. the server profile.
+ * Invalid catalogue events go to `onInvalid` so callers can fall back to a refetch; unknown types are dropped.
+ */
+export function createOpenCodeEventDispatcher() {
+  const handlers = new Map<OpenCodeEventType, Set<(event: OpenCodeEvent, source: string) => void>>()
+  const anyHandlers = new Set<(event: OpenCodeEvent, source: string) => void>()
+  const invalidHandlers = new Set<(type: OpenCodeEventType, payload: Properties, source: string) => void>()
+
+  return {
+    on<K extends OpenCodeEventType>(types: K | readonly K[], handler: OpenCodeEventHandler<K>): () => void {
+      const list: readonly K[] = Array.isArray(types) ? types : [types as K]
+      // Only events of the subscribed types reach this wrapper, so the narrowing cast holds.
+      const registered = (event: OpenCodeEvent, source: string) => handler(event as OpenCodeEventOf<K>, source)
+      for (const type of list) {
+        const set = handlers.get(type) ?? new Set()
+        set.add(registered)
+        handlers.set(type, set)
+      }
+      return () => list.forEach((type) => handlers.get(type)?.delete(registered))
+    },
+    onAny(handler: (event: OpenCodeEvent, source: string) => void): () => void {
+      anyHandlers.add(handler)
+      return () => anyHandlers.delete(handler)
+    },
+    onInvalid(handler: (type: OpenCodeEventType, payload: Properties, source: string) => void): () => void {
+      invalidHandlers.add(handler)
+      return () => invalidHandlers.delete(handler)
+    },
+    dispatch(data: unknown, source = ""): ValidatedEvent {
+      const result = validateOpenCodeEvent(data)
+      if (result.status === "invalid") invalidHandlers.forEach((handler) => handler(result.type, result.payload, source))
+      if (result.status !== "valid") return result
+      anyHandlers.forEach((handler) => handler(result.event, source))
+      handlers.get(result.event.type)?.forEach((handler) => handler(result.event, source))
+      return result
+    }
+  }
+}
+
+export type OpenCodeEventDispatcher = ReturnType<typeof createOpenCodeEventDispatcher>
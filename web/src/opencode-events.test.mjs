@@ -1,9 +1,15 @@
 import assert from 'node:assert/strict'
 import {
+  createEventIDTracker,
   createFetchOpenCodeEventSubscription,
   createOpenCodeEventSubscription,
   eventType,
+  IDLE_TIMEOUT_STORAGE_KEY,
+  isEventIDGap,
+  loadIdleTimeoutSeconds,
+  normalizeIdleTimeoutSeconds,
   parseOpenCodeEvent,
+  saveIdleTimeoutSeconds,
   parseSSEFrame,
   streamURL
 } from './opencode-events.ts'
@@ -56,6 +62,8 @@ assert.equal(malformed.name, 'message')
 assert.equal(streamURL('http://127.0.0.1:4097', 'project'), 'http://127.0.0.1:4097/event')
 assert.equal(streamURL('http://127.0.0.1:4097/', 'project', '/repo with spaces'), 'http://127.0.0.1:4097/event?directory=%2Frepo+with+spaces')
 assert.equal(streamURL('https://server.example', 'global'), 'https://server.example/global/event')
+assert.equal(streamURL('https://example.com/opencode', 'global'), 'https://example.com/opencode/global/event', 'the base path of a proxied server is kept')
+assert.equal(streamURL('https://example.com/opencode/', 'project', '/repo'), 'https://example.com/opencode/event?directory=%2Frepo')
 
 const sources = []
 const delays = []
@@ -180,6 +188,123 @@ assert.ok(fetchStatuses.some((status) => status.type === 'connected'))
 assert.ok(fetchStatuses.some((status) => status.type === 'reconnecting'))
 fetchSubscription.close()
 
+const identified = parseSSEFrame(`id: 41\ndata: ${serverConnected}`)
+assert.equal(identified.id, '41')
+assert.equal(parseSSEFrame(`id: 4\u00001\ndata: ${serverConnected}`).id, undefined, 'ids containing NUL are ignored')
+assert.ok(!('id' in parseSSEFrame(`data: ${serverConnected}`)), 'frames without an id should not carry one')
+
+assert.equal(isEventIDGap(null, '5'), false)
+assert.equal(isEventIDGap('4', '5'), false)
+assert.equal(isEventIDGap('4', '7'), true)
+assert.equal(isEventIDGap('40', '3'), true, 'a restarted count cannot have replayed what was missed')
+assert.equal(isEventIDGap('evt_a', 'evt_c'), false, 'opaque ids cannot be checked')
+
+const gaps = []
+const tracker = createEventIDTracker((gap) => gaps.push(gap))
+tracker.see(undefined)
+tracker.see('1')
+tracker.see('2')
+tracker.see('5')
+assert.equal(tracker.lastEventID, '5')
+assert.deepEqual(gaps, [{ type: 'gap', lastEventID: '2', eventID: '5' }])
+tracker.see('')
+assert.equal(tracker.lastEventID, null, 'an empty id resets the last event id')
+
+const resumeCalls = []
+const resumeStatuses = []
+const resumeSubscription = createFetchOpenCodeEventSubscription({
+  url: 'http://127.0.0.1:4097/global/event',
+  reconnect: { initialDelayMs: 1 },
+  fetchFn: async (url, init) => {
+    resumeCalls.push(init.headers)
+    const frames = resumeCalls.length === 1
+      ? `id: 7\ndata: ${serverConnected}\n\n`
+      : `id: 9\ndata: ${serverConnected}\n\n`
+    return new Response(frames, { headers: { 'content-type': 'text/event-stream' } })
+  },
+  onEvent() {},
+  onStatus(status) { resumeStatuses.push(status) },
+  logger() {}
+})
+await new Promise((resolve) => setTimeout(resolve, 20))
+resumeSubscription.close()
+assert.equal(resumeCalls[0]['Last-Event-ID'], undefined)
+assert.equal(resumeCalls[1]['Last-Event-ID'], '7', 'reconnects should resume from the last event id')
+assert.deepEqual(resumeStatuses.filter((status) => status.type === 'connected').slice(0, 2), [
+  { type: 'connected', resumed: false },
+  { type: 'connected', resumed: true }
+])
+assert.ok(resumeStatuses.some((status) => status.type === 'gap' && status.lastEventID === '7' && status.eventID === '9'),
+  'a resumed stream that skips ids should report the gap')
+
+const staleCalls = []
+const staleStatuses = []
+const staleSubscription = createFetchOpenCodeEventSubscription({
+  url: 'http://127.0.0.1:4097/global/event',
+  idleTimeoutMs: 30,
+  reconnect: { initialDelayMs: 1_000 },
+  fetchFn: async () => {
+    staleCalls.push(Date.now())
+    // Half-open connection: a heartbeat comment arrives, then nothing and no error.
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'))
+      }
+    })
+    return new Response(body, { headers: { 'content-type': 'text/event-stream' } })
+  },
+  onEvent() {},
+  onStatus(status) { staleStatuses.push(status) },
+  logger() {}
+})
+await new Promise((resolve) => setTimeout(resolve, 80))
+staleSubscription.close()
+assert.deepEqual(staleStatuses.slice(0, 3), [
+  { type: 'connected', resumed: false },
+  { type: 'stale', idleMs: 30 },
+  { type: 'reconnecting', delayMs: 1_000 }
+], 'a silent stream should be reported stale and reopened')
+assert.ok(!staleStatuses.some((status) => status.type === 'connection-error'), 'dropping a stale stream is not a connection error')
+
+// The watchdog from Settings is stored in seconds and handed to the subscription in milliseconds, 0 turning it off.
+function memoryStorage(initial = {}) {
+  const values = new Map(Object.entries(initial))
+  return { getItem: (key) => values.get(key) ?? null, setItem: (key, value) => values.set(key, value) }
+}
+assert.equal(loadIdleTimeoutSeconds(memoryStorage()), 65, 'the default outlasts two 30 s heartbeats')
+assert.equal(loadIdleTimeoutSeconds(memoryStorage({ [IDLE_TIMEOUT_STORAGE_KEY]: '-5' })), 65)
+assert.equal(loadIdleTimeoutSeconds(memoryStorage({ [IDLE_TIMEOUT_STORAGE_KEY]: '0' })), 0)
+assert.equal(normalizeIdleTimeoutSeconds('1.5'), null)
+assert.equal(normalizeIdleTimeoutSeconds('3601'), null)
+assert.equal(normalizeIdleTimeoutSeconds(' 120 '), 120)
+
+async function watchdogStatuses(storage, waitMs) {
+  const statuses = []
+  const subscription = createFetchOpenCodeEventSubscription({
+    url: 'http://127.0.0.1:4097/global/event',
+    idleTimeoutMs: loadIdleTimeoutSeconds(storage) * 1000,
+    reconnect: { initialDelayMs: 10_000 },
+    fetchFn: async () => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'))
+      }
+    }), { headers: { 'content-type': 'text/event-stream' } }),
+    onEvent() {},
+    onStatus(status) { statuses.push(status) },
+    logger() {}
+  })
+  await new Promise((resolve) => setTimeout(resolve, waitMs))
+  subscription.close()
+  return statuses
+}
+
+const watchdogStorage = memoryStorage()
+saveIdleTimeoutSeconds(1, watchdogStorage)
+assert.ok((await watchdogStatuses(watchdogStorage, 1_100)).some((status) => status.type === 'stale' && status.idleMs === 1_000),
+  'the saved watchdog should reach the subscription')
+saveIdleTimeoutSeconds(0, watchdogStorage)
+assert.ok(!(await watchdogStatuses(watchdogStorage, 80)).some((status) => status.type === 'stale'), 'a watchdog of 0 never drops the stream')
+
 const invalidContentStatuses = []
 const invalidContentSubscription = createFetchOpenCodeEventSubscription({
   url: 'http://127.0.0.1:4097/global/event',
@@ -1,13 +1,20 @@
 import { Capacitor, registerPlugin, type PluginListenerHandle } from "@capacitor/core"
+import type { TrustedServer } from "./tls"
 
+/** `id` is the SSE `id:` field, present only when the server sent one. */
 export type ParsedOpenCodeEvent =
-  | { ok: true; name: string; raw: string; data: unknown }
-  | { ok: false; name: string; raw: string; error: string }
+  | { ok: true; name: string; raw: string; data: unknown; id?: string }
+  | { ok: false; name: string; raw: string; error: string; id?: string }
 
 export type EventStreamScope = "project" | "global"
 
 export type EventStreamStatus =
-  | { type: "connected" }
+  /** `resumed` is set when the request carried a Last-Event-ID, so the server may replay what was missed. */
+  | { type: "connected"; resumed?: boolean }
+  /** Sequential event ids did not follow on: events after `lastEventID` were lost. */
+  | { type: "gap"; lastEventID: string; eventID: string }
+  /** Nothing, not even a comment, arrived for `idleMs`: the connection is treated as dead and reopened. */
+  | { type: "stale"; idleMs: number }
   | { type: "reconnecting", delayMs: number }
   | { type: "connection-error", error: string }
   | { type: "parse-error", data: string }
@@ -29,6 +36,33 @@ type ReconnectConfig = {
 
 type TimerID = ReturnType<typeof setTimeout>
 
+/**
+ * OpenCode sends `server.heartbeat` every 30 seconds, so a stream silent for longer than two of them has most likely
+ * lost its connection without an error, as mobile networks tend to do.
+ */
+export const DEFAULT_IDLE_TIMEOUT_MS = 65_000
+export const IDLE_TIMEOUT_STORAGE_KEY = "opencode.remote.idleTimeout"
+/** Longest watchdog Settings accepts, in seconds. */
+export const MAX_IDLE_TIMEOUT_SECONDS = 3_600
+
+type StorageLike = Pick<Storage, "getItem" | "setItem">
+
+/** Whole seconds from 0 (watchdog off) up to MAX_IDLE_TIMEOUT_SECONDS, as typed or stored; null for anything else. */
+export function normalizeIdleTimeoutSeconds(value: string | null): number | null {
+  if (value === null || !value.trim()) return null
+  const seconds = Number(value)
+  return Number.isInteger(seconds) && seconds >= 0 && seconds <= MAX_IDLE_TIMEOUT_SECONDS ? seconds : null
+}
+
+/** The watchdog set in Settings, in seconds; 0 turns it off. */
+export function loadIdleTimeoutSeconds(storage: StorageLike = localStorage): number {
+  return normalizeIdleTimeoutSeconds(storage.getItem(IDLE_TIMEOUT_STORAGE_KEY)) ?? DEFAULT_IDLE_TIMEOUT_MS / 1000
+}
+
+export function saveIdleTimeoutSeconds(seconds: number, storage: StorageLike = localStorage): void {
+  storage.setItem(IDLE_TIMEOUT_STORAGE_KEY, String(seconds))
+}
+
 type EventSubscriptionOptions = {
   url: string
   reconnect?: ReconnectConfig
@@ -48,24 +82,27 @@ function errorMessage(error: unknown): string {
   return error instanceof Error ? error.message : "EventSource creation failed"
 }
 
+/** Resolves below `serverURL`'s path, so a server behind a reverse proxy at `/opencode` streams from `/opencode/event`. */
 export function streamURL(serverURL: string, scope: EventStreamScope, directory?: string): string {
-  const url = new URL(scope === "global" ? "/global/event" : "/event", serverURL)
+  const url = new URL(scope === "global" ? "global/event" : "event", `${serverURL.replace(/\/+$/, "")}/`)
   if (scope === "project" && directory) url.searchParams.set("directory", directory)
   return url.toString()
 }
 
 /** Preserves raw payloads until OpenCode event shapes are validated in the app. */
-export function parseOpenCodeEvent(data: string, name = "message"): ParsedOpenCodeEvent {
+export function parseOpenCodeEvent(data: string, name = "message", id?: string): ParsedOpenCodeEvent {
+  const withID = id === undefined ? {} : { id }
   try {
-    return { ok: true, name, raw: data, data: JSON.parse(data) as unknown }
+    return { ok: true, name, raw: data, data: JSON.parse(data) as unknown, ...withID }
   } catch (error) {
-    return { ok: false, name, raw: data, error: errorMessage(error) }
+    return { ok: false, name, raw: data, error: errorMessage(error), ...withID }
   }
 }
 
 /** Parses one SSE frame received through an authenticated fetch stream. */
 export function parseSSEFrame(frame: string): ParsedOpenCodeEvent | null {
   let name = "message"
+  let id: string | undefined
   const data: string[] = []
   for (const line of frame.replace(/\r/g, "").split("\n")) {
     if (!line || line.startsWith(":")) continue
@@ -74,9 +111,36 @@ export function parseSSEFrame(frame: string): ParsedOpenCodeEvent | null {
     const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "")
     if (field === "event") name = value || name
     if (field === "data") data.push(value)
+    // Per the SSE spec an id containing NUL is ignored.
+    if (field === "id" && !value.includes("\0")) id = value
   }
   if (data.length === 0) return null
-  return parseOpenCodeEvent(data.join("\n"), name)
+  return parseOpenCodeEvent(data.join("\n"), name, id)
+}
+
+/**
+ * Numeric SSE ids are sequential, so anything but the next number means events were dropped or the server restarted
+ * its count and could not replay. Opaque ids cannot be checked.
+ */
+export function isEventIDGap(previous: string | null, next: string): boolean {
+  if (previous === null || !/^\d+$/.test(previous) || !/^\d+$/.test(next)) return false
+  return Number(next) !== Number(previous) + 1
+}
+
+/** Remembers the last SSE id of a stream for Last-Event-ID and reports sequential ids that skip ahead. */
+export function createEventIDTracker(onGap: (status: Extract<EventStreamStatus, { type: "gap" }>) => void) {
+  let lastEventID: string | null = null
+  return {
+    get lastEventID() {
+      return lastEventID
+    },
+    see(id: string | undefined) {
+      if (id === undefined) return
+      if (lastEventID !== null && isEventIDGap(lastEventID, id)) onGap({ type: "gap", lastEventID, eventID: id })
+      // An empty id resets the last event id, as in EventSource.
+      lastEventID = id || null
+    }
+  }
 }
 
 /** OpenCode global SSE wraps the event payload in { directory, payload }. */
@@ -97,6 +161,8 @@ type FetchEventSubscriptionOptions = {
   url: string
   headers?: Record<string, string>
   reconnect?: ReconnectConfig
+  /** Silence after which the connection is dropped and reopened; 0 turns the watchdog off. */
+  idleTimeoutMs?: number
   fetchFn?: typeof fetch
   onEvent: (event: Extract<ParsedOpenCodeEvent, { ok: true }>) => void
   onStatus?: (status: EventStreamStatus) => void
@@ -112,12 +178,14 @@ export function createFetchOpenCodeEventSubscription(options: FetchEventSubscrip
   const maxDelayMs = Math.max(initialDelayMs, validDelay(options.reconnect?.maxDelayMs, 30_000))
   const fetchFn = options.fetchFn ?? fetch
   const logger = options.logger ?? ((message: string) => console.debug(message))
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
   let controller: AbortController | undefined
   let reconnectTimer: TimerID | undefined
   let reconnectDelayMs = initialDelayMs
   let closed = false
 
   const publishStatus = (status: EventStreamStatus) => options.onStatus?.(status)
+  const eventIDs = createEventIDTracker(publishStatus)
   const scheduleReconnect = () => {
     if (closed || reconnectTimer !== undefined) return
     const delayMs = reconnectDelayMs
@@ -133,9 +201,25 @@ export function createFetchOpenCodeEventSubscription(options: FetchEventSubscrip
     if (closed) return
     const currentController = new AbortController()
     controller = currentController
+    const resumeFrom = eventIDs.lastEventID
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined
+    let idleTimer: TimerID | undefined
+    // Any bytes, heartbeat comments included, prove the connection is alive; silence aborts it and the loop below reconnects.
+    const resetIdleTimer = () => {
+      if (idleTimer !== undefined) clearTimeout(idleTimer)
+      if (idleTimeoutMs <= 0) return
+      idleTimer = setTimeout(() => {
+        idleTimer = undefined
+        if (closed || controller !== currentController) return
+        publishStatus({ type: "stale", idleMs: idleTimeoutMs })
+        currentController.abort()
+        void reader?.cancel().catch(() => undefined)
+      }, idleTimeoutMs)
+    }
+    resetIdleTimer()
     try {
       const response = await fetchFn(options.url, {
-        headers: { Accept: "text/event-stream", ...options.headers },
+        headers: { Accept: "text/event-stream", ...options.headers, ...(resumeFrom === null ? {} : { "Last-Event-ID": resumeFrom }) },
         signal: currentController.signal
       })
       if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`)
@@ -144,19 +228,21 @@ export function createFetchOpenCodeEventSubscription(options: FetchEventSubscrip
         throw new Error(`Expected text/event-stream, received ${contentType || "no content type"}`)
       }
       reconnectDelayMs = initialDelayMs
-      publishStatus({ type: "connected" })
-      const reader = response.body.getReader()
+      publishStatus({ type: "connected", resumed: resumeFrom !== null })
+      reader = response.body.getReader()
       const decoder = new TextDecoder()
       let buffer = ""
       while (!closed && controller === currentController) {
         const { done, value } = await reader.read()
         if (done) break
+        resetIdleTimer()
         buffer += decoder.decode(value, { stream: true })
         let boundary = buffer.search(/\r?\n\r?\n/)
         while (boundary !== -1) {
           const frame = buffer.slice(0, boundary)
           buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "")
           const event = parseSSEFrame(frame)
+          eventIDs.see(event?.id)
           if (event?.ok) options.onEvent(event)
           if (event && !event.ok) publishStatus({ type: "parse-error", data: event.raw })
           boundary = buffer.search(/\r?\n\r?\n/)
@@ -168,6 +254,8 @@ export function createFetchOpenCodeEventSubscription(options: FetchEventSubscrip
         publishStatus({ type: "connection-error", error: message })
         logger(`OpenCode SSE connection failed: ${message}`)
       }
+    } finally {
+      if (idleTimer !== undefined) clearTimeout(idleTimer)
     }
     if (!closed && controller === currentController) scheduleReconnect()
   }
@@ -187,10 +275,13 @@ export function createFetchOpenCodeEventSubscription(options: FetchEventSubscrip
 }
 
 type NativeLiveEventsPlugin = {
-  start(options: { url: string; username: string; password: string }): Promise<void>
-  stop(): Promise<void>
-  addListener(eventName: "event", listenerFunc: (event: { data?: string }) => void): Promise<PluginListenerHandle>
-  addListener(eventName: "status", listenerFunc: (status: EventStreamStatus) => void): Promise<PluginListenerHandle>
+  start(options: { id: string; url: string; headers: Record<string, string>; idleTimeoutMs: number }): Promise<void>
+  stop(options?: { id?: string }): Promise<void>
+  setBackground(options: { enabled: boolean } & Partial<BackgroundStreamLabels>): Promise<void>
+  updateSessions(options: { id: string; busy: string[] }): Promise<void>
+  probe(options: { url: string; headers: Record<string, string>; servers?: TrustedServer[] }): Promise<{ status: number; contentType: string }>
+  addListener(eventName: "event", listenerFunc: (event: { stream?: string; data?: string; id?: string }) => void): Promise<PluginListenerHandle>
+  addListener(eventName: "status", listenerFunc: (status: EventStreamStatus & { stream?: string }) => void): Promise<PluginListenerHandle>
 }
 
 const NativeLiveEvents = registerPlugin<NativeLiveEventsPlugin>("LiveEvents")
@@ -199,33 +290,82 @@ export function isNativeEventTransport(): boolean {
   return Capacitor.getPlatform() === "android"
 }
 
-/** Android WebView cannot reliably keep a fetch ReadableStream open; use a direct native HttpURLConnection SSE client. */
+/** Text of the persistent notification; `busyText` gets `{count}` replaced natively. */
+export type BackgroundStreamLabels = {
+  title: string
+  idleText: string
+  busyText: string
+}
+
+/**
+ * Runs the native streams under an Android foreground service so they survive while the WebView is suspended.
+ * The service only runs while at least one stream is open.
+ */
+export function setNativeBackgroundStream(enabled: boolean, labels: BackgroundStreamLabels): void {
+  if (!isNativeEventTransport()) return
+  void NativeLiveEvents.setBackground({ enabled, ...labels }).catch(() => undefined)
+}
+
+/** Seeds the busy count shown by the service; afterwards the native side follows `session.status` events itself. */
+export function reportNativeBusySessions(streamID: string, sessionIDs: string[]): void {
+  if (!isNativeEventTransport()) return
+  void NativeLiveEvents.updateSessions({ id: streamID, busy: sessionIDs }).catch(() => undefined)
+}
+
+/**
+ * Reads the status and content type of the event stream through the native client, for diagnostics; `servers`, when
+ * given, are the certificate settings this one connection is checked against.
+ */
+export function probeNativeEventStream(options: {
+  url: string
+  headers: Record<string, string>
+  servers?: TrustedServer[]
+}): Promise<{ status: number; contentType: string }> {
+  return NativeLiveEvents.probe(options)
+}
+
+/**
+ * Android WebView cannot reliably keep a fetch ReadableStream open; use a direct native HttpURLConnection SSE client.
+ * Each subscription owns one named native stream so several servers can stay connected at once.
+ */
 export function createNativeOpenCodeEventSubscription(options: {
+  streamID?: string
   url: string
-  username: string
-  password: string
+  /** Authentication headers from `api.eventStream`; Accept and Last-Event-ID are added natively. */
+  headers: Record<string, string>
+  /** Enforced natively as the socket read timeout; 0 turns the watchdog off. */
+  idleTimeoutMs?: number
   onEvent: (event: Extract<ParsedOpenCodeEvent, { ok: true }>) => void
   onStatus?: (status: EventStreamStatus) => void
 }): { close(): void } {
+  const streamID = options.streamID ?? "default"
   let closed = false
   let handles: PluginListenerHandle[] = []
+  // The native client sends Last-Event-ID itself; gaps are checked here so both transports report them alike.
+  const eventIDs = createEventIDTracker((status) => options.onStatus?.(status))
   void (async () => {
     try {
-      const eventHandle = await NativeLiveEvents.addListener("event", ({ data }) => {
-        if (closed || !data) return
-        const event = parseOpenCodeEvent(data)
+      const eventHandle = await NativeLiveEvents.addListener("event", ({ stream, data, id }) => {
+        if (closed || !data || (stream && stream !== streamID)) return
+        eventIDs.see(id)
+        const event = parseOpenCodeEvent(data, "message", id)
         if (event.ok) options.onEvent(event)
         else options.onStatus?.({ type: "parse-error", data })
       })
-      const statusHandle = await NativeLiveEvents.addListener("status", (status) => {
-        if (!closed) options.onStatus?.(status)
+      const statusHandle = await NativeLiveEvents.addListener("status", ({ stream, ...status }) => {
+        if (!closed && (!stream || stream === streamID)) options.onStatus?.(status as EventStreamStatus)
       })
       handles = [eventHandle, statusHandle]
       if (closed) {
         await Promise.all(handles.map((handle) => handle.remove()))
         return
       }
-      await NativeLiveEvents.start({ url: options.url, username: options.username, password: options.password })
+      await NativeLiveEvents.start({
+        id: streamID,
+        url: options.url,
+        headers: options.headers,
+        idleTimeoutMs: Math.max(0, options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS)
+      })
     } catch (error) {
       if (!closed) options.onStatus?.({ type: "connection-error", error: errorMessage(error) })
     }
@@ -234,7 +374,7 @@ export function createNativeOpenCodeEventSubscription(options: {
     close() {
       if (closed) return
       closed = true
-      void NativeLiveEvents.stop().catch(() => undefined)
+      void NativeLiveEvents.stop({ id: streamID }).catch(() => undefined)
       void Promise.all(handles.map((handle) => handle.remove())).catch(() => undefined)
       options.onStatus?.({ type: "closed" })
     }
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict'
+import { OUTBOX_STORAGE_KEY, createOutboxItem, deliverableItems, loadOutbox, saveOutbox } from './outbox.ts'
+
+function memoryStorage(initial = {}) {
+  const values = new Map(Object.entries(initial))
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => values.set(key, String(value))
+  }
+}
+
+const base = { profileID: 'profile-a', sessionID: 'ses_1', directory: '/repo', attachments: [], agentID: 'build' }
+const first = { ...createOutboxItem({ ...base, text: 'first' }), createdAt: 1 }
+const command = { ...createOutboxItem({ ...base, text: '/review src', command: { name: 'review', arguments: 'src' } }), createdAt: 2 }
+const rejected = { ...createOutboxItem({ ...base, text: 'rejected' }), createdAt: 0, rejected: true, error: 'HTTP 400' }
+const otherServer = { ...createOutboxItem({ ...base, profileID: 'profile-b', text: 'elsewhere' }), createdAt: 3 }
+assert.notEqual(first.id, command.id)
+
+// The queue survives a restart; corrupt entries are dropped.
+const storage = memoryStorage()
+assert.equal(saveOutbox([command, first, rejected, otherServer], storage), true)
+assert.deepEqual(loadOutbox(storage).map((item) => item.text), ['/review src', 'first', 'rejected', 'elsewhere'])
+assert.deepEqual(loadOutbox(memoryStorage({ [OUTBOX_STORAGE_KEY]: '[{"id":1},null]' })), [])
+assert.deepEqual(loadOutbox(memoryStorage({ [OUTBOX_STORAGE_KEY]: '{' })), [])
+
+// A full storage keeps the in-memory queue instead of throwing.
+assert.equal(saveOutbox([first], { getItem: () => null, setItem: () => { throw new Error('QuotaExceededError') } }), false)
+
+// Reconnecting delivers one server's items in the order they were written, skipping rejected ones.
+assert.deepEqual(deliverableItems([command, first, rejected, otherServer], 'profile-a').map((item) => item.text), ['first', '/review src'])
+
+console.log('outbox tests passed')
@@ -0,0 +1,65 @@
+import type { ModelSelection, PromptAttachment } from "./types"
+
+export const OUTBOX_STORAGE_KEY = "opencode.remote.outbox"
+
+/** A prompt or slash command written while the server was unreachable, waiting to be delivered. */
+export type OutboxItem = {
+  id: string
+  profileID: string
+  sessionID: string
+  directory: string
+  /** What the user typed, shown in the pending bubble. */
+  text: string
+  /** Set for slash commands; prompts are sent as `text` plus attachments. */
+  command?: {
+    name: string
+    arguments: string
+  }
+  attachments: PromptAttachment[]
+  model?: ModelSelection
+  agentID?: string
+  createdAt: number
+  /** Last delivery error; items the server rejected stay here until retried or cancelled by hand. */
+  error?: string
+  rejected?: boolean
+}
+
+type StorageLike = Pick<Storage, "getItem" | "setItem">
+
+function isOutboxItem(value: unknown): value is OutboxItem {
+  if (!value || typeof value !== "object") return false
+  const item = value as Partial<OutboxItem>
+  return typeof item.id === "string" && typeof item.profileID === "string" && typeof item.sessionID === "string"
+    && typeof item.text === "string" && Array.isArray(item.attachments)
+}
+
+export function createOutboxItem(values: Omit<OutboxItem, "id" | "createdAt">): OutboxItem {
+  const createdAt = Date.now()
+  return { ...values, id: `outbox-${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, createdAt }
+}
+
+export function loadOutbox(storage: StorageLike = localStorage): OutboxItem[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(OUTBOX_STORAGE_KEY) ?? "[]") as unknown
+    return Array.isArray(parsed) ? parsed.filter(isOutboxItem) : []
+  } catch {
+    return []
+  }
+}
+
+/** Returns false when storage is full (large attachments); the queue then only lives until the app closes. */
+export function saveOutbox(items: OutboxItem[], storage: StorageLike = localStorage): boolean {
+  try {
+    storage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(items))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Items a server should receive on reconnect, oldest first; rejected ones wait for a manual retry. */
+export function deliverableItems(items: OutboxItem[], profileID: string): OutboxItem[] {
+  return items
+    .filter((item) => item.profileID === profileID && !item.rejected)
+    .sort((a, b) => a.createdAt - b.createdAt)
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict'
+import { applyPermissionEvent, toPermissionRequest } from './permissions.ts'
+
+// Current OpenCode shape (permission.asked) and the older permission.updated shape.
+const asked = {
+  id: 'per_1',
+  sessionID: 'ses_1',
+  permission: 'bash',
+  patterns: ['git push *'],
+  metadata: { command: 'git push origin main' },
+  tool: { messageID: 'msg_1', callID: 'call_1' }
+}
+const legacy = {
+  id: 'per_2',
+  sessionID: 'ses_2',
+  type: 'edit',
+  pattern: 'src/App.tsx',
+  title: 'Edit src/App.tsx',
+  messageID: 'msg_2',
+  callID: 'call_2',
+  time: { created: 42 }
+}
+
+assert.deepEqual(toPermissionRequest(asked), {
+  id: 'per_1',
+  sessionID: 'ses_1',
+  permission: 'bash',
+  patterns: ['git push *'],
+  title: undefined,
+  metadata: { command: 'git push origin main' },
+  tool: { messageID: 'msg_1', callID: 'call_1' },
+  created: undefined
+})
+assert.deepEqual(toPermissionRequest(legacy), {
+  id: 'per_2',
+  sessionID: 'ses_2',
+  permission: 'edit',
+  patterns: ['src/App.tsx'],
+  title: 'Edit src/App.tsx',
+  metadata: undefined,
+  tool: { messageID: 'msg_2', callID: 'call_2' },
+  created: 42
+})
+assert.equal(toPermissionRequest({ id: 'per_3' }), null)
+
+let pending = applyPermissionEvent([], { type: 'permission.asked', properties: asked }, 'work')
+assert.deepEqual(pending.map((item) => [item.id, item.profileID]), [['per_1', 'work']])
+pending = applyPermissionEvent(pending, { type: 'permission.updated', properties: legacy }, 'work')
+pending = applyPermissionEvent(pending, { type: 'permission.asked', properties: asked }, 'build')
+assert.equal(pending.length, 3, 'the same id on another server is a separate request')
+pending = applyPermissionEvent(pending, { type: 'permission.asked', properties: { ...asked, patterns: ['git *'] } }, 'work')
+assert.equal(pending.length, 3, 'repeated events replace the pending request')
+assert.deepEqual(pending[0].patterns, ['git *'])
+
+pending = applyPermissionEvent(pending, { type: 'permission.replied', properties: { sessionID: 'ses_1', requestID: 'per_1', reply: 'once' } }, 'work')
+pending = applyPermissionEvent(pending, { type: 'permission.replied', properties: { sessionID: 'ses_2', permissionID: 'per_2', response: 'reject' } }, 'work')
+assert.deepEqual(pending.map((item) => [item.id, item.profileID]), [['per_1', 'build']])
+assert.equal(applyPermissionEvent(pending, { type: 'session.updated', properties: {} }, 'work'), null)
+
+console.log('permission tests passed')
@@ -0,0 +1,64 @@
+import type { PermissionRequest } from "./types"
+
+type EventPayload = Record<string, unknown>
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value)
+}
+
+function stringList(value: unknown): string[] {
+  if (typeof value === "string") return value ? [value] : []
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && Boolean(item)) : []
+}
+
+/**
+ * Normalizes both permission shapes OpenCode has shipped: `permission.asked`
+ * ({ permission, patterns }) and the older `permission.updated` ({ type, pattern }).
+ */
+export function toPermissionRequest(value: unknown): PermissionRequest | null {
+  if (!isRecord(value)) return null
+  const id = typeof value.id === "string" ? value.id : null
+  const sessionID = typeof value.sessionID === "string" ? value.sessionID : null
+  const permission = typeof value.permission === "string" ? value.permission : typeof value.type === "string" ? value.type : null
+  if (!id || !sessionID || !permission) return null
+  const tool = isRecord(value.tool) && typeof value.tool.messageID === "string" && typeof value.tool.callID === "string"
+    ? { messageID: value.tool.messageID, callID: value.tool.callID }
+    : typeof value.messageID === "string" && typeof value.callID === "string"
+      ? { messageID: value.messageID, callID: value.callID }
+      : undefined
+  const time = isRecord(value.time) ? value.time : {}
+  return {
+    id,
+    sessionID,
+    permission,
+    patterns: stringList(value.patterns ?? value.pattern),
+    title: typeof value.title === "string" ? value.title : undefined,
+    metadata: isRecord(value.metadata) ? value.metadata : undefined,
+    tool,
+    created: typeof time.created === "number" ? time.created : undefined
+  }
+}
+
+/** Folds one `permission.*` event into the pending list; returns null for unrelated events. */
+export function applyPermissionEvent(pending: PermissionRequest[], payload: EventPayload, profileID?: string): PermissionRequest[] | null {
+  const properties = isRecord(payload.properties) ? payload.properties : {}
+  switch (payload.type) {
+    case "permission.asked":
+    case "permission.updated": {
+      const request = toPermissionRequest(properties)
+      if (!request) return null
+      const tagged = { ...request, profileID }
+      const exists = pending.some((item) => item.id === request.id && item.profileID === profileID)
+      return exists
+        ? pending.map((item) => (item.id === request.id && item.profileID === profileID ? tagged : item))
+        : [...pending, tagged]
+    }
+    case "permission.replied": {
+      const requestID = properties.requestID ?? properties.permissionID
+      if (typeof requestID !== "string") return null
+      return pending.filter((item) => !(item.id === requestID && item.profileID === profileID))
+    }
+    default:
+      return null
+  }
+}
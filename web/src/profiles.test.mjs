@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict'
+import {
+  LEGACY_SERVER_STORAGE_KEY,
+  PROFILES_STORAGE_KEY,
+  createProfile,
+  eventStreamTargets,
+  findProfile,
+  loadProfileStore,
+  normalizeBasePath,
+  pinnedDirectories,
+  profileLabel,
+  removeProfile,
+  serverURL,
+  upsertProfile,
+  validPort
+} from './profiles.ts'
+
+function memoryStorage(initial = {}) {
+  const values = new Map(Object.entries(initial))
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => values.set(key, value),
+    removeItem: (key) => values.delete(key),
+    values
+  }
+}
+
+assert.deepEqual(loadProfileStore(memoryStorage()), { profiles: [], defaultID: null })
+
+// The single-server blob from earlier releases becomes the default profile exactly once.
+const legacy = memoryStorage({
+  [LEGACY_SERVER_STORAGE_KEY]: JSON.stringify({ host: '192.168.1.20', port: 4096, username: 'opencode', password: 'secret' })
+})
+const migrated = loadProfileStore(legacy)
+assert.equal(migrated.profiles.length, 1)
+assert.equal(migrated.defaultID, migrated.profiles[0].id)
+assert.equal(migrated.profiles[0].host, '192.168.1.20')
+assert.equal(migrated.profiles[0].password, 'secret')
+assert.equal(legacy.values.has(LEGACY_SERVER_STORAGE_KEY), false)
+assert.deepEqual(loadProfileStore(legacy), migrated)
+
+assert.deepEqual(loadProfileStore(memoryStorage({ [PROFILES_STORAGE_KEY]: 'not json' })), { profiles: [], defaultID: null })
+
+const workstation = createProfile({ name: 'Workstation', host: '10.0.0.2' })
+const buildBox = createProfile({ host: 'build.lan', port: 4097 })
+assert.notEqual(workstation.id, buildBox.id)
+assert.equal(profileLabel(workstation), 'Workstation')
+assert.equal(profileLabel(buildBox), 'build.lan:4097')
+
+// A server behind a reverse proxy: no port of its own, mounted under a path.
+const proxied = createProfile({ host: 'https://example.com/', port: 0, basePath: ' opencode/ ' })
+assert.equal(normalizeBasePath('/opencode//remote/'), '/opencode/remote')
+assert.equal(normalizeBasePath(' / '), '')
+assert.equal(serverURL(proxied), 'https://example.com/opencode')
+assert.equal(serverURL(buildBox), 'http://build.lan:4097')
+assert.equal(profileLabel(proxied), 'https://example.com/opencode')
+assert.equal(validPort(0), true, 'port 0 leaves the port out of the URL')
+assert.equal(validPort(65_536), false)
+
+let store = upsertProfile({ profiles: [], defaultID: null }, workstation)
+assert.equal(store.defaultID, workstation.id, 'first saved profile becomes the default')
+store = upsertProfile(store, buildBox)
+assert.equal(store.defaultID, workstation.id, 'later profiles do not steal the default')
+store = upsertProfile(store, { ...buildBox, name: 'Build box' })
+assert.equal(store.profiles.length, 2)
+assert.equal(findProfile(store, buildBox.id)?.name, 'Build box')
+
+store = removeProfile(store, workstation.id)
+assert.deepEqual(store.profiles.map((profile) => profile.id), [buildBox.id])
+assert.equal(store.defaultID, buildBox.id, 'deleting the default promotes the next profile')
+
+// Profiles without a host are dropped and a dangling default falls back to the first profile.
+const stored = memoryStorage({
+  [PROFILES_STORAGE_KEY]: JSON.stringify({ profiles: [{ id: 'empty', host: '' }, workstation], defaultID: 'missing' })
+})
+assert.deepEqual(loadProfileStore(stored), { profiles: [workstation], defaultID: workstation.id })
+
+// Without pinned projects a server has one global stream; otherwise one project stream per directory.
+assert.deepEqual(eventStreamTargets(workstation), [{ streamID: workstation.id }])
+const pinned = { ...workstation, pinnedDirectories: [' /home/dev/app ', '', '/home/dev/api', '/home/dev/app'] }
+assert.deepEqual(pinnedDirectories(pinned), ['/home/dev/app', '/home/dev/api'])
+assert.deepEqual(eventStreamTargets(pinned), [
+  { streamID: `${workstation.id}:/home/dev/app`, directory: '/home/dev/app' },
+  { streamID: `${workstation.id}:/home/dev/api`, directory: '/home/dev/api' }
+])
+const storedPins = memoryStorage({
+  [PROFILES_STORAGE_KEY]: JSON.stringify({ profiles: [{ ...workstation, pinnedDirectories: ['/srv/a', 7, ' '] }], defaultID: workstation.id })
+})
+assert.deepEqual(loadProfileStore(storedPins).profiles[0].pinnedDirectories, ['/srv/a'], 'stored pins are cleaned on load')
+
+console.log('profile tests passed')
@@ -0,0 +1,130 @@
+import type { ServerConfig, ServerProfile } from "./types"
+
+export const PROFILES_STORAGE_KEY = "opencode.remote.profiles"
+/** Single-server blob written before profiles existed; migrated into the first profile. */
+export const LEGACY_SERVER_STORAGE_KEY = "opencode.remote.server"
+
+export const defaultServerConfig: ServerConfig = {
+  host: "",
+  port: 4096,
+  username: "opencode",
+  password: "",
+  authMode: "basic"
+}
+
+export type ProfileStore = {
+  profiles: ServerProfile[]
+  defaultID: string | null
+}
+
+type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">
+
+export function createProfileID(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createProfile(values: Partial<ServerProfile> = {}): ServerProfile {
+  return { ...defaultServerConfig, name: "", ...values, id: values.id || createProfileID() }
+}
+
+/** 0 is valid too: it leaves the port out of the URL. */
+export function validPort(port: number): boolean {
+  return Number.isInteger(port) && port >= 0 && port <= 65_535
+}
+
+/** `opencode/`, `/opencode` and ` /opencode/ ` all become `/opencode`; blank becomes "". */
+export function normalizeBasePath(path: string | undefined): string {
+  const segments = (path ?? "").split("/").map((segment) => segment.trim()).filter(Boolean)
+  return segments.length > 0 ? `/${segments.join("/")}` : ""
+}
+
+/** Root URL of the server without a trailing slash: an optional http(s) scheme in the host field, then the port and base path fields. */
+export function serverURL(config: ServerConfig): string {
+  const host = config.host.trim()
+  const schemeMatch = host.match(/^(https?):\/\//)
+  const scheme = schemeMatch ? schemeMatch[1] : "http"
+  const cleanHost = (schemeMatch ? host.slice(schemeMatch[0].length) : host).replace(/\/+$/, "")
+  return `${scheme}://${cleanHost}${config.port > 0 ? `:${config.port}` : ""}${normalizeBasePath(config.basePath)}`
+}
+
+export function profileAddress(config: ServerConfig): string {
+  return `${config.host.trim().replace(/\/+$/, "")}${config.port > 0 ? `:${config.port}` : ""}${normalizeBasePath(config.basePath)}`
+}
+
+export function profileLabel(profile: ServerProfile): string {
+  return profile.name.trim() || profileAddress(profile)
+}
+
+/** Pinned directories as entered, trimmed and without blanks or repeats. */
+export function pinnedDirectories(profile: Pick<ServerProfile, "pinnedDirectories">): string[] {
+  const directories = Array.isArray(profile.pinnedDirectories) ? profile.pinnedDirectories : []
+  return [...new Set(directories.filter((directory) => typeof directory === "string").map((directory) => directory.trim()).filter(Boolean))]
+}
+
+/** One live event stream of a server: the global one, or a project-scoped one per pinned directory. */
+export type EventStreamTarget = {
+  streamID: string
+  directory?: string
+}
+
+export function eventStreamTargets(profile: ServerProfile): EventStreamTarget[] {
+  const directories = pinnedDirectories(profile)
+  if (directories.length === 0) return [{ streamID: profile.id }]
+  return directories.map((directory) => ({ streamID: `${profile.id}:${directory}`, directory }))
+}
+
+function toProfile(value: unknown): ServerProfile | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null
+  const profile = createProfile(value as Partial<ServerProfile>)
+  if (!profile.host.trim()) return null
+  return profile.pinnedDirectories === undefined ? profile : { ...profile, pinnedDirectories: pinnedDirectories(profile) }
+}
+
+export function loadProfileStore(storage: StorageLike = localStorage): ProfileStore {
+  const saved = storage.getItem(PROFILES_STORAGE_KEY)
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved) as Partial<ProfileStore>
+      const profiles = (Array.isArray(parsed.profiles) ? parsed.profiles : []).map(toProfile).filter((profile) => profile !== null)
+      const defaultID = profiles.some((profile) => profile.id === parsed.defaultID) ? parsed.defaultID ?? null : profiles[0]?.id ?? null
+      return { profiles, defaultID }
+    } catch {
+      return { profiles: [], defaultID: null }
+    }
+  }
+
+  const legacy = storage.getItem(LEGACY_SERVER_STORAGE_KEY)
+  if (!legacy) return { profiles: [], defaultID: null }
+  try {
+    const profile = toProfile(JSON.parse(legacy))
+    if (!profile) return { profiles: [], defaultID: null }
+    const store = { profiles: [profile], defaultID: profile.id }
+    saveProfileStore(store, storage)
+    storage.removeItem(LEGACY_SERVER_STORAGE_KEY)
+    return store
+  } catch {
+    return { profiles: [], defaultID: null }
+  }
+}
+
+export function saveProfileStore(store: ProfileStore, storage: StorageLike = localStorage) {
+  storage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(store))
+}
+
+export function upsertProfile(store: ProfileStore, profile: ServerProfile): ProfileStore {
+  const exists = store.profiles.some((item) => item.id === profile.id)
+  const profiles = exists
+    ? store.profiles.map((item) => (item.id === profile.id ? profile : item))
+    : [...store.profiles, profile]
+  return { profiles, defaultID: store.defaultID ?? profile.id }
+}
+
+export function removeProfile(store: ProfileStore, id: string): ProfileStore {
+  const profiles = store.profiles.filter((profile) => profile.id !== id)
+  const defaultID = store.defaultID === id ? profiles[0]?.id ?? null : store.defaultID
+  return { profiles, defaultID }
+}
+
+export function findProfile(store: ProfileStore, id: string | null): ServerProfile | null {
+  return store.profiles.find((profile) => profile.id === id) ?? null
+}
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict'
+import { filesRevertedFrom, messagesBeforeRevert, revertedMessageCount } from './revert.ts'
+
+const message = (id, role, diffs) => ({
+  info: { id, role, sessionID: 'ses_1', time: { created: 1 }, ...(diffs ? { summary: { diffs } } : {}) },
+  parts: []
+})
+const messages = [
+  message('msg_1', 'user', [{ file: 'a.ts', additions: 2, deletions: 1, before: 'a0', after: 'a1' }]),
+  message('msg_2', 'assistant'),
+  message('msg_3', 'user', [
+    { file: 'a.ts', additions: 3, deletions: 0, before: 'a1', after: 'a2' },
+    { file: 'b.ts', additions: 4, deletions: 0, before: '', after: 'b1', status: 'added' }
+  ]),
+  message('msg_4', 'assistant')
+]
+
+// Messages from the revert point on are hidden until the session is unreverted.
+assert.deepEqual(messagesBeforeRevert(messages, { messageID: 'msg_3' }).map((item) => item.info.id), ['msg_1', 'msg_2'])
+assert.equal(messagesBeforeRevert(messages, undefined), messages)
+assert.equal(messagesBeforeRevert(messages, { messageID: 'msg_unknown' }), messages, 'an unloaded revert point keeps the transcript')
+assert.equal(revertedMessageCount(messages, { messageID: 'msg_3' }), 2)
+
+// Per-turn diffs are merged per file: counts add up, before comes from the first turn and after from the last.
+assert.deepEqual(filesRevertedFrom(messages, 'msg_1'), [
+  { file: 'a.ts', additions: 5, deletions: 1, before: 'a0', after: 'a2', status: undefined },
+  { file: 'b.ts', additions: 4, deletions: 0, before: '', after: 'b1', status: 'added' }
+])
+assert.deepEqual(filesRevertedFrom(messages, 'msg_3').map((file) => file.file), ['a.ts', 'b.ts'])
+assert.deepEqual(filesRevertedFrom(messages, 'msg_4'), [])
+assert.deepEqual(filesRevertedFrom(messages, 'msg_missing'), [])
+
+console.log('revert tests passed')
@@ -0,0 +1,38 @@
+import type { DiffFile, MessageEnvelope, SessionRevert } from "./types"
+
+/** Messages still in effect: everything before the revert point, or all of them when nothing is reverted. */
+export function messagesBeforeRevert(messages: MessageEnvelope[], revert?: SessionRevert): MessageEnvelope[] {
+  if (!revert) return messages
+  const index = messages.findIndex((message) => message.info.id === revert.messageID)
+  return index === -1 ? messages : messages.slice(0, index)
+}
+
+/** Number of loaded messages hidden by the revert, shown next to the unrevert action. */
+export function revertedMessageCount(messages: MessageEnvelope[], revert?: SessionRevert): number {
+  return messages.length - messagesBeforeRevert(messages, revert).length
+}
+
+/**
+ * Files a revert from `messageID` would roll back, merged from the per-turn diff summaries of that message
+ * and every later user message. The first turn supplies `before`, the last one `after`.
+ */
+export function filesRevertedFrom(messages: MessageEnvelope[], messageID: string): DiffFile[] {
+  const index = messages.findIndex((message) => message.info.id === messageID)
+  if (index === -1) return []
+  const files = new Map<string, DiffFile>()
+  for (const message of messages.slice(index)) {
+    for (const diff of message.info.summary?.diffs ?? []) {
+      const current = files.get(diff.file)
+      files.set(diff.file, current
+        ? {
+            ...current,
+            additions: current.additions + diff.additions,
+            deletions: current.deletions + diff.deletions,
+            after: diff.after,
+            status: current.status === "added" && diff.status !== "deleted" ? "added" : diff.status
+          }
+        : { ...diff })
+    }
+  }
+  return [...files.values()]
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict'
+import { applySessionListChange, eventSessionID, sessionListChange, toSessionView } from './session-list.ts'
+
+const session = (id, updated, title = id) => ({ id, title, directory: '/repo', time: { created: 1, updated } })
+const view = (id, updated, status = 'idle', profileID = 'srv_a') => ({ ...toSessionView(session(id, updated)), status, profileID })
+const event = (type, properties) => ({ type, properties })
+const apply = (sessions, payload, profileID = 'srv_a') => applySessionListChange(sessions, sessionListChange(payload), profileID)
+
+const sessions = [view('ses_2', 20, 'busy'), view('ses_1', 10)]
+
+// Created sessions are inserted by activity; updates keep status and activity but take the new fields.
+assert.deepEqual(apply(sessions, event('session.created', { info: session('ses_3', 30) })).map((item) => item.id), ['ses_3', 'ses_2', 'ses_1'])
+const renamed = apply(sessions, event('session.updated', { info: session('ses_2', 99, 'Renamed') }))
+assert.equal(renamed[0].title, 'Renamed')
+assert.equal(renamed[0].status, 'busy')
+assert.equal(renamed[0].updated, 20)
+
+// Deletes and status changes only touch the session of the same server.
+assert.deepEqual(apply(sessions, event('session.deleted', { info: session('ses_2', 20) })).map((item) => item.id), ['ses_1'])
+assert.equal(apply(sessions, event('session.deleted', { info: session('ses_2', 20) }), 'srv_b'), sessions)
+assert.equal(apply(sessions, event('session.status', { sessionID: 'ses_1', status: { type: 'busy' } }))[1].status, 'busy')
+assert.equal(apply(sessions, event('session.idle', { sessionID: 'ses_2' }))[0].status, 'idle')
+assert.equal(apply(sessions, event('session.status', { sessionID: 'ses_unknown', status: { type: 'busy' } })), sessions)
+
+// Message updates move a session up by its latest activity, never down.
+const bumped = apply(sessions, event('message.updated', { info: { id: 'msg_1', sessionID: 'ses_1', time: { created: 25, completed: 40 } } }))
+assert.deepEqual(bumped.map((item) => [item.id, item.updated]), [['ses_1', 40], ['ses_2', 20]])
+assert.equal(apply(sessions, event('message.updated', { info: { id: 'msg_0', sessionID: 'ses_2', time: { created: 5 } } })), sessions)
+
+// Events that do not touch the list leave it to the caller.
+assert.equal(sessionListChange(event('session.diff', { sessionID: 'ses_1', diff: [] })), null)
+assert.equal(sessionListChange(event('todo.updated', { sessionID: 'ses_1', todos: [] })), null)
+
+assert.equal(eventSessionID(event('todo.updated', { sessionID: 'ses_1', todos: [] })), 'ses_1')
+assert.equal(eventSessionID(event('session.updated', { info: session('ses_2', 1) })), 'ses_2')
+assert.equal(eventSessionID(event('message.updated', { info: { id: 'msg_1', sessionID: 'ses_3' } })), 'ses_3')
+assert.equal(eventSessionID(event('file.edited', { file: 'a.ts' })), null)
+
+console.log('session list tests passed')
@@ -0,0 +1,97 @@
+import type { OpenCodeEvent } from "./opencode-event-model"
+import type { MessageEnvelope, Session, SessionStatus, SessionView } from "./types"
+
+export function messageActivityTime(message: MessageEnvelope): number {
+  return Math.max(message.info.time.created, message.info.time.completed ?? 0)
+}
+
+export function toSessionView(session: Session, status?: SessionStatus, activityTime = session.time.updated): SessionView {
+  return {
+    id: session.id,
+    title: session.title,
+    directory: session.directory,
+    updated: activityTime,
+    status: status?.type ?? "idle",
+    files: session.summary?.files ?? 0,
+    additions: session.summary?.additions ?? 0,
+    deletions: session.summary?.deletions ?? 0,
+    model: session.model ? { providerID: session.model.providerID, modelID: session.model.id, variant: session.model.variant } : undefined,
+    revert: session.revert
+  }
+}
+
+/** What a live event changes in the session list of one server. */
+export type SessionListChange =
+  | { type: "upsert"; session: Session }
+  | { type: "remove"; sessionID: string }
+  | { type: "status"; sessionID: string; status: string }
+  | { type: "activity"; sessionID: string; time: number }
+
+/** Session an event is about, wherever that event type keeps it. */
+export function eventSessionID(event: OpenCodeEvent): string | null {
+  switch (event.type) {
+    case "session.created":
+    case "session.updated":
+    case "session.deleted":
+      return event.properties.info.id
+    case "message.updated":
+      return event.properties.info.sessionID
+    case "message.part.updated":
+      return event.properties.part.sessionID
+    default:
+      return "sessionID" in event.properties && typeof event.properties.sessionID === "string" ? event.properties.sessionID : null
+  }
+}
+
+/** Reads the session list change an event describes, or null for events that do not touch the list. */
+export function sessionListChange(event: OpenCodeEvent): SessionListChange | null {
+  switch (event.type) {
+    case "session.created":
+    case "session.updated":
+      return { type: "upsert", session: event.properties.info }
+    case "session.deleted":
+      return { type: "remove", sessionID: event.properties.info.id }
+    case "session.status":
+      return { type: "status", sessionID: event.properties.sessionID, status: event.properties.status.type }
+    case "session.idle":
+      return { type: "status", sessionID: event.properties.sessionID, status: "idle" }
+    case "message.updated": {
+      const { sessionID, time } = event.properties.info
+      return { type: "activity", sessionID, time: Math.max(time.created, time.completed ?? 0) }
+    }
+    default:
+      return null
+  }
+}
+
+/** Applies a change to the sessions of `profileID`, keeping the list sorted by latest activity. */
+export function applySessionListChange(sessions: SessionView[], change: SessionListChange, profileID: string): SessionView[] {
+  const sessionID = change.type === "upsert" ? change.session.id : change.sessionID
+  const index = sessions.findIndex((session) => session.id === sessionID && session.profileID === profileID)
+  const current = index === -1 ? null : sessions[index]
+  let next: SessionView | null
+  switch (change.type) {
+    case "upsert":
+      // Activity comes from message events, so an update (a rename, a new summary) does not reorder the list.
+      next = {
+        ...toSessionView(change.session, undefined, current?.updated ?? change.session.time.updated),
+        status: current?.status ?? "idle",
+        profileID
+      }
+      break
+    case "remove":
+      next = null
+      break
+    case "status":
+      if (!current || current.status === change.status) return sessions
+      next = { ...current, status: change.status }
+      break
+    case "activity":
+      if (!current || current.updated >= change.time) return sessions
+      next = { ...current, updated: change.time }
+      break
+  }
+  if (!next && !current) return sessions
+  const rest = current ? sessions.filter((_, position) => position !== index) : sessions
+  return next ? [...rest, next].sort((a, b) => b.updated - a.updated) : rest
+}
@@ -3,6 +3,7 @@ import { readFileSync } from 'node:fs'
 
 const app = readFileSync(new URL('./App.tsx', import.meta.url), 'utf8')
 const i18n = readFileSync(new URL('./i18n.ts', import.meta.url), 'utf8')
+const main = readFileSync(new URL('./main.tsx', import.meta.url), 'utf8')
 
 const testConnection = app.match(/async function testConnection[\s\S]*?async function refreshSessions/)
 assert.ok(testConnection, 'testConnection function should be present')
@@ -21,9 +22,15 @@ assert.ok(app.includes('function canTestConfig'), 'Settings should have a centra
 assert.ok(app.includes('disabled={testingConnection || !canTestDraft || testAlreadyPassedForDraft}'), 'Test button should be disabled when fields are missing, testing is active, or the unchanged draft already passed')
 assert.ok(app.includes('title={!canTestDraft ? t(\'settings.testNeedsFields\')'), 'Disabled Test button should explain missing required fields')
 assert.ok(app.includes('testAlreadyPassedForDraft ? t(\'settings.testOk\')'), 'Passed unchanged test should be shown as Test OK')
-assert.ok(app.includes('disabled={testingConnection || !hasDraftChanges}'), 'Save should be disabled when there are no draft changes')
+assert.ok(app.includes('disabled={testingConnection || !hasDraftChanges || credentialState === "locked"}'), 'Save should be disabled when there are no draft changes or saved passwords are still locked')
 assert.ok(app.includes('connection-help'), 'Settings should explain ready-to-test and unsaved/saved state')
 assert.ok(i18n.includes("'settings.testNeedsFields'"), 'Settings must translate the disabled test reason')
 assert.ok(i18n.includes("'settings.unsavedChanges'"), 'Settings must translate unsaved-change guidance')
+assert.ok(main.includes('prepareCredentials(loadProfileStore(), saveProfileStore)'), 'Settings should load named server profiles, with passwords from the credential store, instead of a single saved server')
+assert.ok(app.includes('className="profile-switcher"'), 'Top navigation should offer a server switcher when several profiles exist')
+assert.ok(app.includes('subscriptions.forEach((subscription) => subscription.close())\n    }\n    // The active profile is read through activeProfileRef, so switching it in the all-servers view keeps every stream open.\n  }, [sessionServersKey, idleTimeoutSeconds])'), 'Event subscriptions should follow the set of streamed servers, not the active profile')
+assert.ok(app.includes('if (config.id !== activeProfileRef.current) return'), 'Responses from the previous server must not leak into the newly selected profile')
+assert.ok(i18n.includes("'settings.profileDeleteTitle'"), 'Profile deletion confirmation must be translated')
+assert.ok(app.indexOf('htmlFor="language"') < app.indexOf('className="profile-form-title"'), 'App-wide preferences must sit outside the per-profile form')
 
 console.log('settings regression tests passed')
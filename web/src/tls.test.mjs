@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict'
+import {
+  certificateFileToPem,
+  certificatePins,
+  httpsEndpoint,
+  normalizeFingerprint,
+  pemCertificates,
+  trustedServers
+} from './tls.ts'
+import { serverURL } from './profiles.ts'
+
+const hex = 'ab'.repeat(32)
+const fingerprint = Array(32).fill('AB').join(':')
+assert.equal(normalizeFingerprint(hex), fingerprint)
+assert.equal(normalizeFingerprint(`SHA256 Fingerprint=${fingerprint}`), fingerprint, 'openssl output can be pasted as is')
+assert.equal(normalizeFingerprint(`sha256/${hex}`), fingerprint)
+assert.equal(normalizeFingerprint(` ${fingerprint.replace(/:/g, ' ')} `), fingerprint)
+assert.equal(normalizeFingerprint('ab:cd'), null, 'a truncated fingerprint is rejected')
+assert.deepEqual(certificatePins({ certificatePins: [hex, fingerprint, 'nope', ''] }), [fingerprint], 'pins are normalized and deduplicated')
+assert.deepEqual(certificatePins({}), [])
+
+// Any bytes stand in for a DER certificate here; only the PEM framing is under test.
+const der = Buffer.from('not really a certificate, but DER bytes all the same '.repeat(3))
+const pem = `-----BEGIN CERTIFICATE-----\n${der.toString('base64')}\n-----END CERTIFICATE-----`
+
+const bundle = `subject=CN=home\n${pem}\n\n${pem.replace(/\n/g, '\r\n')}`
+const blocks = pemCertificates(bundle)
+assert.equal(blocks.length, 2, 'every block of a bundle is kept, text around them is dropped')
+assert.ok(blocks[0].split('\n').slice(1, -1).every((line) => line.length <= 64))
+assert.equal(certificateFileToPem(new Uint8Array(der)), blocks[0], 'a DER file is wrapped as PEM')
+assert.equal(certificateFileToPem(new TextEncoder().encode(bundle)), blocks.join('\n'))
+assert.equal(certificateFileToPem(new TextEncoder().encode('')), '')
+
+assert.equal(httpsEndpoint(serverURL({ host: '192.168.1.20', port: 4096 })), null, 'plain http hosts have no TLS settings')
+assert.deepEqual(httpsEndpoint(serverURL({ host: 'https://Home.Example/', port: 8443 })), { host: 'home.example', port: 8443 })
+assert.deepEqual(httpsEndpoint(serverURL({ host: 'https://[fd00::2]', port: 443 })), { host: 'fd00::2', port: 443 })
+assert.deepEqual(httpsEndpoint(serverURL({ host: 'https://example.com', port: 0, basePath: '/opencode' })), { host: 'example.com', port: 443 }, 'no port means the https default')
+
+const base = { username: '', password: '', port: 8443 }
+assert.deepEqual(trustedServers([
+  { ...base, host: 'https://home.example', certificatePins: [hex] },
+  { ...base, host: 'https://HOME.example', certificates: pem },
+  { ...base, host: 'https://other.example' },
+  { ...base, host: 'home.example', certificatePins: [hex] }
+], serverURL), [{ host: 'home.example', port: 8443, pins: [fingerprint], certificates: [blocks[0]] }], 'profiles for the same server are merged; untouched and http ones are left out')
+
+console.log('tls tests passed')
@@ -0,0 +1,146 @@
+import { Capacitor, registerPlugin } from "@capacitor/core"
+import type { ServerConfig } from "./types"
+
+/** Trust settings of one host and port, merged over every profile that points there. */
+export type TrustedServer = {
+  host: string
+  port: number
+  /** SHA-256 certificate fingerprints, uppercase hex separated by colons. */
+  pins: string[]
+  /** PEM certificates; a self-signed leaf works as its own CA. */
+  certificates: string[]
+}
+
+/** The certificate a server presented, read without trusting it. */
+export type CertificateInfo = {
+  host: string
+  port: number
+  fingerprint: string
+  subject: string
+  issuer: string
+  notBefore: number
+  notAfter: number
+  /** Whether the trust settings it was checked against, the saved ones unless others were given, accept it. */
+  trusted: boolean
+}
+
+/** A response read with trust settings of its own; `data` is parsed when the server sent JSON. */
+export type TrustedResponse = {
+  status: number
+  headers: Record<string, string>
+  data: unknown
+}
+
+type ServerTrustPlugin = {
+  configure(options: { servers: TrustedServer[] }): Promise<void>
+  inspect(options: { url: string; servers?: TrustedServer[] }): Promise<CertificateInfo>
+  request(options: { url: string; headers: Record<string, string>; servers: TrustedServer[]; timeoutMs?: number }): Promise<{
+    status: number
+    headers: Record<string, string>
+    data: string
+  }>
+}
+
+const ServerTrust = registerPlugin<ServerTrustPlugin>("ServerTrust")
+
+const PEM_BLOCK = /-----BEGIN CERTIFICATE-----([\s\S]*?)-----END CERTIFICATE-----/g
+
+/** Only the Android client controls TLS; browsers keep their own certificate store. */
+export function customTrustSupported(): boolean {
+  return Capacitor.isNativePlatform()
+}
+
+/**
+ * Accepts a SHA-256 fingerprint with or without colons or spaces, also pasted straight from openssl
+ * (`SHA256 Fingerprint=AB:CD:…`) or with a `sha256/` prefix; null when it is not one.
+ */
+export function normalizeFingerprint(text: string): string | null {
+  const hex = text.trim().replace(/^[^=]*=/, "").replace(/^sha-?256[:/\s]*/i, "").replace(/[\s:]/g, "")
+  if (!/^[0-9a-f]{64}$/i.test(hex)) return null
+  return hex.toUpperCase().match(/../g)!.join(":")
+}
+
+export function certificatePins(config: Pick<ServerConfig, "certificatePins">): string[] {
+  const pins = Array.isArray(config.certificatePins) ? config.certificatePins : []
+  return [...new Set(pins.map((pin) => (typeof pin === "string" ? normalizeFingerprint(pin) : null)).filter((pin) => pin !== null))]
+}
+
+/** Every PEM certificate block in `text`, normalized to 64-column base64 lines. */
+export function pemCertificates(text: string): string[] {
+  return [...text.matchAll(PEM_BLOCK)]
+    .map((match) => match[1].replace(/\s/g, ""))
+    .filter(Boolean)
+    .map((body) => `-----BEGIN CERTIFICATE-----\n${body.match(/.{1,64}/g)!.join("\n")}\n-----END CERTIFICATE-----`)
+}
+
+/** Wraps a DER certificate file (.cer/.der) as PEM; PEM text is passed through unchanged. */
+export function certificateFileToPem(bytes: Uint8Array): string {
+  const text = new TextDecoder().decode(bytes)
+  if (text.includes("-----BEGIN CERTIFICATE-----")) return pemCertificates(text).join("\n")
+  return pemCertificates(`-----BEGIN CERTIFICATE-----${btoa(String.fromCharCode(...bytes))}-----END CERTIFICATE-----`).join("\n")
+}
+
+/** Host and port the native client connects to for a server URL from `serverURL()`; null for plain http. */
+export function httpsEndpoint(serverURL: string): { host: string; port: number } | null {
+  try {
+    const url = new URL(serverURL)
+    if (url.protocol !== "https:") return null
+    return { host: url.hostname.replace(/^\[|\]$/g, "").toLowerCase(), port: Number(url.port) || 443 }
+  } catch {
+    return null
+  }
+}
+
+/** `serverURL` is `profiles.serverURL`, passed in so this module builds server URLs the same way the API client does. */
+export function trustedServers(configs: ServerConfig[], serverURL: (config: ServerConfig) => string): TrustedServer[] {
+  const servers = new Map<string, TrustedServer>()
+  for (const config of configs) {
+    const endpoint = httpsEndpoint(serverURL(config))
+    const pins = certificatePins(config)
+    const certificates = pemCertificates(config.certificates ?? "")
+    if (!endpoint || (pins.length === 0 && certificates.length === 0)) continue
+    const key = `${endpoint.host}:${endpoint.port}`
+    const current = servers.get(key) ?? { ...endpoint, pins: [], certificates: [] }
+    servers.set(key, {
+      ...current,
+      pins: [...new Set([...current.pins, ...pins])],
+      certificates: [...new Set([...current.certificates, ...certificates])]
+    })
+  }
+  return [...servers.values()]
+}
+
+/** Hands the trust settings to the native HTTP stack, which both API calls and event streams use. */
+export async function configureServerTrust(servers: TrustedServer[]): Promise<void> {
+  if (!customTrustSupported()) return
+  try {
+    await ServerTrust.configure({ servers })
+  } catch {
+    // An outdated native shell without the plugin keeps the system trust store.
+  }
+}
+
+/** With `servers`, whether the certificate is trusted is judged by those settings instead of the saved ones. */
+export function inspectCertificate(url: string, servers?: TrustedServer[]): Promise<CertificateInfo> {
+  return ServerTrust.inspect(servers ? { url, servers } : { url })
+}
+
+/**
+ * A native GET checked against `servers` only, for a profile whose certificate settings are not saved yet;
+ * every other request keeps the trust installed by `configureServerTrust`.
+ */
+export async function requestWithTrust(
+  url: string,
+  headers: Record<string, string>,
+  servers: TrustedServer[],
+  timeoutMs?: number
+): Promise<TrustedResponse> {
+  const response = await ServerTrust.request({ url, headers, servers, timeoutMs })
+  const contentType = Object.entries(response.headers).find(([name]) => name.toLowerCase() === "content-type")?.[1] ?? ""
+  if (!contentType.includes("json") || !response.data) return response
+  try {
+    return { ...response, data: JSON.parse(response.data) as unknown }
+  } catch {
+    return response
+  }
+}
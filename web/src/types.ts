@@ -1,8 +1,31 @@
+/** How requests authenticate: OpenCode's own Basic Auth, or what a reverse proxy in front of it expects. */
+export type AuthMode = "none" | "basic" | "bearer" | "headers"
+
 export type ServerConfig = {
   host: string
+  /** 0 leaves the port out of the URL, so the scheme's default (80 or 443) applies, as behind a reverse proxy. */
   port: number
+  /** Path the server is mounted under behind a reverse proxy, e.g. `/opencode`; every route is resolved below it. */
+  basePath?: string
   username: string
   password: string
+  /** Missing on profiles saved before auth modes existed; `authMode()` infers it. */
+  authMode?: AuthMode
+  /** Sent as `Authorization: Bearer <token>` in bearer mode. */
+  token?: string
+  /** One `Name: value` header per line, sent in headers mode. */
+  customHeaders?: string
+  /** SHA-256 fingerprints of the leaf certificate trusted for this `https://` server; enforced by the Android client only. */
+  certificatePins?: string[]
+  /** PEM CA or self-signed leaf certificates trusted for this server, also Android only. */
+  certificates?: string
+}
+
+export type ServerProfile = ServerConfig & {
+  id: string
+  name: string
+  /** Project directories to take live events from; empty or missing streams every project on the server. */
+  pinnedDirectories?: string[]
 }
 
 export type HealthResponse = {
@@ -16,6 +39,15 @@ export type ModelSelection = {
   variant?: string
 }
 
+/** A local file picked in the composer, inlined as a data URL until the prompt is sent. */
+export type PromptAttachment = {
+  id: string
+  filename: string
+  mime: string
+  size: number
+  url: string
+}
+
 export type AgentOption = {
   id: string
   name: string
@@ -58,6 +90,15 @@ export type Session = {
     name?: string
     worktree: string
   } | null
+  revert?: SessionRevert
+}
+
+/** Set while a session is rolled back to `messageID`; messages from there on are hidden until unrevert. */
+export type SessionRevert = {
+  messageID: string
+  partID?: string
+  snapshot?: string
+  diff?: string
 }
 
 export type SessionStatus = {
@@ -67,6 +108,84 @@ export type SessionStatus = {
   next?: number
 }
 
+type PartBase = {
+  id: string
+  sessionID?: string
+  messageID?: string
+}
+
+type PartTime = {
+  start: number
+  end?: number
+}
+
+export type ToolState =
+  | { status: "pending"; input?: Record<string, unknown>; raw?: string }
+  | { status: "running"; input: Record<string, unknown>; title?: string; metadata?: Record<string, unknown>; time: { start: number } }
+  | { status: "completed"; input: Record<string, unknown>; output: string; title: string; metadata?: Record<string, unknown>; time: { start: number; end: number; compacted?: number } }
+  | { status: "error"; input: Record<string, unknown>; error: string; metadata?: Record<string, unknown>; time: { start: number; end: number } }
+
+export type TextPart = PartBase & {
+  type: "text"
+  text: string
+  synthetic?: boolean
+  time?: PartTime
+}
+
+export type ReasoningPart = PartBase & {
+  type: "reasoning"
+  text: string
+  time?: PartTime
+}
+
+export type FilePart = PartBase & {
+  type: "file"
+  mime: string
+  filename?: string
+  url: string
+  source?: {
+    type: "file" | "symbol"
+    path: string
+  }
+}
+
+export type ToolPart = PartBase & {
+  type: "tool"
+  callID: string
+  tool: string
+  state: ToolState
+}
+
+export type StepStartPart = PartBase & {
+  type: "step-start"
+  snapshot?: string
+}
+
+export type StepFinishPart = PartBase & {
+  type: "step-finish"
+  reason?: string
+  snapshot?: string
+  cost?: number
+  tokens?: {
+    input: number
+    output: number
+    reasoning: number
+    cache?: {
+      read: number
+      write: number
+    }
+  }
+}
+
+export type PatchPart = PartBase & {
+  type: "patch"
+  hash: string
+  files: string[]
+}
+
+/** Message parts as sent by OpenCode; unknown future kinds are ignored by the renderer. */
+export type MessagePart = TextPart | ReasoningPart | FilePart | ToolPart | StepStartPart | StepFinishPart | PatchPart
+
 export type MessageEnvelope = {
   info: {
     id: string
@@ -76,12 +195,31 @@ export type MessageEnvelope = {
       created: number
       completed?: number
     }
+    /** File changes made while answering this user message, as reported by the server. */
+    summary?: {
+      diffs?: DiffFile[]
+    }
   }
-  parts: Array<{
-    id: string
-    type: string
-    text?: string
-  }>
+  parts: MessagePart[]
+}
+
+export type PermissionReply = "once" | "always" | "reject"
+
+/** A pending tool permission (edit, bash, webfetch, ...) waiting for the user's answer. */
+export type PermissionRequest = {
+  id: string
+  sessionID: string
+  permission: string
+  patterns: string[]
+  title?: string
+  metadata?: Record<string, unknown>
+  tool?: {
+    messageID: string
+    callID: string
+  }
+  created?: number
+  /** Server profile the request came from, like `SessionView.profileID`. */
+  profileID?: string
 }
 
 export type TodoItem = {
@@ -95,6 +233,10 @@ export type DiffFile = {
   file: string
   additions: number
   deletions: number
+  /** Full file contents before and after the session's edits; missing on older servers. */
+  before?: string
+  after?: string
+  status?: "added" | "deleted" | "modified"
 }
 
 export type ProjectCurrent = Record<string, unknown> & {
@@ -125,6 +267,14 @@ export type FileEntry = {
   ignored?: boolean
 }
 
+/** Body of GET /file/content; binary files arrive base64-encoded. */
+export type FileContent = {
+  type: "text" | "binary"
+  content: string
+  encoding?: "base64"
+  mimeType?: string
+}
+
 export type PathInfo = {
   home: string
   state: string
@@ -149,6 +299,9 @@ export type SessionView = {
   additions: number
   deletions: number
   model?: ModelSelection
+  revert?: SessionRevert
+  /** Server profile the session was loaded from; set when sessions of several servers are merged. */
+  profileID?: string
 }
 
 export type CommandInfo = {
@@ -5,6 +5,10 @@ const app = readFileSync(new URL('./App.tsx', import.meta.url), 'utf8')
 const api = readFileSync(new URL('./api.ts', import.meta.url), 'utf8')
 const icons = readFileSync(new URL('./Icons.tsx', import.meta.url), 'utf8')
 const styles = readFileSync(new URL('./styles.css', import.meta.url), 'utf8')
+const parts = readFileSync(new URL('./MessageParts.tsx', import.meta.url), 'utf8')
+const files = readFileSync(new URL('./FileBrowser.tsx', import.meta.url), 'utf8')
+const diffViewer = readFileSync(new URL('./DiffViewer.tsx', import.meta.url), 'utf8')
+const sessionList = readFileSync(new URL('./session-list.ts', import.meta.url), 'utf8')
 
 const refreshButton = app.match(/<button onClick=\{refreshSessionsWithIndicator\}[\s\S]*?\{t\('sessions\.refresh'\)\}[\s\S]*?<\/button>/)
 assert.ok(refreshButton, 'sessions refresh button should call refreshSessionsWithIndicator')
@@ -58,17 +62,18 @@ assert.ok(app.includes('connection-pending'), 'initial slow connection should sh
 assert.ok(app.includes("t('connection.reconnecting')"), 'slow reconnecting state should be translated and shown quietly')
 assert.ok(styles.includes('.connection-status'), 'connection status should have a dedicated non-error visual treatment')
 assert.ok(app.includes('createFetchOpenCodeEventSubscription'), 'app should use an authenticated fetch-based event stream')
-assert.ok(app.includes('api.eventStream(config)'), 'app should derive the event stream URL and auth headers from server config')
+assert.ok(app.includes('api.eventStream(config, directory)'), 'app should derive the event stream URL and auth headers from server config')
 assert.ok(app.includes('setEventStreamState("live")'), 'app should expose live event-stream state in the UI')
 assert.ok(app.includes('event-stream'), 'sessions header should visibly show the event stream state')
 assert.ok(app.includes('isNativeEventTransport()'), 'Android should select the native SSE transport instead of WebView fetch streaming')
 assert.ok(app.includes('createNativeOpenCodeEventSubscription'), 'Android should use the native event transport')
 assert.match(styles, /\.connection-status\s*\{\s*display:\s*flex;/, 'connection and live-status rows should be stacked, not joined inline')
-assert.ok(app.includes('eventType(event.data)'), 'app should unwrap the official global event envelope before filtering')
-assert.ok(app.includes('type.startsWith("session.") || type.startsWith("message.") || type.startsWith("todo.")'), 'only session/message/todo events should schedule refreshes')
+assert.ok(app.includes('dispatcher.dispatch(event.data, config.id)'), 'app should route live events through the typed dispatcher, which unwraps the global event envelope')
+assert.ok(app.includes('dispatcher.on(SESSION_LIST_EVENTS') && app.includes('dispatcher.on(SELECTED_SESSION_EVENTS') && !app.includes('type.startsWith('), 'only subscribed session/message/todo event types should schedule refreshes')
 assert.ok(app.includes('setLiveEventCount((count) => count + 1)'), 'the UI should expose received application events as a counter')
 assert.ok(app.includes('scheduleRefresh()'), 'relevant live events should schedule session/message refreshes')
-assert.ok(api.includes('eventStream(config: ServerConfig)'), 'API should expose an authenticated global event-stream descriptor')
+assert.ok(api.includes('const headers = authHeaders(config)'), 'the event stream should authenticate like every other request, in any auth mode')
+assert.ok(api.includes('eventStream(config: ServerConfig, directory?: string)'), 'API should expose an authenticated global or project event-stream descriptor')
 assert.ok(app.includes('NEW_SESSION_DIRECTORY_STORAGE_KEY'), 'last new-session folder should persist separately from connection settings')
 assert.ok(app.includes('showNewSessionPicker'), 'New Session should open a per-session folder picker instead of applying one global folder')
 assert.ok(app.includes('api.loadPath(config, selectedNewSessionDirectory)'), 'folder picker should start from OpenCode /path')
@@ -90,9 +95,27 @@ assert.ok(api.includes('listGlobalSessions(config: ServerConfig)'), 'sessions vi
 assert.ok(api.includes('x-next-cursor'), 'global session discovery should page through all experimental session results')
 assert.ok(app.includes('api.listSessions(config, directory).catch(() => [] as Session[])'), 'global sessions should be hydrated from scoped session lists for fresh timestamps and summaries')
 assert.ok(api.includes('loadLatestMessage(config: ServerConfig, sessionID: string, directory?: string)'), 'API should expose a cheap latest-message request')
-assert.ok(app.includes('function messageActivityTime'), 'sessions should display latest message activity instead of mutable session row timestamps')
+assert.ok(sessionList.includes('function messageActivityTime') && app.includes('Math.max(...latest.map(messageActivityTime))'), 'sessions should display latest message activity instead of mutable session row timestamps')
 assert.ok(app.includes('latestMessageTimesRef'), 'latest message activity lookups should be cached between refreshes')
 assert.ok(app.includes('catch(() => null)'), 'failed latest-message lookups should not be cached as session row timestamps')
+assert.ok(app.includes('Promise.allSettled(sessionServers.map(loadServerSessions))'), 'all-servers view should load every saved profile in parallel')
+assert.ok(app.includes('profileID: config.id'), 'merged sessions should be tagged with their origin server profile')
+assert.ok(app.includes('const subscriptions = sessionServers.map(subscribe)'), 'all-servers view should keep one event subscription per server')
+assert.ok(app.includes('eventStreamTargets(config).map(({ streamID, directory })'), 'event streams should be keyed per server and pinned project so several can stay open')
+assert.ok(api.includes('streamURL(baseUrl(config), "project", directory)'), 'pinned projects should use project-scoped event streams')
+assert.ok(app.includes('applyMessageEvent(transcriptRef.current, payload, selected.id)'), 'live message events should update the open transcript without a refetch')
+assert.ok(app.includes('if (applied === "gap") scheduleRefresh()'), 'message events the store cannot place should fall back to a refetch')
+assert.ok(app.includes('if (!status.resumed) scheduleResync(config.id)'), 'reconnects the server could not replay should resync only that server')
+assert.ok(app.includes('<Diagnostics config={draftConfig} t={t} trust={trustedServers([draftConfig], serverURL)} onClose={() => setView("settings")} />'), 'settings should open connection diagnostics for the server being edited, with its certificate settings')
+assert.ok(app.includes('api.health(configToTest, draftTrust({ ...draftConfig, ...configToTest }))'), 'Test Connection should check the draft certificate settings per request instead of installing them for the whole app')
+assert.ok(app.includes('saveProfileStore(withoutPasswords(next))'), 'passwords should only be written to localStorage before a credential store is set up')
+assert.ok(app.includes('setEventStreamState("stale")'), 'a stream that went silent should stop being reported as live')
+assert.ok(app.includes('if (status.type === "gap") scheduleResync(config.id)'), 'skipped event ids should resync the server that dropped them')
+assert.ok(app.includes('applyPermissionEvent(current, payload, serverID)'), 'permission events from the global stream should update pending requests')
+assert.ok(app.includes('api.replyPermission(config, permission, reply, selectedSession.directory)'), 'permission cards should answer through the API')
+assert.ok(app.includes('"awaiting-permission"'), 'sessions waiting for permission should stand out in the list')
+assert.ok(api.includes('`/permission/${permission.id}/reply`'), 'permission replies should use the OpenCode permission endpoint')
+assert.ok(app.includes('ALL_SERVERS_STORAGE_KEY'), 'all-servers preference should persist locally')
 
 assert.ok(app.includes('THEME_STORAGE_KEY'), 'theme preference should persist separately from server settings')
 assert.ok(app.includes('type ThemePreference = "system" | "light" | "dark"'), 'theme preference should support system, light, and dark')
@@ -108,6 +131,63 @@ assert.ok(app.includes('ReactMarkdown'), 'messages should use a maintained Markd
 assert.ok(app.includes('remarkGfm'), 'messages should support GitHub-flavored Markdown')
 assert.ok(/\.message-content pre[\s\S]*?overflow-x:\s*auto/.test(styles), 'fenced code blocks should render as scrollable blocks')
 
+assert.ok(app.includes('<MessagePartCard key={part.id} part={part} t={t} />'), 'non-text message parts should render as cards instead of being dropped')
+assert.ok(app.includes('message.parts.filter(isVisiblePart)'), 'messages with only tool or reasoning parts should still be listed')
+assert.ok(parts.includes('<details className={`part-card tool ${state.status}`}>'), 'tool calls should render as collapsible cards with their state')
+for (const kind of ['"reasoning"', '"file"', '"step-start"', '"step-finish"', '"patch"']) {
+  assert.ok(parts.includes(`case ${kind}:`), `${kind} parts should have a card`)
+}
+assert.ok(/\.message-content \.part-body pre[\s\S]*?max-height/.test(styles), 'long tool output should scroll inside its card')
+
+assert.ok(app.includes('{ view: "files" as const'), 'navigation should include a Files tab for the selected session')
+assert.ok(files.includes('api.readFile(config, openPath, directory)'), 'file viewer should load content from the server file endpoint')
+assert.ok(files.includes('<span className="line-number">{index + 1}</span>'), 'file viewer should show line numbers')
+assert.ok(files.includes('onInsertReference(openPath)'), 'file viewer should insert an @path reference into the composer')
+assert.ok(api.includes('/file/content?path='), 'API should read files through /file/content')
+
+assert.ok(app.includes('<DiffViewer files={diffFiles} t={t} />'), 'changed files should open a per-file diff viewer')
+assert.ok(diffViewer.includes('buildHunks(file.before ?? "", file.after ?? "")'), 'diffs should be computed from the before/after file contents')
+assert.ok(diffViewer.includes('splitRows(hunk)'), 'diff viewer should offer a side-by-side layout')
+assert.ok(diffViewer.includes('goToHunk(hunkIndex + 1)'), 'diff viewer should navigate between hunks')
+assert.ok(diffViewer.includes('className="diff-word"'), 'diff viewer should highlight changed words')
+
+assert.ok(app.includes('startLongPress(message.info.id)'), 'long-pressing a message should offer to revert from there')
+assert.ok(app.includes('api.revertSession(config, selectedSession.id, messageID, selectedSession.directory)'), 'revert should call the session revert endpoint')
+assert.ok(app.includes('api.unrevertSession(config, selectedSession.id, selectedSession.directory)'), 'reverted sessions should offer unrevert')
+assert.ok(app.includes('filesRevertedFrom(messages, revertMessageID)'), 'revert confirmation should list the files that will be rolled back')
+assert.ok(api.includes('/revert`') && api.includes('/unrevert`'), 'API should expose the session revert endpoints')
+
+assert.ok(!api.includes('message?limit=100'), 'message loading should page instead of truncating long sessions')
+assert.ok(api.includes('params.set("before", page.before)'), 'API should request older messages with a cursor')
+assert.ok(app.includes('mergeTail(loaded, msg, sessionID)'), 'polling should refresh only the tail and keep older pages')
+assert.ok(app.includes('scrollAnchorRef.current = { id: first.dataset.messageId'), 'scroll-back should keep the reading position when older messages load')
+
+assert.ok(app.includes('loadCachedSessions(server.id)'), 'the last known session list should render from the offline cache on startup')
+assert.ok(app.includes('saveCachedTranscript(profileID, sessionID, { messages, todos, diffFiles })'), 'messages, todos and diffs should be cached per server')
+assert.ok(app.includes("t('connection.staleCopy'"), 'cached data should be marked as stale until the server confirms it')
+assert.ok(app.includes('api.health(config).then(poll'), 'stale data should reconcile once the health check succeeds')
+
+assert.ok(app.includes('if (!delivered && err instanceof NetworkError)'), 'prompts that cannot reach the server should be queued instead of dropped back into the composer')
+assert.ok(app.includes('flushOutbox(config).catch(() => undefined)'), 'queued prompts should be retried when the event stream reconnects')
+assert.ok(app.includes('onClick={() => cancelOutboxItem(item.id)}'), 'queued prompts should be individually cancellable')
+assert.ok(app.includes('sessionStatusAlerts(notifiedStatusesRef.current, sessions, erroredSessionsRef.current)'), 'session status transitions should raise system notifications')
+assert.ok(app.includes('useEffect(() => onNotificationOpen(setNotificationTarget), [])'), 'tapping a notification should open its session')
+assert.ok(app.includes('setNativeBackgroundStream(backgroundStreamEnabled, {'), 'the background stream setting should reach the native foreground service')
+assert.ok(app.includes('if (change) setSessions((current) => applySessionListChange(current, change, serverID))'), 'live session events should update the list without refetching it')
+assert.ok(app.includes('if (!hasConfiguredServer || !pollingFallback) return'), 'polling should only run while the event stream is down')
+assert.ok(app.includes('const pollingFallback = eventStreamState === "fallback"'), 'polling should not run while the stream is only connecting or reconnecting')
+assert.ok(api.includes('export class NetworkError extends Error'), 'unreachable servers should be distinguishable from rejected requests')
+
+assert.ok(app.includes("if (!(await confirmDestructiveAction(t('appLock.confirmDelete')))) return"), 'deleting a session should ask to unlock first when the app lock guards actions')
+assert.ok(app.includes("if (!(await confirmDestructiveAction(t('appLock.confirmAbort')))) return"), 'stopping a session should ask to unlock first when the app lock guards actions')
+
+assert.ok(app.includes('              url,\n              headers,\n              idleTimeoutMs'), 'the native event stream should receive the same auth headers as the fetch transport')
+
+assert.ok(app.includes('if (err instanceof NetworkError) void offerCertificateTrust({ ...draftConfig, ...configToTest }, "draft")'), 'a failed connection test should offer to trust an unknown https certificate')
+assert.ok(app.includes('const savedServerTrust = trustedServers(profileStore.profiles, serverURL)'), 'only saved profiles should install certificate trust for the whole app')
+assert.ok(app.includes('<dd className="certificate-fingerprint">{certificatePrompt.certificate.fingerprint}</dd>'), 'the trust-on-first-use prompt should show the certificate fingerprint')
+
 assert.match(icons, /export const RefreshIcon/, 'RefreshIcon should exist for idle refresh UI')
 
+assert.equal(app.split('idleTimeoutMs: idleTimeoutSeconds * 1000').length - 1, 2, 'both event transports should use the watchdog from Settings')
 console.log('ui regression tests passed')